@@ -1,31 +1,59 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { UploadButton } from './components/UploadButton';
 import { Messages } from './components/Messages';
+import { VideoSortControls } from './components/VideoSortControls';
 import { VideoPlayer } from './components/VideoPlayer';
 import { WelcomeModal } from './components/WelcomeModal';
 import { UploadInfoModal } from './components/UploadInfoModal';
 import { NaiasView } from './components/NaiasView';
 import { ArticleCard } from './components/ArticleCard';
 import { ArticleModal } from './components/ArticleModal';
-import { VideoEntry, ArticleEntry, ImageEntry, EventEntry } from './types';
-import { extractFrameFromVideo } from './utils/videoHelpers';
-import { PLACEHOLDER_THUMBNAIL } from './utils/constants';
+import { SignInModal } from './components/SignInModal';
+import { AccountButton } from './components/AccountButton';
+import { ModerationQueue } from './components/ModerationQueue';
+import { SearchBar } from './components/SearchBar';
+import { TagFilter } from './components/TagFilter';
+import { requestSafetyScreening } from './services/moderationService';
+import { setContentTags, fetchVideoTags } from './services/tagService';
+import { acceptVideoSuggestion } from './services/suggestionService';
+import { loadCachedFeed, saveCachedFeed, fetchFavoriteIds, setFavorite, fetchOfflineItemIds, syncOfflineMedia } from './services/offlineService';
+import { OfflineIndicator } from './components/OfflineIndicator';
+import { resumeUploads, enqueueUpload, cancelUpload, retryUpload, dismissUpload, onUploadsChange, onUploadSaved } from './services/uploadQueue';
+import { UploadsTray } from './components/UploadsTray';
+import { BatchUploadModal } from './components/BatchUploadModal';
+import { VideoRecorderModal } from './components/VideoRecorderModal';
+import { VoiceRecorderModal } from './components/VoiceRecorderModal';
+import { VideoEntry, ArticleEntry, ImageEntry, VoiceEntry, EventEntry, ProcessingJob, Profile, ModerationItem, SearchResult, Tag, TagDraft, OfflineFeed, UploadTask, UploadDetails } from './types';
+import { VideoSortOrder, DurationFilter, sortAndFilterVideos } from './utils/videoSorting';
+import { hasRole, canContribute, canManage } from './utils/permissions';
+import { collectTags, hasTag, filterEventsByTag } from './utils/tagHelpers';
 import { 
-  fetchVideos, insertVideo, updateVideo, uploadVideoToStorage, uploadThumbnailToStorage, triggerVideoProcessing, supabase,
+  fetchVideos, triggerVideoProcessing, supabase, rowToVideoEntry,
+  fetchLatestProcessingJobs, rowToProcessingJob,
   fetchArticles, insertArticle,
-  fetchImages, insertImage, uploadImageToStorage,
+  fetchImages,
+  fetchVoiceMessages, rowToVoiceEntry,
   fetchEvents
 } from './services/supabaseService';
-import { Heart, Grid3x3, Video, BookOpen, Image as ImageIcon, Calendar, Plus } from 'lucide-react';
+import { getSession, onAuthChange, fetchProfile, signOut } from './services/authService';
+import type { Session } from '@supabase/supabase-js';
+import { Heart, Grid3x3, Video, BookOpen, Image as ImageIcon, Calendar, Plus, ShieldCheck, CloudDownload, Camera, Mic } from 'lucide-react';
 import { Events } from './components/Events';
 import { EventsWall } from './components/EventsWall';
 
 const FIRST_VISIT_KEY = 'dear-naia-first-visit';
+const TRANSCRIPT_LANGUAGE_KEY = 'dear-naia-transcript-language';
+const PENDING_REVIEW_MESSAGE = "Thank you! Your memory will appear in Naia's feed once it has been checked.";
+const EDIT_REVIEW_MESSAGE = "Saved! Your changes will appear in Naia's feed once they have been checked.";
+
+// Newest first, like the fetch functions return them
+const byNewest = (a: { timestamp: number }, b: { timestamp: number }) => b.timestamp - a.timestamp;
 
 const App: React.FC = () => {
   const [videos, setVideos] = useState<VideoEntry[]>([]);
   const [articles, setArticles] = useState<ArticleEntry[]>([]);
   const [images, setImages] = useState<ImageEntry[]>([]);
+  const [voiceMessages, setVoiceMessages] = useState<VoiceEntry[]>([]);
   const [events, setEvents] = useState<EventEntry[]>([]);
   const [selectedVideo, setSelectedVideo] = useState<VideoEntry | null>(null);
   const [activeTab, setActiveTab] = useState<'videos' | 'articles' | 'images' | 'events'>('videos');
@@ -34,11 +62,61 @@ const App: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [showNaiasView, setShowNaiasView] = useState(true);
   const [showUploadModal, setShowUploadModal] = useState(false);
-  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]); // Picked or dropped together
+  const [showRecorder, setShowRecorder] = useState(false);
+  const [showVoiceRecorder, setShowVoiceRecorder] = useState(false);
+  const [processingJobs, setProcessingJobs] = useState<Record<string, ProcessingJob>>({});
+  const [transcriptLanguage, setTranscriptLanguage] = useState<string>(() => localStorage.getItem(TRANSCRIPT_LANGUAGE_KEY) || '');
+  const [sortOrder, setSortOrder] = useState<VideoSortOrder>('newest');
+  const [durationFilter, setDurationFilter] = useState<DurationFilter>('all');
+  const [tagFilter, setTagFilter] = useState<string | null>(null); // Tag id - "everything featuring Aunt Maya"
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set()); // Favorited on this device
+  const [offlineIds, setOfflineIds] = useState<Set<string>>(new Set()); // Videos and images saved on this device
+  const hasLoadedFromNetwork = useRef(false);
+  const [uploads, setUploads] = useState<UploadTask[]>([]); // Upload queue, for the tray
+
+  // The same ordering drives the Messages strip and Naia's View feed
+  const displayedVideos = useMemo(
+    () => sortAndFilterVideos(videos, sortOrder, durationFilter).filter(video => hasTag(video, tagFilter)),
+    [videos, sortOrder, durationFilter, tagFilter]
+  );
+  const displayedArticles = useMemo(() => articles.filter(article => hasTag(article, tagFilter)), [articles, tagFilter]);
+  const displayedImages = useMemo(() => images.filter(image => hasTag(image, tagFilter)), [images, tagFilter]);
+  const displayedEvents = useMemo(() => filterEventsByTag(events, tagFilter), [events, tagFilter]);
+  // Offline, Naia's View only shows what can actually play
+  const naiaVideos = useMemo(
+    () => isOnline ? displayedVideos : displayedVideos.filter(video => offlineIds.has(video.id)),
+    [displayedVideos, isOnline, offlineIds]
+  );
+  // Voice messages carry no tags, and their audio isn't saved for offline listening
+  const naiaVoiceMessages = useMemo(
+    () => (isOnline && !tagFilter ? voiceMessages : []),
+    [voiceMessages, isOnline, tagFilter]
+  );
+  const naiaImages = useMemo(
+    () => isOnline ? displayedImages : displayedImages.filter(image => offlineIds.has(image.id)),
+    [displayedImages, isOnline, offlineIds]
+  );
+  // Tags in use anywhere, for the filter
+  const feedTags = useMemo(
+    () => collectTags([...videos, ...articles, ...images, ...events.flatMap(event => event.media || [])]),
+    [videos, articles, images, events]
+  );
   
+  const [profile, setProfile] = useState<Profile | null>(null); // Signed-in user, null when signed out
+  const [showSignInModal, setShowSignInModal] = useState(false);
+  const [showModerationQueue, setShowModerationQueue] = useState(false);
+
   // Article Modal State
   const [previewArticle, setPreviewArticle] = useState<ArticleEntry | null>(null);
   const [showArticleModal, setShowArticleModal] = useState(false);
+  const [videoSeek, setVideoSeek] = useState<{ videoId: string; seconds: number } | null>(null); // Set by transcript search hits
+
+  const handleTranscriptLanguageChange = (languageCode: string) => {
+    setTranscriptLanguage(languageCode);
+    localStorage.setItem(TRANSCRIPT_LANGUAGE_KEY, languageCode);
+  };
 
   // Check if this is the first visit
   useEffect(() => {
@@ -48,20 +126,87 @@ const App: React.FC = () => {
     }
   }, []);
 
-  // Load data from database on mount
+  // Keep the signed-in profile in sync with the auth session (magic links land back here)
+  useEffect(() => {
+    const loadProfile = async (session: Session | null) => {
+      if (!session) {
+        setProfile(null);
+        return;
+      }
+      const user = session.user;
+      const savedProfile = await fetchProfile(user.id);
+      // The profile row is created by a trigger on sign-up - fall back to the auth details until it exists
+      setProfile(savedProfile || {
+        id: user.id,
+        displayName: user.user_metadata?.display_name || user.email?.split('@')[0] || '',
+        role: 'viewer',
+      });
+      setShowSignInModal(false);
+    };
+
+    getSession().then(loadProfile);
+    return onAuthChange(loadProfile);
+  }, []);
+
+  // Track the connection, for the offline indicator and to reload once it's back
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
   useEffect(() => {
+    fetchFavoriteIds().then(setFavoriteIds);
+    fetchOfflineItemIds().then(setOfflineIds);
+  }, []);
+
+  // Load data from database on mount, and again when the connection comes back.
+  // The copy saved on this device is shown first, so Naia's View opens straight away - even offline
+  useEffect(() => {
+    // Going offline keeps whatever is already on screen
+    if (!isOnline && hasLoadedFromNetwork.current) return;
+
     const loadData = async () => {
-      setIsLoading(true);
+      let cachedFeed: OfflineFeed | null = null;
+      if (!hasLoadedFromNetwork.current) {
+        cachedFeed = await loadCachedFeed();
+        if (cachedFeed && !hasLoadedFromNetwork.current) {
+          setVideos(cachedFeed.videos);
+          setImages(cachedFeed.images);
+          setEvents(cachedFeed.events);
+          setIsLoading(false);
+        }
+      }
+      if (!isOnline) {
+        setIsLoading(false);
+        return;
+      }
+
       try {
-        const [loadedVideos, loadedArticles, loadedImages, loadedEvents] = await Promise.all([
+        const [loadedVideos, loadedArticles, loadedImages, loadedVoiceMessages, loadedEvents, loadedJobs, loadedVoiceJobs] = await Promise.all([
           fetchVideos(),
           fetchArticles(),
           fetchImages(),
-          fetchEvents()
+          fetchVoiceMessages(),
+          fetchEvents(),
+          fetchLatestProcessingJobs(),
+          fetchLatestProcessingJobs('voice_messages')
         ]);
+        // The fetches return empty lists on failure - e.g. a captive wifi portal - so don't swap a saved feed for nothing
+        const hasContent = loadedVideos.length > 0 || loadedImages.length > 0 || loadedVoiceMessages.length > 0 || loadedEvents.length > 0;
+        if (cachedFeed && !hasContent) return;
+
+        hasLoadedFromNetwork.current = true;
         setVideos(loadedVideos);
+        setProcessingJobs({ ...loadedVoiceJobs, ...loadedJobs });
         setArticles(loadedArticles);
         setImages(loadedImages);
+        setVoiceMessages(loadedVoiceMessages);
         setEvents(loadedEvents);
       } catch (error) {
         console.error('Failed to load data:', error);
@@ -71,7 +216,31 @@ const App: React.FC = () => {
     };
 
     loadData();
-  }, []);
+  }, [isOnline]);
+
+  // Keep the saved copy of the feed current, including realtime changes
+  useEffect(() => {
+    if (hasLoadedFromNetwork.current) {
+      saveCachedFeed({ videos, images, events });
+    }
+  }, [videos, images, events]);
+
+  // On Naia's device, download the newest and favorite videos and images for offline viewing
+  useEffect(() => {
+    if (!showNaiasView || !isOnline || !hasLoadedFromNetwork.current) return;
+    syncOfflineMedia(videos, images, favoriteIds).then(setOfflineIds);
+  }, [showNaiasView, isOnline, videos, images, favoriteIds]);
+
+  const handleToggleFavorite = (itemId: string) => {
+    const favorite = !favoriteIds.has(itemId);
+    setFavoriteIds(prev => {
+      const next = new Set(prev);
+      if (favorite) next.add(itemId);
+      else next.delete(itemId);
+      return next;
+    });
+    setFavorite(itemId, favorite);
+  };
 
   // Reload events when needed
   const handleEventsChange = async () => {
@@ -93,26 +262,67 @@ const App: React.FC = () => {
           event: 'UPDATE',
           schema: 'public',
           table: 'videos',
-          filter: 'transcription=not.is.null',
         },
         (payload: any) => {
-          console.log('Video transcription updated:', payload.new);
-          // Update the video in local state when transcription completes
-          setVideos((prev: VideoEntry[]) =>
-            prev.map((v) =>
-              v.id === payload.new.id
-                ? { ...v, transcription: payload.new.transcription }
-                : v
-            )
-          );
+          console.log('Video updated:', payload.new);
+          // Replace the video in local state when processing fills in the transcription, captions or thumbnail.
+          // Approval adds it to the feed; anything else takes it out again.
+          // Realtime rows don't carry tags - keep the ones already loaded, then refresh them
+          const updatedVideo = rowToVideoEntry(payload.new);
+          setVideos((prev: VideoEntry[]) => {
+            const others = prev.filter((v) => v.id !== updatedVideo.id);
+            if (updatedVideo.moderationStatus !== 'approved') return others;
+            return prev.length === others.length
+              ? [updatedVideo, ...others].sort(byNewest)
+              : prev.map((v) => v.id === updatedVideo.id ? { ...updatedVideo, tags: v.tags } : v);
+          });
+          if (updatedVideo.moderationStatus === 'approved') {
+            fetchVideoTags(updatedVideo.id).then(tags => handleVideoTagsChange(updatedVideo.id, tags));
+          }
           // Update selected video if it's the one being updated
           setSelectedVideo((current) =>
-            current?.id === payload.new.id
-              ? { ...current, transcription: payload.new.transcription }
+            current?.id === updatedVideo.id
+              ? { ...updatedVideo, tags: current.tags }
               : current
           );
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'voice_messages',
+        },
+        (payload: any) => {
+          // Same as videos: the transcript fills in captions, and approval adds it to the feed
+          const updatedVoice = rowToVoiceEntry(payload.new);
+          setVoiceMessages(prev => {
+            const others = prev.filter(v => v.id !== updatedVoice.id);
+            return updatedVoice.moderationStatus === 'approved' ? [updatedVoice, ...others].sort(byNewest) : others;
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'processing_jobs',
+          filter: 'target=in.(videos,voice_messages)',
+        },
+        (payload: any) => {
+          // Badges only track transcription - media jobs show up as the thumbnail changing
+          if (!payload.new?.id || payload.new.job_type !== 'transcription') return;
+          // Keep the newest job per video for the status badges
+          const job = rowToProcessingJob(payload.new);
+          setProcessingJobs((prev) => {
+            const current = prev[job.videoId];
+            if (current && current.id !== job.id && current.createdAt > job.createdAt) return prev;
+            return { ...prev, [job.videoId]: job };
+          });
+        }
+      )
       .subscribe();
 
     return () => {
@@ -120,19 +330,176 @@ const App: React.FC = () => {
     };
   }, []);
 
+  const handleVideoTagsChange = (videoId: string, tags: Tag[]) => {
+    setVideos(prev => prev.map(v => v.id === videoId ? { ...v, tags } : v));
+    setSelectedVideo(current => current?.id === videoId ? { ...current, tags } : current);
+  };
+
+  // Owners and moderators can correct a video's tags (which also confirms suggested ones).
+  // An uploader retagging an approved video sends it back for review.
+  const handleSaveVideoTags = async (video: VideoEntry, tags: TagDraft[]): Promise<boolean> => {
+    const savedTags = await setContentTags('videos', video.id, tags);
+    if (!savedTags) {
+      alert('Could not save these tags. Please try again.');
+      return false;
+    }
+    handleVideoTagsChange(video.id, savedTags);
+
+    const tagIds = (list: Tag[] = []) => list.map(tag => tag.id).sort().join();
+    if (video.moderationStatus === 'approved' && !hasRole(profile, 'moderator') && tagIds(savedTags) !== tagIds(video.tags)) {
+      alert(EDIT_REVIEW_MESSAGE);
+    }
+    return true;
+  };
+
+  // Applies the enrichment job's suggestions, as the uploader edited them. Tags go first, so if
+  // either step fails the suggestion stays open and accepting it again picks up where it left off.
+  // An uploader changing an approved video sends it back for review, like any other edit.
+  const handleAcceptSuggestion = async (
+    video: VideoEntry,
+    changes: Pick<VideoEntry, 'title' | 'summary' | 'contentWarning'>,
+    tags: TagDraft[]
+  ): Promise<boolean> => {
+    const savedTags = await setContentTags('videos', video.id, tags);
+    if (!savedTags) {
+      alert('Could not save the suggested tags. Please try again.');
+      return false;
+    }
+    handleVideoTagsChange(video.id, savedTags);
+
+    const updatedVideo = await acceptVideoSuggestion(video.id, changes);
+    if (!updatedVideo) {
+      alert('Could not save these suggestions. Please try again.');
+      return false;
+    }
+    const acceptedVideo = { ...updatedVideo, tags: savedTags };
+    setVideos(prev => acceptedVideo.moderationStatus === 'approved'
+      ? prev.map(v => v.id === video.id ? acceptedVideo : v)
+      : prev.filter(v => v.id !== video.id));
+    setSelectedVideo(current => current?.id === video.id ? acceptedVideo : current);
+
+    if (video.moderationStatus === 'approved' && acceptedVideo.moderationStatus !== 'approved') {
+      alert(EDIT_REVIEW_MESSAGE);
+    }
+    return true;
+  };
+
+  const trackProcessingJob = (job: ProcessingJob | null) => {
+    if (job) {
+      setProcessingJobs((prev) => ({ ...prev, [job.videoId]: job }));
+    }
+  };
+
+  // Follow the upload queue for the tray; saved images that passed screening join the feed straight away
+  useEffect(() => {
+    const unsubscribeUploads = onUploadsChange(setUploads);
+    const unsubscribeSaved = onUploadSaved(saved => {
+      if (saved.kind === 'video' || saved.kind === 'voice') {
+        trackProcessingJob(saved.job);
+      } else if (saved.entry.moderation_status === 'approved') {
+        setImages(prev => [saved.entry, ...prev.filter(i => i.id !== saved.entry.id)].sort(byNewest));
+      }
+    });
+    return () => {
+      unsubscribeUploads();
+      unsubscribeSaved();
+    };
+  }, []);
+
+  // Carry on with uploads left over from the last visit, once the session is back
+  useEffect(() => {
+    if (canContribute(profile)) resumeUploads();
+  }, [profile]);
+
+  // Admin action: put a video back through the transcription pipeline
+  const handleRetranscribe = async (video: VideoEntry) => {
+    const job = await triggerVideoProcessing(video.id, 'videos', []);
+    if (job) {
+      trackProcessingJob(job);
+    } else {
+      alert('Could not queue this video for transcription. Please try again.');
+    }
+  };
+
+  // Approved submissions join the feed straight away
+  const handleModerated = (item: ModerationItem) => {
+    if (item.entry.id === selectedVideo?.id && item.target === 'videos') {
+      setSelectedVideo(item.entry);
+    }
+    const status = item.target === 'videos' || item.target === 'voice_messages' ? item.entry.moderationStatus : item.entry.moderation_status;
+    if (status !== 'approved') return;
+
+    switch (item.target) {
+      case 'videos':
+        setVideos(prev => [item.entry, ...prev.filter(v => v.id !== item.entry.id)].sort(byNewest));
+        break;
+      case 'articles':
+        setArticles(prev => [item.entry, ...prev.filter(a => a.id !== item.entry.id)].sort(byNewest));
+        break;
+      case 'images':
+        setImages(prev => [item.entry, ...prev.filter(i => i.id !== item.entry.id)].sort(byNewest));
+        break;
+      case 'voice_messages':
+        setVoiceMessages(prev => [item.entry, ...prev.filter(v => v.id !== item.entry.id)].sort(byNewest));
+        break;
+      case 'events':
+      case 'event_media':
+        // Events carry their media, so reload them rather than patching one in
+        handleEventsChange();
+        break;
+    }
+  };
+
   const handleWelcomeClose = () => {
     setShowWelcome(false);
     localStorage.setItem(FIRST_VISIT_KEY, 'true');
   };
 
-  const handleFileSelect = (file: File) => {
-    setPendingFile(file);
+  /**
+   * Uploading needs a contributor account - signed-out visitors are asked to sign in first
+   * @returns Whether the user can go ahead
+   */
+  const ensureCanContribute = (): boolean => {
+    if (canContribute(profile)) return true;
+    if (profile) {
+      alert('Your account can view memories but not add them yet. Ask an admin for contributor access.');
+    } else {
+      setShowSignInModal(true);
+    }
+    return false;
+  };
+
+  const handleFileSelect = (files: File[]) => {
+    if (!ensureCanContribute()) return;
+    setPendingFiles(files);
     setShowUploadModal(true);
   };
 
+  const handleRecordClick = () => {
+    if (!ensureCanContribute()) return;
+    setShowRecorder(true);
+  };
+
+  // A kept recording goes on to the same details dialog and upload queue as a picked file
+  const handleRecorded = (file: File) => {
+    setShowRecorder(false);
+    setPendingFiles([file]);
+    setShowUploadModal(true);
+  };
+
+  const handleVoiceClick = () => {
+    if (!ensureCanContribute()) return;
+    setShowVoiceRecorder(true);
+  };
+
+  const handleVoiceSubmit = async (file: File, details: UploadDetails) => {
+    setShowVoiceRecorder(false);
+    await enqueueUpload('voice', file, { ...details, speakerPhotoUrl: profile?.avatarUrl });
+  };
+
   const handleUploadModalClose = () => {
     setShowUploadModal(false);
-    setPendingFile(null);
+    setPendingFiles([]);
   };
 
   const handleAddClick = () => {
@@ -140,6 +507,7 @@ const App: React.FC = () => {
   };
 
   const handleArticleClick = () => {
+    if (!ensureCanContribute()) return;
     setShowUploadModal(true);
   };
 
@@ -153,165 +521,83 @@ const App: React.FC = () => {
     setPreviewArticle(null);
   };
 
-  const handleUpload = async (file: File | null, personName: string, description: string, link?: string, articleTitle?: string) => {
+  const handleSearchResult = (result: SearchResult, seekSeconds: number | null) => {
+    if (result.type === 'articles') {
+      const article = articles.find(entry => entry.id === result.id);
+      if (article) handlePreviewArticle(article);
+      return;
+    }
+
+    setShowNaiasView(false);
+    setActiveTab(result.type);
+    if (result.type === 'videos') {
+      const video = videos.find(entry => entry.id === result.id);
+      if (video) {
+        setSelectedVideo(video);
+        setVideoSeek(seekSeconds !== null ? { videoId: video.id, seconds: seekSeconds } : null);
+      }
+    }
+  };
+
+  const handleUpload = async (file: File | null, personName: string, description: string, link?: string, articleTitle?: string, speakers: string[] = [], tags: TagDraft[] = []) => {
     setShowUploadModal(false);
+    setPendingFiles([]);
+
+    // --- Video and Image Upload ---
+    // Files go through the upload queue, which keeps them on this device until they're saved,
+    // so closing the tab or losing the connection only pauses them. The uploads tray shows progress.
+    if (activeTab !== 'articles') {
+      if (!file) return;
+      await enqueueUpload(activeTab === 'images' ? 'image' : 'video', file, { personName, description, speakers, tags });
+      return;
+    }
+
+    // --- Article Upload ---
     setIsProcessing(true);
-    let blobUrl: string | null = null;
-    
     try {
-      const id = crypto.randomUUID();
-      const timestamp = Date.now();
-      // Use person's name as the title
-      const title = `${personName}'s Message`;
-
-      // --- Article Upload ---
-      if (activeTab === 'articles') {
-          if (!link) throw new Error("Link is required for articles");
-          
-          // Use article title from metadata if available, otherwise use person's name format
-          const finalTitle = articleTitle || title;
-          
-          const newArticle: ArticleEntry = {
-              id,
-              link,
-              title: finalTitle,
-              description,
-              timestamp,
-              posted_by: personName
-          };
-          
-          const savedArticle = await insertArticle(newArticle);
-          if (savedArticle) {
-              setArticles(prev => [savedArticle, ...prev]);
-              // alert('Article saved successfully!');
-          } else {
-              throw new Error("Failed to save article to database");
-          }
-          return;
-      } 
-      
-      // --- Image Upload ---
-      if (activeTab === 'images') {
-          if (!file) throw new Error("Image file is required");
-          
-          const storageUrl = await uploadImageToStorage(file, id);
-          if (!storageUrl) throw new Error("Failed to upload image");
-          
-          const newImage: ImageEntry = {
-              id,
-              url: storageUrl,
-              title,
-              description,
-              timestamp
-          };
-          
-          const savedImage = await insertImage(newImage);
-          if (savedImage) {
-              setImages(prev => [savedImage, ...prev]);
-              // alert('Image saved successfully!');
-          } else {
-              throw new Error("Failed to save image to database");
-          }
-          return;
-      }
+      if (!link) throw new Error("Link is required for articles");
 
-      // --- Video Upload ---
-      if (!file) return;
+      // Use article title from metadata if available, otherwise use person's name format
+      const finalTitle = articleTitle || `${personName}'s Message`;
 
-      // Create blob URL for immediate playback while uploading
-      blobUrl = URL.createObjectURL(file);
-      
-      // 1. Use default purple heart thumbnail (skip extraction to be safe/faster)
-      console.log('Using default thumbnail...');
-      // Default thumbnail: Purple heart on dark background
-      let thumbnailUrl: string = PLACEHOLDER_THUMBNAIL;
-      
-      // 2. Upload original video to Supabase Storage (preserves audio)
-      console.log('Uploading video to storage...');
-      // No timeout for upload to allow large files
-      const storageUrl = await uploadVideoToStorage(file, id);
-      
-      if (!storageUrl) {
-        throw new Error('Failed to upload video to storage');
-      }
-      
-      const newVideo: VideoEntry = {
-        id,
-        url: storageUrl, // Use storage URL instead of blob URL
-        thumbnail: thumbnailUrl,
-        title: title,
-        description: `Who's in the video: ${description}`, // Store who's in the video
-        timestamp: timestamp,
-        durationString: "00:00" // Placeholder
+      const newArticle: ArticleEntry = {
+          id: crypto.randomUUID(),
+          link,
+          title: finalTitle,
+          description,
+          timestamp: Date.now(),
+          posted_by: personName
       };
 
-      // 4. Save to database
-      const savedVideo = await insertVideo(newVideo);
-      if (savedVideo) {
-        // Use the saved video with storage URLs
-        setVideos((prev) => [savedVideo, ...prev]);
-        setSelectedVideo(savedVideo);
-        
-        // Clean up blob URL
-        URL.revokeObjectURL(blobUrl);
-        blobUrl = null;
-
-        // Trigger background processing (transcription) via Supabase Edge Function
-        // This runs asynchronously and doesn't block the user
-        console.log('🎬 Starting background transcription via Supabase Edge Function...', {
-          videoId: savedVideo.id,
-          videoUrl: storageUrl.substring(0, 50) + '...'
-        });
-        triggerVideoProcessing(savedVideo.id, storageUrl);
+      const savedArticle = await insertArticle(newArticle);
+      if (savedArticle) {
+          const savedTags = tags.length > 0 ? await setContentTags('articles', savedArticle.id, tags) : null;
+          // Automated screening approves clean submissions; the rest wait for a moderator
+          const status = await requestSafetyScreening('articles', savedArticle.id);
+          if (status === 'approved') {
+              setArticles(prev => [{ ...savedArticle, moderation_status: status, tags: savedTags || undefined }, ...prev]);
+          } else {
+              alert(PENDING_REVIEW_MESSAGE);
+          }
       } else {
-        // If DB save fails, still add locally but show warning
-        console.warn('Failed to save video to database, but added locally');
-        setVideos((prev) => [newVideo, ...prev]);
-        setSelectedVideo(newVideo);
+          throw new Error("Failed to save article to database");
       }
-      
     } catch (error) {
       console.error("Upload failed", error);
-      
-      // Show more helpful error messages
-      if (error instanceof Error) {
-        if (error.message.includes('timeout')) {
-          alert(
-            `⏱️ Upload timeout!\n\n` +
-            `The upload is taking too long. This might be due to:\n` +
-            `- Large file size\n` +
-            `- Slow internet connection\n` +
-            `- Server issues\n\n` +
-            `Please try again with a smaller file or check your connection.`
-          );
-        } else if (error.message.includes('exceeded the maximum allowed size') || error.message.includes('Failed to upload video to storage')) {
-          // Try to extract file size from error or use a default message
-          const fileSizeMatch = error.message.match(/(\d+\.?\d*)\s*MB/);
-          const fileSizeText = fileSizeMatch ? `${fileSizeMatch[1]} MB` : 'your video';
-          
-          alert(
-            `❌ File size too large!\n\n` +
-            `Your video (${fileSizeText}) exceeds the Supabase Storage file size limit.\n\n` +
-            `📋 TO FIX:\n` +
-            `1. Open: https://supabase.com/dashboard/project/dszvvagszjltrssjivmu/storage/settings\n` +
-            `2. Scroll to "Global file size limit"\n` +
-            `3. Increase it to at least 150 MB (or higher)\n` +
-            `4. Click Save\n` +
-            `5. Try uploading again\n\n` +
-            `💡 If you upgraded to Pro, you can set it up to 500 GB!`
-          );
-        } else {
-          alert(`Failed to process: ${error.message}\n\nPlease try again.`);
-        }
-      } else {
-        alert("Failed to process. Please try again.");
-      }
+      alert(`Failed to process: ${error instanceof Error ? error.message : 'unknown error'}\n\nPlease try again.`);
     } finally {
-      if (blobUrl) {
-          URL.revokeObjectURL(blobUrl);
-      }
       setIsProcessing(false);
-      setPendingFile(null);
+    }
+  };
+
+  // Several files picked at once share one batch, so the uploads tray can sum up how it went
+  const handleBatchUpload = async (uploads: { file: File; details: UploadDetails }[]) => {
+    setShowUploadModal(false);
+    setPendingFiles([]);
+    const batchId = crypto.randomUUID();
+    const kind = activeTab === 'images' ? 'image' : 'video';
+    for (const { file, details } of uploads) {
+      await enqueueUpload(kind, file, details, batchId);
     }
   };
 
@@ -322,16 +608,67 @@ const App: React.FC = () => {
       {showWelcome && <WelcomeModal onClose={handleWelcomeClose} />}
       
       {/* Upload Info Modal - Shows before uploading */}
-      {showUploadModal && (
+      {showUploadModal && pendingFiles.length > 1 && activeTab !== 'articles' ? (
+        <BatchUploadModal
+          isOpen={showUploadModal}
+          onClose={handleUploadModalClose}
+          onSubmit={handleBatchUpload}
+          files={pendingFiles}
+          type={activeTab === 'images' ? 'image' : 'video'}
+          defaultPersonName={profile?.displayName}
+        />
+      ) : showUploadModal && (
         <UploadInfoModal
           isOpen={showUploadModal}
           onClose={handleUploadModalClose}
-          onSubmit={(personName, description, link, articleTitle) => handleUpload(pendingFile, personName, description, link, articleTitle)}
-          fileName={pendingFile?.name || 'Article Link'}
+          onSubmit={(personName, description, link, articleTitle, speakers, tags, file) => handleUpload(file || pendingFiles[0] || null, personName, description, link, articleTitle, speakers, tags)}
+          fileName={pendingFiles[0]?.name || 'Article Link'}
+          file={pendingFiles[0]}
           type={activeTab === 'articles' ? 'article' : activeTab === 'images' ? 'image' : 'video'}
+          defaultPersonName={profile?.displayName}
         />
       )}
 
+      {/* Video Recorder - records a message from the camera, then hands it to the upload dialog */}
+      <VideoRecorderModal
+        isOpen={showRecorder}
+        onClose={() => setShowRecorder(false)}
+        onRecorded={handleRecorded}
+      />
+
+      {/* Voice Recorder - records a voice message and sends it to the upload queue */}
+      <VoiceRecorderModal
+        isOpen={showVoiceRecorder}
+        onClose={() => setShowVoiceRecorder(false)}
+        onSubmit={handleVoiceSubmit}
+        defaultPersonName={profile?.displayName}
+      />
+
+      {/* Uploads Tray - progress of queued uploads, which carry on while browsing */}
+      <UploadsTray
+        uploads={uploads}
+        processingJobs={processingJobs}
+        onCancel={cancelUpload}
+        onRetry={retryUpload}
+        onDismiss={dismissUpload}
+      />
+
+      {/* Moderation Queue - moderators review new submissions before they reach the feed */}
+      {showModerationQueue && (
+        <ModerationQueue
+          isOpen={showModerationQueue}
+          onClose={() => setShowModerationQueue(false)}
+          onModerated={handleModerated}
+          transcriptLanguage={transcriptLanguage}
+          onTranscriptLanguageChange={handleTranscriptLanguageChange}
+        />
+      )}
+
+      {/* Sign In Modal */}
+      {showSignInModal && (
+        <SignInModal isOpen={showSignInModal} onClose={() => setShowSignInModal(false)} />
+      )}
+
       {/* Article Preview Modal */}
       {showArticleModal && previewArticle && (
         <ArticleModal
@@ -344,33 +681,48 @@ const App: React.FC = () => {
       
       {/* Header */}
       <header className="border-b border-white/5 bg-[#0f0f10]/80 backdrop-blur-md sticky top-0 z-50">
-        <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
+        <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between gap-4">
           <div className="flex items-center gap-2">
             <div className="bg-purple-500/10 p-2 rounded-lg">
                 <Heart className="w-5 h-5 text-purple-500 fill-current" />
             </div>
-            <span className="text-xl font-bold tracking-tight text-zinc-100">
+            <span className="hidden md:inline text-xl font-bold tracking-tight text-zinc-100">
               Dear Naia
             </span>
           </div>
-          {showNaiasView && (
-            <button
-              onClick={handleAddClick}
-              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-500 hover:bg-purple-600 border border-purple-500/20 transition-colors text-sm font-medium text-white"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add</span>
-            </button>
-          )}
-          {!showNaiasView && (
-            <button
-              onClick={() => setShowNaiasView(true)}
-              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-zinc-800/50 hover:bg-zinc-700/50 border border-white/5 transition-colors text-sm font-medium text-zinc-200 hover:text-white"
-            >
-              <Grid3x3 className="w-4 h-4" />
-              <span>Naia's View</span>
-            </button>
-          )}
+          <SearchBar videos={videos} canSearchByMeaning={profile !== null} onSelectResult={handleSearchResult} />
+          <div className="flex items-center gap-2">
+            <OfflineIndicator isOnline={isOnline} savedCount={offlineIds.size} />
+            {hasRole(profile, 'moderator') && (
+              <button
+                onClick={() => setShowModerationQueue(true)}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-zinc-800/50 hover:bg-zinc-700/50 border border-white/5 transition-colors text-sm font-medium text-zinc-200 hover:text-white"
+                title="Review submissions"
+              >
+                <ShieldCheck className="w-4 h-4" />
+                <span className="hidden sm:inline">Review</span>
+              </button>
+            )}
+            <AccountButton profile={profile} onSignIn={() => setShowSignInModal(true)} onSignOut={signOut} />
+            {showNaiasView && (
+              <button
+                onClick={handleAddClick}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-500 hover:bg-purple-600 border border-purple-500/20 transition-colors text-sm font-medium text-white"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add</span>
+              </button>
+            )}
+            {!showNaiasView && (
+              <button
+                onClick={() => setShowNaiasView(true)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-zinc-800/50 hover:bg-zinc-700/50 border border-white/5 transition-colors text-sm font-medium text-zinc-200 hover:text-white"
+              >
+                <Grid3x3 className="w-4 h-4" />
+                <span>Naia's View</span>
+              </button>
+            )}
+          </div>
         </div>
       </header>
 
@@ -378,7 +730,7 @@ const App: React.FC = () => {
         {showNaiasView ? (
           /* Naia's View - TikTok-like vertical feed */
           <div className="flex-1 w-full relative">
-            <div className="absolute top-4 left-0 right-0 z-20 flex justify-center pointer-events-none">
+            <div className="absolute top-4 left-0 right-0 z-20 flex flex-col items-center gap-2 pointer-events-none">
                 <div className="flex items-center gap-2 bg-black/40 backdrop-blur-md p-1 rounded-full border border-white/10 pointer-events-auto shadow-lg">
                     <button
                         onClick={() => setActiveTab('videos')}
@@ -409,6 +761,18 @@ const App: React.FC = () => {
                         Events
                     </button>
                 </div>
+                <div className="flex items-center gap-2 pointer-events-auto">
+                    {activeTab === 'videos' && (
+                        <VideoSortControls
+                            sortOrder={sortOrder}
+                            onSortOrderChange={setSortOrder}
+                            durationFilter={durationFilter}
+                            onDurationFilterChange={setDurationFilter}
+                            overlay
+                        />
+                    )}
+                    <TagFilter tags={feedTags} selectedTagId={tagFilter} onChange={setTagFilter} overlay />
+                </div>
             </div>
 
             {activeTab === 'videos' ? (
@@ -417,19 +781,28 @@ const App: React.FC = () => {
                         <p>Loading Messages...</p>
                     </div>
                 ) : (
-                    <NaiasView videos={videos} onSelectVideo={setSelectedVideo} />
+                    <NaiasView
+                        videos={naiaVideos}
+                        voiceMessages={naiaVoiceMessages}
+                        onSelectVideo={setSelectedVideo}
+                        transcriptLanguage={transcriptLanguage}
+                        onTranscriptLanguageChange={handleTranscriptLanguageChange}
+                        offlineIds={offlineIds}
+                        favoriteIds={favoriteIds}
+                        onToggleFavorite={handleToggleFavorite}
+                    />
                 )
             ) : activeTab === 'articles' ? (
                 <div className="h-[calc(100vh-4rem)] w-full overflow-y-auto bg-black p-4 pb-20">
-                    {articles.length === 0 ? (
+                    {displayedArticles.length === 0 ? (
                         <div className="h-full flex flex-col items-center justify-center text-zinc-500">
                             <BookOpen className="w-16 h-16 text-zinc-700 mb-4" />
                             <h3 className="text-2xl font-bold text-zinc-400">Articles</h3>
-                            <p className="text-zinc-600 mt-2">No articles to display yet.</p>
+                            <p className="text-zinc-600 mt-2">{tagFilter ? 'None of these articles carry that tag.' : 'No articles to display yet.'}</p>
                         </div>
                     ) : (
                         <div className="max-w-2xl mx-auto space-y-4 pt-16">
-                             {articles.map((article) => (
+                             {displayedArticles.map((article) => (
                                 <ArticleCard 
                                     key={article.id} 
                                     article={article} 
@@ -441,15 +814,15 @@ const App: React.FC = () => {
                 </div>
             ) : activeTab === 'images' ? (
                 <div className="h-[calc(100vh-4rem)] w-full overflow-y-auto bg-black p-4 pb-20">
-                     {images.length === 0 ? (
+                     {naiaImages.length === 0 ? (
                         <div className="h-full flex flex-col items-center justify-center text-zinc-500">
                             <ImageIcon className="w-16 h-16 text-zinc-700 mb-4" />
                             <h3 className="text-2xl font-bold text-zinc-400">Images</h3>
-                            <p className="text-zinc-600 mt-2">No images to display yet.</p>
+                            <p className="text-zinc-600 mt-2">{tagFilter ? 'None of these images carry that tag.' : 'No images to display yet.'}</p>
                         </div>
                      ) : (
                         <div className="max-w-2xl mx-auto columns-1 md:columns-2 gap-4 space-y-4 pt-16">
-                            {images.map((image) => (
+                            {naiaImages.map((image) => (
                                 <div key={image.id} className="relative break-inside-avoid group rounded-xl overflow-hidden bg-zinc-900 border border-zinc-800">
                                     <img 
                                         src={image.url} 
@@ -457,6 +830,20 @@ const App: React.FC = () => {
                                         className="w-full h-auto object-cover"
                                         loading="lazy"
                                     />
+                                    <div className="absolute top-2 right-2 z-10 flex items-center gap-1.5">
+                                        {offlineIds.has(image.id) && (
+                                            <span className="p-1.5 rounded-full bg-black/40 backdrop-blur-md text-emerald-300" title="Available offline">
+                                                <CloudDownload className="w-3.5 h-3.5" />
+                                            </span>
+                                        )}
+                                        <button
+                                            onClick={() => handleToggleFavorite(image.id)}
+                                            className="p-1.5 rounded-full bg-black/40 backdrop-blur-md hover:bg-black/60 transition-colors text-white/90"
+                                            title={favoriteIds.has(image.id) ? 'Remove from favorites' : 'Favorite - always keep on this device'}
+                                        >
+                                            <Heart className={`w-3.5 h-3.5 ${favoriteIds.has(image.id) ? 'fill-pink-500 text-pink-500' : ''}`} />
+                                        </button>
+                                    </div>
                                     <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/0 to-transparent opacity-0 group-hover:opacity-100 transition-opacity p-4 flex flex-col justify-end">
                                         <h3 className="text-white font-medium text-sm line-clamp-1">{image.title}</h3>
                                         <p className="text-zinc-300 text-xs line-clamp-2 mt-1">{image.description}</p>
@@ -471,7 +858,7 @@ const App: React.FC = () => {
                 </div>
             ) : activeTab === 'events' ? (
                 <div className="h-[calc(100vh-4rem)] w-full overflow-y-auto bg-black">
-                    <EventsWall events={events} />
+                    <EventsWall events={displayedEvents} />
                 </div>
             ) : null}
           </div>
@@ -533,7 +920,17 @@ const App: React.FC = () => {
                     {/* Player Section - Only renders if a video is selected */}
                     {selectedVideo && (
                     <div className="order-2 lg:order-1 lg:col-span-2 space-y-8 animate-in fade-in zoom-in-95 duration-300">
-                        <VideoPlayer video={selectedVideo} />
+                        <VideoPlayer
+                            video={selectedVideo}
+                            transcriptLanguage={transcriptLanguage}
+                            onTranscriptLanguageChange={handleTranscriptLanguageChange}
+                            processingJob={processingJobs[selectedVideo.id]}
+                            onRetranscribe={hasRole(profile, 'admin') ? handleRetranscribe : undefined}
+                            seekTo={videoSeek?.videoId === selectedVideo.id ? videoSeek : undefined}
+                            onTagClick={(tag) => setTagFilter(tag.id)}
+                            onSaveTags={canManage(profile, selectedVideo.ownerId) ? handleSaveVideoTags : undefined}
+                            onAcceptSuggestion={canManage(profile, selectedVideo.ownerId) ? handleAcceptSuggestion : undefined}
+                        />
                     </div>
                     )}
 
@@ -543,17 +940,42 @@ const App: React.FC = () => {
                             <div>
                                 <h2 className="text-sm font-medium text-zinc-400 uppercase tracking-wider mb-4 hidden lg:block">Add Memory</h2>
                                 <UploadButton type="video" onUpload={handleFileSelect} isProcessing={isProcessing} multiple={true} />
+                                <div className="mt-3 grid grid-cols-2 gap-3">
+                                    <button
+                                        onClick={handleRecordClick}
+                                        className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl border border-zinc-700 bg-zinc-900/50 text-sm font-medium text-zinc-300 hover:border-zinc-500 hover:bg-zinc-800 hover:text-white transition-colors"
+                                    >
+                                        <Camera className="w-4 h-4" />
+                                        Record a message
+                                    </button>
+                                    <button
+                                        onClick={handleVoiceClick}
+                                        className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl border border-zinc-700 bg-zinc-900/50 text-sm font-medium text-zinc-300 hover:border-zinc-500 hover:bg-zinc-800 hover:text-white transition-colors"
+                                    >
+                                        <Mic className="w-4 h-4" />
+                                        Voice message
+                                    </button>
+                                </div>
                             </div>
                         </div>
                     </div>
 
                     {/* Messages Section */}
                     <div className="order-3 lg:order-3 lg:col-span-3 w-full">
-                        <div className="flex items-center justify-between mb-4 px-1">
+                        <div className="flex flex-wrap items-center justify-between gap-2 mb-4 px-1">
                             <h2 className="text-lg md:text-xl font-semibold text-white">Messages</h2>
-                            <span className="text-xs md:text-sm text-zinc-500">
-                            {isLoading ? 'Loading...' : `${videos.length} Messages`}
-                            </span>
+                            <div className="flex items-center gap-3">
+                                <VideoSortControls
+                                    sortOrder={sortOrder}
+                                    onSortOrderChange={setSortOrder}
+                                    durationFilter={durationFilter}
+                                    onDurationFilterChange={setDurationFilter}
+                                />
+                                <TagFilter tags={feedTags} selectedTagId={tagFilter} onChange={setTagFilter} />
+                                <span className="text-xs md:text-sm text-zinc-500">
+                                {isLoading ? 'Loading...' : displayedVideos.length === videos.length ? `${videos.length} Messages` : `${displayedVideos.length} of ${videos.length} Messages`}
+                                </span>
+                            </div>
                         </div>
                         {isLoading ? (
                         <div className="h-48 w-full border-2 border-dashed border-zinc-800 rounded-xl flex items-center justify-center text-zinc-600">
@@ -561,9 +983,10 @@ const App: React.FC = () => {
                         </div>
                         ) : (
                         <Messages 
-                            videos={videos} 
+                            videos={displayedVideos} 
                             selectedVideoId={selectedVideo?.id || null} 
                             onSelectVideo={setSelectedVideo}
+                            processingJobs={processingJobs}
                         />
                         )}
                     </div>
@@ -580,16 +1003,20 @@ const App: React.FC = () => {
                           />
                       </div>
                       
+                      <div className="order-2 lg:col-span-3 w-full flex justify-end -mb-4">
+                          <TagFilter tags={feedTags} selectedTagId={tagFilter} onChange={setTagFilter} />
+                      </div>
+
                       {/* Articles List */}
-                      {articles.length === 0 ? (
+                      {displayedArticles.length === 0 ? (
                         <div className="order-2 lg:col-span-3 w-full text-center py-20 border-2 border-dashed border-zinc-800/50 rounded-2xl bg-zinc-900/20">
                             <BookOpen className="w-12 h-12 text-zinc-700 mx-auto mb-4" />
-                            <h3 className="text-xl font-medium text-zinc-500">No Articles Yet</h3>
-                            <p className="text-zinc-600 mt-2">Add a link to an article to see it here.</p>
+                            <h3 className="text-xl font-medium text-zinc-500">{tagFilter ? 'Nothing Tagged' : 'No Articles Yet'}</h3>
+                            <p className="text-zinc-600 mt-2">{tagFilter ? 'None of these articles carry that tag.' : 'Add a link to an article to see it here.'}</p>
                         </div>
                       ) : (
                         <div className="order-2 lg:col-span-3 w-full grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                            {articles.map((article) => (
+                            {displayedArticles.map((article) => (
                                 <ArticleCard 
                                     key={article.id} 
                                     article={article} 
@@ -611,16 +1038,20 @@ const App: React.FC = () => {
                           />
                       </div>
                       
+                      <div className="order-2 lg:col-span-3 w-full flex justify-end -mb-4">
+                          <TagFilter tags={feedTags} selectedTagId={tagFilter} onChange={setTagFilter} />
+                      </div>
+
                       {/* Images Grid */}
-                      {images.length === 0 ? (
+                      {displayedImages.length === 0 ? (
                         <div className="order-2 lg:col-span-3 w-full text-center py-20 border-2 border-dashed border-zinc-800/50 rounded-2xl bg-zinc-900/20">
                             <ImageIcon className="w-12 h-12 text-zinc-700 mx-auto mb-4" />
-                            <h3 className="text-xl font-medium text-zinc-500">No Images Yet</h3>
-                            <p className="text-zinc-600 mt-2">Upload photos to see them here.</p>
+                            <h3 className="text-xl font-medium text-zinc-500">{tagFilter ? 'Nothing Tagged' : 'No Images Yet'}</h3>
+                            <p className="text-zinc-600 mt-2">{tagFilter ? 'None of these images carry that tag.' : 'Upload photos to see them here.'}</p>
                         </div>
                       ) : (
                         <div className="order-2 lg:col-span-3 w-full columns-1 md:columns-2 lg:columns-3 gap-4 space-y-4">
-                            {images.map((image) => (
+                            {displayedImages.map((image) => (
                                 <div key={image.id} className="relative break-inside-avoid group rounded-xl overflow-hidden bg-zinc-900 border border-zinc-800">
                                     <img 
                                         src={image.url} 
@@ -642,7 +1073,7 @@ const App: React.FC = () => {
                   </div>
               ) : activeTab === 'events' ? (
                   <div className="w-full">
-                      <Events events={events} onEventsChange={handleEventsChange} />
+                      <Events events={events} onEventsChange={handleEventsChange} profile={profile} />
                   </div>
               ) : null}
           </div>
@@ -0,0 +1,37 @@
+import React from 'react';
+import { LogIn, LogOut, UserRound } from 'lucide-react';
+import { Profile } from '../types';
+
+interface AccountButtonProps {
+  profile: Profile | null; // null when signed out
+  onSignIn: () => void;
+  onSignOut: () => void;
+}
+
+export const AccountButton: React.FC<AccountButtonProps> = ({ profile, onSignIn, onSignOut }) => {
+  if (!profile) {
+    return (
+      <button
+        onClick={onSignIn}
+        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-zinc-800/50 hover:bg-zinc-700/50 border border-white/5 transition-colors text-sm font-medium text-zinc-200 hover:text-white"
+      >
+        <LogIn className="w-4 h-4" />
+        <span className="hidden sm:inline">Sign in</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-lg bg-zinc-800/50 border border-white/5 text-sm text-zinc-200">
+      <UserRound className="w-4 h-4 text-purple-400" />
+      <span className="hidden sm:inline max-w-[10rem] truncate">{profile.displayName}</span>
+      <button
+        onClick={onSignOut}
+        className="p-1.5 rounded-md text-zinc-400 hover:text-white hover:bg-white/5 transition-colors"
+        title="Sign out"
+      >
+        <LogOut className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -1,32 +1,43 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, Plus, Trash2, Image as ImageIcon, Video, Loader2, ChevronLeft, ChevronRight } from 'lucide-react';
-import { EventEntry, EventMediaEntry } from '../types';
+import { EventEntry, EventMediaEntry, TagDraft } from '../types';
 import { 
   insertEventMedia, 
   uploadEventMediaToStorage,
+  triggerVideoProcessing,
   deleteEventMedia,
   updateEvent
 } from '../services/supabaseService';
+import { setContentTags } from '../services/tagService';
+import { TagInput } from './TagInput';
 import { PLACEHOLDER_THUMBNAIL } from '../utils/constants';
+import { describeUploadError } from '../utils/uploadErrors';
 
 interface AddEventMediaModalProps {
   isOpen: boolean;
   onClose: () => void;
   event: EventEntry;
   onMediaAdded: () => void;
+  defaultUploaderName?: string; // Signed-in user's profile name
+  canUpload?: boolean; // Contributors can add media, everyone else just browses it
+  canManageMedia?: (media: EventMediaEntry) => boolean; // Whether the delete button is shown
 }
 
 export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
   isOpen,
   onClose,
   event,
-  onMediaAdded
+  onMediaAdded,
+  defaultUploaderName = '',
+  canUpload = false,
+  canManageMedia
 }) => {
   const [mediaFiles, setMediaFiles] = useState<Array<{ file: File; type: 'video' | 'image'; preview?: string }>>([]);
   const [existingMedia, setExistingMedia] = useState<EventMediaEntry[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
-  const [uploaderName, setUploaderName] = useState('Henry Moses');
+  const [uploaderName, setUploaderName] = useState(defaultUploaderName);
+  const [mediaTags, setMediaTags] = useState<TagDraft[]>([]); // Applied to every new file
   const [currentMediaIndex, setCurrentMediaIndex] = useState(0);
   const carouselRef = useRef<HTMLDivElement>(null);
   const isScrollingRef = useRef(false);
@@ -37,7 +48,8 @@ export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
       setExistingMedia(event.media || []);
       setMediaFiles([]);
       setUploadProgress({});
-      setUploaderName('Henry Moses'); // Default name
+      setUploaderName(defaultUploaderName);
+      setMediaTags([]);
       setCurrentMediaIndex(0); // Reset carousel to first item
       isScrollingRef.current = false;
       
@@ -96,7 +108,7 @@ export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>, type: 'video' | 'image') => {
-    const files = Array.from(e.target.files || []);
+    const files = Array.from<File>(e.target.files || []);
     files.forEach(file => {
       const preview = type === 'image' ? URL.createObjectURL(file) : undefined;
       setMediaFiles(prev => [...prev, { file, type, preview }]);
@@ -130,6 +142,8 @@ export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
 
     try {
       // Upload new media files
+      const failures: string[] = [];
+      let waitingForReview = 0; // New photos and videos wait for a moderator
       for (let i = 0; i < mediaFiles.length; i++) {
         const mediaItem = mediaFiles[i];
         const mediaId = crypto.randomUUID();
@@ -139,16 +153,18 @@ export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
 
         try {
           // Upload the file
-          const mediaUrl = await uploadEventMediaToStorage(
+          const upload = await uploadEventMediaToStorage(
             mediaItem.file,
             event.id,
             mediaId,
-            mediaItem.type
+            mediaItem.type,
+            { onProgress: progress => setUploadProgress(prev => ({ ...prev, [progressKey]: progress })) }
           );
 
-          if (!mediaUrl) {
-            throw new Error(`Failed to upload ${mediaItem.type}`);
+          if ('error' in upload) {
+            throw new Error(describeUploadError(upload.error, upload.message));
           }
+          const mediaUrl = upload.url;
 
           // For videos, use placeholder thumbnail
           let thumbnailUrl: string | undefined;
@@ -163,11 +179,20 @@ export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
             media_url: mediaUrl,
             thumbnail: thumbnailUrl,
             title: mediaItem.file.name,
-            uploaded_by: uploaderName.trim() || 'Henry Moses',
+            uploaded_by: uploaderName.trim(),
           });
 
           if (savedMedia) {
+            if (savedMedia.moderation_status !== 'approved') waitingForReview++;
+            if (mediaTags.length > 0) {
+              savedMedia.tags = await setContentTags('event_media', savedMedia.id, mediaTags) || undefined;
+            }
             setExistingMedia(prev => [...prev, savedMedia]);
+
+            // Transcribe event videos in the background so they get captions
+            if (savedMedia.media_type === 'video') {
+              triggerVideoProcessing(savedMedia.id, 'event_media');
+            }
           }
 
           setUploadProgress(prev => {
@@ -177,6 +202,7 @@ export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
           });
         } catch (error) {
           console.error(`Error uploading ${mediaItem.type}:`, error);
+          failures.push(`${mediaItem.file.name} - ${error instanceof Error ? error.message : 'upload failed'}`);
           setUploadProgress(prev => {
             const next = { ...prev };
             delete next[progressKey];
@@ -185,6 +211,13 @@ export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
         }
       }
 
+      if (failures.length > 0) {
+        alert(`Couldn't upload ${failures.length} file(s):\n\n${failures.join('\n')}`);
+      }
+      if (waitingForReview > 0) {
+        alert(`${waitingForReview} file(s) saved! They will appear in the event once a moderator has checked them.`);
+      }
+
       // Clean up preview URLs
       mediaFiles.forEach(item => {
         if (item.preview) {
@@ -194,7 +227,8 @@ export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
 
       // Reset and close
       setMediaFiles([]);
-      setUploaderName('Henry Moses');
+      setUploaderName(defaultUploaderName);
+      setMediaTags([]);
       setUploadProgress({});
       
       // Close modal first
@@ -350,15 +384,17 @@ export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
                         </div>
                       </div>
                     )}
-                    <button
-                      type="button"
-                      onClick={() => removeExistingMedia(media.id)}
-                      className="absolute top-2 right-2 p-2 bg-red-500/90 hover:bg-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity backdrop-blur-sm"
-                      disabled={isUploading}
-                      aria-label="Delete media"
-                    >
-                      <Trash2 className="w-4 h-4 text-white" />
-                    </button>
+                    {canManageMedia?.(media) && (
+                      <button
+                        type="button"
+                        onClick={() => removeExistingMedia(media.id)}
+                        className="absolute top-2 right-2 p-2 bg-red-500/90 hover:bg-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity backdrop-blur-sm"
+                        disabled={isUploading}
+                        aria-label="Delete media"
+                      >
+                        <Trash2 className="w-4 h-4 text-white" />
+                      </button>
+                    )}
                     {media.uploaded_by && (
                       <div className="absolute bottom-2 left-2 px-2 py-1 bg-black/60 backdrop-blur-sm rounded text-xs text-white">
                         From {media.uploaded_by}
@@ -390,102 +426,116 @@ export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
           </div>
         )}
 
-        {/* Uploader Name */}
-        <div className="mb-4 sm:mb-6">
-          <label htmlFor="uploaderName" className="block text-sm font-medium text-zinc-300 mb-2">
-            Your Name *
-          </label>
-          <input
-            id="uploaderName"
-            type="text"
-            value={uploaderName}
-            onChange={(e) => setUploaderName(e.target.value)}
-            placeholder="Enter your name"
-            className="w-full px-3 sm:px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500 text-sm sm:text-base"
-            required
-            disabled={isUploading}
-          />
-          <p className="mt-1 text-xs text-zinc-500">
-            This name will be shown with your uploads
-          </p>
-        </div>
-
-        {/* Add Media */}
-        <div className="mb-4 sm:mb-6">
-          <label className="block text-sm font-medium text-zinc-300 mb-2 sm:mb-3">
-            Add New Media
-          </label>
-          <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 mb-3">
-            <label className="flex-1 cursor-pointer">
-              <input
-                type="file"
-                accept="image/*"
-                onChange={(e) => handleFileSelect(e, 'image')}
-                className="hidden"
-                disabled={isUploading}
-                multiple
-              />
-              <div className="flex items-center justify-center gap-2 px-3 sm:px-4 py-2.5 sm:py-3 bg-zinc-800 border border-zinc-700 rounded-lg hover:bg-zinc-700 transition-colors text-zinc-300 text-sm sm:text-base">
-                <ImageIcon className="w-4 h-4" />
-                <span>Add Images</span>
-              </div>
-            </label>
-            <label className="flex-1 cursor-pointer">
+        {canUpload && (
+          <>
+            {/* Uploader Name */}
+            <div className="mb-4 sm:mb-6">
+              <label htmlFor="uploaderName" className="block text-sm font-medium text-zinc-300 mb-2">
+                Your Name *
+              </label>
               <input
-                type="file"
-                accept="video/*"
-                onChange={(e) => handleFileSelect(e, 'video')}
-                className="hidden"
+                id="uploaderName"
+                type="text"
+                value={uploaderName}
+                onChange={(e) => setUploaderName(e.target.value)}
+                placeholder="Enter your name"
+                className="w-full px-3 sm:px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500 text-sm sm:text-base"
+                required
                 disabled={isUploading}
-                multiple
               />
-              <div className="flex items-center justify-center gap-2 px-3 sm:px-4 py-2.5 sm:py-3 bg-zinc-800 border border-zinc-700 rounded-lg hover:bg-zinc-700 transition-colors text-zinc-300 text-sm sm:text-base">
-                <Video className="w-4 h-4" />
-                <span>Add Videos</span>
+              <p className="mt-1 text-xs text-zinc-500">
+                This name will be shown with your uploads
+              </p>
+            </div>
+
+            {/* Tags for the new files */}
+            {mediaFiles.length > 0 && (
+              <div className="mb-4 sm:mb-6">
+                <label className="block text-sm font-medium text-zinc-300 mb-2">
+                  Who's in these? <span className="text-zinc-500 font-normal">(optional)</span>
+                </label>
+                <TagInput value={mediaTags} onChange={setMediaTags} disabled={isUploading} />
               </div>
-            </label>
-          </div>
+            )}
 
-          {/* Preview new media */}
-          {mediaFiles.length > 0 && (
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 sm:gap-3">
-              {mediaFiles.map((item, index) => (
-                <div key={index} className="relative group rounded-lg overflow-hidden bg-zinc-800 border border-zinc-700">
-                  {item.type === 'image' && item.preview ? (
-                    <img
-                      src={item.preview}
-                      alt="Preview"
-                      className="w-full h-32 object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-32 bg-zinc-900 flex items-center justify-center">
-                      <Video className="w-8 h-8 text-zinc-600" />
-                      <span className="ml-2 text-xs text-zinc-500 truncate max-w-[100px]">
-                        {item.file.name}
-                      </span>
-                    </div>
-                  )}
-                  <button
-                    type="button"
-                    onClick={() => removeMediaFile(index)}
-                    className="absolute top-2 right-2 p-1.5 bg-red-500/80 hover:bg-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+            {/* Add Media */}
+            <div className="mb-4 sm:mb-6">
+              <label className="block text-sm font-medium text-zinc-300 mb-2 sm:mb-3">
+                Add New Media
+              </label>
+              <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 mb-3">
+                <label className="flex-1 cursor-pointer">
+                  <input
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => handleFileSelect(e, 'image')}
+                    className="hidden"
                     disabled={isUploading}
-                  >
-                    <Trash2 className="w-3 h-3 text-white" />
-                  </button>
-                  {uploadProgress[`${index}-${item.file.name}`] !== undefined && (
-                    <div className="absolute bottom-0 left-0 right-0 h-1 bg-zinc-700">
-                      <div
-                        className="h-full bg-purple-500 transition-all"
-                        style={{ width: `${uploadProgress[`${index}-${item.file.name}`]}%` }}
-                      />
+                    multiple
+                  />
+                  <div className="flex items-center justify-center gap-2 px-3 sm:px-4 py-2.5 sm:py-3 bg-zinc-800 border border-zinc-700 rounded-lg hover:bg-zinc-700 transition-colors text-zinc-300 text-sm sm:text-base">
+                    <ImageIcon className="w-4 h-4" />
+                    <span>Add Images</span>
+                  </div>
+                </label>
+                <label className="flex-1 cursor-pointer">
+                  <input
+                    type="file"
+                    accept="video/*"
+                    onChange={(e) => handleFileSelect(e, 'video')}
+                    className="hidden"
+                    disabled={isUploading}
+                    multiple
+                  />
+                  <div className="flex items-center justify-center gap-2 px-3 sm:px-4 py-2.5 sm:py-3 bg-zinc-800 border border-zinc-700 rounded-lg hover:bg-zinc-700 transition-colors text-zinc-300 text-sm sm:text-base">
+                    <Video className="w-4 h-4" />
+                    <span>Add Videos</span>
+                  </div>
+                </label>
+              </div>
+
+              {/* Preview new media */}
+              {mediaFiles.length > 0 && (
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 sm:gap-3">
+                  {mediaFiles.map((item, index) => (
+                    <div key={index} className="relative group rounded-lg overflow-hidden bg-zinc-800 border border-zinc-700">
+                      {item.type === 'image' && item.preview ? (
+                        <img
+                          src={item.preview}
+                          alt="Preview"
+                          className="w-full h-32 object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-32 bg-zinc-900 flex items-center justify-center">
+                          <Video className="w-8 h-8 text-zinc-600" />
+                          <span className="ml-2 text-xs text-zinc-500 truncate max-w-[100px]">
+                            {item.file.name}
+                          </span>
+                        </div>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => removeMediaFile(index)}
+                        className="absolute top-2 right-2 p-1.5 bg-red-500/80 hover:bg-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                        disabled={isUploading}
+                      >
+                        <Trash2 className="w-3 h-3 text-white" />
+                      </button>
+                      {uploadProgress[`${index}-${item.file.name}`] !== undefined && (
+                        <div className="absolute bottom-0 left-0 right-0 h-1 bg-zinc-700">
+                          <div
+                            className="h-full bg-purple-500 transition-all"
+                            style={{ width: `${uploadProgress[`${index}-${item.file.name}`]}%` }}
+                          />
+                        </div>
+                      )}
                     </div>
-                  )}
+                  ))}
                 </div>
-              ))}
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
 
         {/* Actions */}
         <div className="pt-4 flex flex-col sm:flex-row gap-3">
@@ -497,24 +547,26 @@ export const AddEventMediaModal: React.FC<AddEventMediaModalProps> = ({
           >
             {mediaFiles.length === 0 ? 'Close' : 'Cancel'}
           </button>
-          <button
-            type="button"
-            onClick={handleUpload}
-            disabled={mediaFiles.length === 0 || isUploading || !uploaderName.trim()}
-            className="flex-1 px-4 py-2.5 bg-purple-500 hover:bg-purple-600 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed text-white rounded-lg transition-colors font-medium flex items-center justify-center gap-2 text-sm sm:text-base"
-          >
-            {isUploading ? (
-              <>
-                <Loader2 className="w-4 h-4 animate-spin" />
-                Uploading...
-              </>
-            ) : (
-              <>
-                <Plus className="w-4 h-4" />
-                Add {mediaFiles.length > 0 ? `${mediaFiles.length} ` : ''}Media
-              </>
-            )}
-          </button>
+          {canUpload && (
+            <button
+              type="button"
+              onClick={handleUpload}
+              disabled={mediaFiles.length === 0 || isUploading || !uploaderName.trim()}
+              className="flex-1 px-4 py-2.5 bg-purple-500 hover:bg-purple-600 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed text-white rounded-lg transition-colors font-medium flex items-center justify-center gap-2 text-sm sm:text-base"
+            >
+              {isUploading ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Uploading...
+                </>
+              ) : (
+                <>
+                  <Plus className="w-4 h-4" />
+                  Add {mediaFiles.length > 0 ? `${mediaFiles.length} ` : ''}Media
+                </>
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Plus, Video, Upload } from 'lucide-react';
+import { TagDraft, UploadDetails, UploadKind } from '../types';
+import { TagInput } from './TagInput';
+
+interface BatchUploadModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (uploads: { file: File; details: UploadDetails }[]) => void;
+  files: File[];
+  type: UploadKind;
+  defaultPersonName?: string; // Signed-in user's profile name
+}
+
+// One row in the staging list
+interface StagedFile {
+  key: string;
+  file: File;
+  title: string; // Empty uses "<name>'s Message"
+  description: string; // Empty uses the shared description
+}
+
+const stageFiles = (files: File[]): StagedFile[] =>
+  files.map(file => ({ key: crypto.randomUUID(), file, title: '', description: '' }));
+
+const inputClass = 'w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500';
+
+const StagedFilePreview: React.FC<{ file: File }> = ({ file }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file.type.startsWith('image/')) return;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return (
+    <div className="w-12 h-12 rounded-lg bg-zinc-800 overflow-hidden flex items-center justify-center shrink-0">
+      {previewUrl ? (
+        <img src={previewUrl} alt="" className="w-full h-full object-cover" />
+      ) : (
+        <Video className="w-5 h-5 text-zinc-500" />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Details for several videos or images picked at once: the uploader's name, a description and
+ * tags shared by all of them, and an optional title and description per file
+ */
+export const BatchUploadModal: React.FC<BatchUploadModalProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  files,
+  type,
+  defaultPersonName = ''
+}) => {
+  const [staged, setStaged] = useState<StagedFile[]>(() => stageFiles(files));
+  const [personName, setPersonName] = useState(defaultPersonName);
+  const [sharedDescription, setSharedDescription] = useState('');
+  const [tags, setTags] = useState<TagDraft[]>([]);
+  const addFilesRef = useRef<HTMLInputElement>(null);
+
+  const updateStaged = (key: string, changes: Partial<StagedFile>) => {
+    setStaged(prev => prev.map(entry => (entry.key === key ? { ...entry, ...changes } : entry)));
+  };
+
+  const removeStaged = (key: string) => {
+    setStaged(prev => prev.filter(entry => entry.key !== key));
+  };
+
+  const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      const added = stageFiles(Array.from(e.target.files));
+      setStaged(prev => [...prev, ...added]);
+    }
+    e.target.value = '';
+  };
+
+  // Videos need to say who's in them - either per file or through the shared description
+  const isMissingDescription = (entry: StagedFile) =>
+    type === 'video' && !entry.description.trim() && !sharedDescription.trim();
+  const canSubmit = personName.trim() && staged.length > 0 && !staged.some(isMissingDescription);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit(staged.map(entry => ({
+      file: entry.file,
+      details: {
+        personName: personName.trim(),
+        title: entry.title.trim() || undefined,
+        description: entry.description.trim() || sharedDescription.trim(),
+        speakers: [],
+        tags,
+      },
+    })));
+  };
+
+  if (!isOpen) return null;
+
+  const noun = type === 'video' ? 'video' : 'image';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-zinc-900 rounded-2xl border border-zinc-700 p-6 md:p-8 max-w-2xl w-full mx-4 shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold text-zinc-100">
+            Tell us about {staged.length === 1 ? `this ${noun}` : `these ${staged.length} ${noun}s`}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-zinc-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="batchPersonName" className="block text-sm font-medium text-zinc-300 mb-2">
+                What's your name? *
+              </label>
+              <input
+                id="batchPersonName"
+                type="text"
+                value={personName}
+                onChange={(e) => setPersonName(e.target.value)}
+                placeholder="Enter your name"
+                className={inputClass}
+                required
+                autoFocus
+              />
+            </div>
+            <div>
+              <label htmlFor="batchDescription" className="block text-sm font-medium text-zinc-300 mb-2">
+                {type === 'video' ? "Who's in these videos?" : 'Description for all'}
+              </label>
+              <input
+                id="batchDescription"
+                type="text"
+                value={sharedDescription}
+                onChange={(e) => setSharedDescription(e.target.value)}
+                placeholder={type === 'video' ? 'e.g., Me and my family' : 'e.g., Family vacation'}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-zinc-300 mb-2">
+              Tags for all
+              <span className="text-zinc-500 font-normal ml-1">(optional)</span>
+            </label>
+            <TagInput value={tags} onChange={setTags} />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-zinc-300">Each {noun}</span>
+              <button
+                type="button"
+                onClick={() => addFilesRef.current?.click()}
+                className="flex items-center gap-1 text-xs text-purple-400 hover:text-purple-300 transition-colors"
+              >
+                <Plus className="w-3 h-3" />
+                Add more
+              </button>
+              <input
+                ref={addFilesRef}
+                type="file"
+                accept={type === 'video' ? 'video/*' : 'image/*'}
+                multiple
+                onChange={handleAddFiles}
+                className="hidden"
+              />
+            </div>
+
+            <ul className="space-y-3">
+              {staged.map(entry => (
+                <li key={entry.key} className="flex gap-3 p-3 rounded-xl bg-zinc-800/40 border border-zinc-700/50">
+                  <StagedFilePreview file={entry.file} />
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="flex-1 truncate text-xs text-zinc-400" title={entry.file.name}>
+                        {entry.file.name} · {(entry.file.size / 1024 / 1024).toFixed(1)} MB
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => removeStaged(entry.key)}
+                        className="p-1 text-zinc-500 hover:text-zinc-300 transition-colors"
+                        aria-label={`Remove ${entry.file.name}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <input
+                      type="text"
+                      value={entry.title}
+                      onChange={(e) => updateStaged(entry.key, { title: e.target.value })}
+                      placeholder={`Title (default: ${personName.trim() || 'Your Name'}'s Message)`}
+                      className={inputClass}
+                    />
+                    <input
+                      type="text"
+                      value={entry.description}
+                      onChange={(e) => updateStaged(entry.key, { description: e.target.value })}
+                      placeholder={sharedDescription.trim() || (type === 'video' ? "Who's in this video? *" : 'Description')}
+                      className={`${inputClass} ${isMissingDescription(entry) ? 'border-amber-500/50' : ''}`}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="bg-zinc-800/50 p-3 rounded-lg border border-zinc-700/50">
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              They upload a few at a time while you keep browsing - the uploads tray shows each one's progress and sums up
+              how the batch went.{type === 'video' && ' Speaker names can be added per video by uploading it on its own.'}
+            </p>
+          </div>
+
+          <div className="pt-2 flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-purple-500 hover:bg-purple-600 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed text-white rounded-lg transition-colors font-medium"
+            >
+              <Upload className="w-4 h-4" />
+              Upload {staged.length} {noun}{staged.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,27 +1,35 @@
 import React, { useState, useEffect } from 'react';
 import { X, Plus, Trash2, Image as ImageIcon, Video, Calendar, Loader2 } from 'lucide-react';
-import { EventEntry, EventMediaEntry } from '../types';
+import { EventEntry, EventMediaEntry, TagDraft } from '../types';
 import { 
   insertEvent, 
   updateEvent, 
   insertEventMedia, 
   uploadEventMediaToStorage,
+  triggerVideoProcessing,
   deleteEventMedia
 } from '../services/supabaseService';
+import { setContentTags } from '../services/tagService';
+import { TagInput } from './TagInput';
 import { PLACEHOLDER_THUMBNAIL } from '../utils/constants';
+import { describeUploadError } from '../utils/uploadErrors';
 
 interface EventModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (event: EventEntry) => void;
   event?: EventEntry | null; // If provided, we're editing; otherwise creating
+  defaultUploaderName?: string; // Signed-in user's profile name
+  canManageMedia?: (media: EventMediaEntry) => boolean; // Whether the delete button is shown
 }
 
 export const EventModal: React.FC<EventModalProps> = ({
   isOpen,
   onClose,
   onSave,
-  event
+  event,
+  defaultUploaderName = '',
+  canManageMedia
 }) => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
@@ -30,7 +38,8 @@ export const EventModal: React.FC<EventModalProps> = ({
   const [existingMedia, setExistingMedia] = useState<EventMediaEntry[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
-  const [uploaderName, setUploaderName] = useState('Henry Moses');
+  const [uploaderName, setUploaderName] = useState(defaultUploaderName);
+  const [mediaTags, setMediaTags] = useState<TagDraft[]>([]); // Applied to every new file
 
   // Initialize form when event changes
   useEffect(() => {
@@ -47,11 +56,12 @@ export const EventModal: React.FC<EventModalProps> = ({
     }
     setMediaFiles([]);
     setUploadProgress({});
-    setUploaderName('Henry Moses'); // Default name
+    setUploaderName(defaultUploaderName);
+    setMediaTags([]);
   }, [event, isOpen]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>, type: 'video' | 'image') => {
-    const files = Array.from(e.target.files || []);
+    const files = Array.from<File>(e.target.files || []);
     files.forEach(file => {
       const preview = type === 'image' ? URL.createObjectURL(file) : undefined;
       setMediaFiles(prev => [...prev, { file, type, preview }]);
@@ -106,7 +116,11 @@ export const EventModal: React.FC<EventModalProps> = ({
         savedEvent = newEvent;
       }
 
+      // New and edited events (and their photos and videos) wait for a moderator
+      let needsReview = savedEvent.moderation_status !== 'approved';
+
       // Upload new media files
+      const failures: string[] = [];
       for (let i = 0; i < mediaFiles.length; i++) {
         const mediaItem = mediaFiles[i];
         const mediaId = crypto.randomUUID();
@@ -116,16 +130,18 @@ export const EventModal: React.FC<EventModalProps> = ({
 
         try {
           // Upload the file
-          const mediaUrl = await uploadEventMediaToStorage(
+          const upload = await uploadEventMediaToStorage(
             mediaItem.file,
             savedEvent.id,
             mediaId,
-            mediaItem.type
+            mediaItem.type,
+            { onProgress: progress => setUploadProgress(prev => ({ ...prev, [progressKey]: progress })) }
           );
 
-          if (!mediaUrl) {
-            throw new Error(`Failed to upload ${mediaItem.type}`);
+          if ('error' in upload) {
+            throw new Error(describeUploadError(upload.error, upload.message));
           }
+          const mediaUrl = upload.url;
 
           // For videos, use placeholder thumbnail (or extract one if needed)
           let thumbnailUrl: string | undefined;
@@ -140,11 +156,20 @@ export const EventModal: React.FC<EventModalProps> = ({
             media_url: mediaUrl,
             thumbnail: thumbnailUrl,
             title: mediaItem.file.name,
-            uploaded_by: uploaderName.trim() || 'Henry Moses',
+            uploaded_by: uploaderName.trim(),
           });
 
           if (savedMedia) {
+            if (savedMedia.moderation_status !== 'approved') needsReview = true;
+            if (mediaTags.length > 0) {
+              savedMedia.tags = await setContentTags('event_media', savedMedia.id, mediaTags) || undefined;
+            }
             setExistingMedia(prev => [...prev, savedMedia]);
+
+            // Transcribe event videos in the background so they get captions
+            if (savedMedia.media_type === 'video') {
+              triggerVideoProcessing(savedMedia.id, 'event_media');
+            }
           }
 
           setUploadProgress(prev => {
@@ -154,6 +179,7 @@ export const EventModal: React.FC<EventModalProps> = ({
           });
         } catch (error) {
           console.error(`Error uploading ${mediaItem.type}:`, error);
+          failures.push(`${mediaItem.file.name} - ${error instanceof Error ? error.message : 'upload failed'}`);
           setUploadProgress(prev => {
             const next = { ...prev };
             delete next[progressKey];
@@ -162,6 +188,13 @@ export const EventModal: React.FC<EventModalProps> = ({
         }
       }
 
+      if (failures.length > 0) {
+        alert(`Couldn't upload ${failures.length} file(s):\n\n${failures.join('\n')}`);
+      }
+      if (needsReview) {
+        alert('Saved! It will appear in the events once a moderator has checked it.');
+      }
+
       // Clean up preview URLs
       mediaFiles.forEach(item => {
         if (item.preview) {
@@ -179,7 +212,8 @@ export const EventModal: React.FC<EventModalProps> = ({
       setDate('');
       setMediaFiles([]);
       setExistingMedia([]);
-      setUploaderName('Henry Moses');
+      setUploaderName(defaultUploaderName);
+      setMediaTags([]);
       setUploadProgress({});
       
       // Close modal first
@@ -298,14 +332,16 @@ export const EventModal: React.FC<EventModalProps> = ({
                         </div>
                       </div>
                     )}
-                    <button
-                      type="button"
-                      onClick={() => removeExistingMedia(media.id)}
-                      className="absolute top-2 right-2 p-1.5 bg-red-500/80 hover:bg-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                      disabled={isSaving}
-                    >
-                      <Trash2 className="w-4 h-4 text-white" />
-                    </button>
+                    {canManageMedia?.(media) && (
+                      <button
+                        type="button"
+                        onClick={() => removeExistingMedia(media.id)}
+                        className="absolute top-2 right-2 p-1.5 bg-red-500/80 hover:bg-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                        disabled={isSaving}
+                      >
+                        <Trash2 className="w-4 h-4 text-white" />
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -334,6 +370,16 @@ export const EventModal: React.FC<EventModalProps> = ({
             </div>
           )}
 
+          {/* Tags for the new files */}
+          {mediaFiles.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-zinc-300 mb-2">
+                Who's in these? <span className="text-zinc-500 font-normal">(optional)</span>
+              </label>
+              <TagInput value={mediaTags} onChange={setMediaTags} disabled={isSaving} />
+            </div>
+          )}
+
           {/* Add Media */}
           <div>
             <label className="block text-sm font-medium text-zinc-300 mb-2">
@@ -1,16 +1,21 @@
 import React, { useState } from 'react';
 import { Calendar, Image as ImageIcon, Video, Edit2, Trash2 } from 'lucide-react';
-import { EventEntry } from '../types';
+import { EventEntry, EventMediaEntry, Profile } from '../types';
 import { EventModal } from './EventModal';
 import { AddEventMediaModal } from './AddEventMediaModal';
 import { deleteEvent, fetchEvents } from '../services/supabaseService';
+import { canContribute, canManage } from '../utils/permissions';
 
 interface EventsProps {
   events: EventEntry[];
   onEventsChange: () => void;
+  profile: Profile | null; // Signed-in user - decides which edit/delete controls are shown
 }
 
-export const Events: React.FC<EventsProps> = ({ events, onEventsChange }) => {
+export const Events: React.FC<EventsProps> = ({ events, onEventsChange, profile }) => {
+  const uploaderName = profile?.displayName;
+  const canManageMedia = (media: EventMediaEntry) => canManage(profile, media.owner_id);
+
   const [showModal, setShowModal] = useState(false);
   const [showMediaModal, setShowMediaModal] = useState(false);
   const [editingEvent, setEditingEvent] = useState<EventEntry | null>(null);
@@ -80,12 +85,14 @@ export const Events: React.FC<EventsProps> = ({ events, onEventsChange }) => {
           <Calendar className="w-16 h-16 text-zinc-700 mx-auto mb-4" />
           <h3 className="text-xl font-medium text-zinc-500 mb-2">No Events Yet</h3>
           <p className="text-zinc-600 mb-6">Create your first event to get started!</p>
-          <button
-            onClick={handleCreateEvent}
-            className="inline-flex items-center gap-2 px-6 py-3 bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors font-medium"
-          >
-            Create Your First Event
-          </button>
+          {canContribute(profile) && (
+            <button
+              onClick={handleCreateEvent}
+              className="inline-flex items-center gap-2 px-6 py-3 bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors font-medium"
+            >
+              Create Your First Event
+            </button>
+          )}
         </div>
 
         {showModal && (
@@ -97,6 +104,8 @@ export const Events: React.FC<EventsProps> = ({ events, onEventsChange }) => {
             }}
             onSave={handleSaveEvent}
             event={editingEvent}
+            defaultUploaderName={uploaderName}
+            canManageMedia={canManageMedia}
           />
         )}
       </div>
@@ -170,23 +179,25 @@ export const Events: React.FC<EventsProps> = ({ events, onEventsChange }) => {
                 <h3 className="text-lg font-semibold text-white line-clamp-2 flex-1">
                   {event.title}
                 </h3>
-                <div className="flex gap-1 ml-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <button
-                    onClick={(e) => handleEditEvent(event, e)}
-                    className="p-1.5 hover:bg-zinc-800 rounded-lg transition-colors"
-                    title="Edit event"
-                  >
-                    <Edit2 className="w-4 h-4 text-zinc-400 hover:text-white" />
-                  </button>
-                  <button
-                    onClick={(e) => handleDeleteEvent(event.id, e)}
-                    disabled={deletingEventId === event.id}
-                    className="p-1.5 hover:bg-red-500/20 rounded-lg transition-colors"
-                    title="Delete event"
-                  >
-                    <Trash2 className="w-4 h-4 text-zinc-400 hover:text-red-400" />
-                  </button>
-                </div>
+                {canManage(profile, event.owner_id) && (
+                  <div className="flex gap-1 ml-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => handleEditEvent(event, e)}
+                      className="p-1.5 hover:bg-zinc-800 rounded-lg transition-colors"
+                      title="Edit event"
+                    >
+                      <Edit2 className="w-4 h-4 text-zinc-400 hover:text-white" />
+                    </button>
+                    <button
+                      onClick={(e) => handleDeleteEvent(event.id, e)}
+                      disabled={deletingEventId === event.id}
+                      className="p-1.5 hover:bg-red-500/20 rounded-lg transition-colors"
+                      title="Delete event"
+                    >
+                      <Trash2 className="w-4 h-4 text-zinc-400 hover:text-red-400" />
+                    </button>
+                  </div>
+                )}
               </div>
 
               <div className="flex items-center gap-2 text-sm text-zinc-400 mb-3">
@@ -231,6 +242,8 @@ export const Events: React.FC<EventsProps> = ({ events, onEventsChange }) => {
           }}
           onSave={handleSaveEvent}
           event={editingEvent}
+          defaultUploaderName={uploaderName}
+          canManageMedia={canManageMedia}
         />
       )}
 
@@ -243,6 +256,9 @@ export const Events: React.FC<EventsProps> = ({ events, onEventsChange }) => {
           }}
           event={selectedEvent}
           onMediaAdded={handleSaveEvent}
+          defaultUploaderName={uploaderName}
+          canUpload={canContribute(profile)}
+          canManageMedia={canManageMedia}
         />
       )}
     </div>
@@ -1,6 +1,7 @@
 import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { EventEntry, EventMediaEntry } from '../types';
 import { Video, Calendar, MessageSquare, Info, Volume2, VolumeX } from 'lucide-react';
+import { setVideoSource, releaseVideoSource } from '../utils/hlsPlayer';
 
 interface EventsWallProps {
   events: EventEntry[];
@@ -81,7 +82,7 @@ export const EventsWall: React.FC<EventsWallProps> = ({ events }) => {
           const videoElement = videoRefs.current.get(firstMedia.id);
           if (videoElement && !videoElement.src) {
             videoElement.preload = 'auto';
-            videoElement.src = firstMedia.media_url;
+            setVideoSource(videoElement, firstMedia.media_url, firstMedia.hls_url);
             setLoadedVideos(prev => new Set(prev).add(firstMedia.id));
             
             const playWhenReady = () => {
@@ -113,7 +114,7 @@ export const EventsWall: React.FC<EventsWallProps> = ({ events }) => {
             const nextVideoElement = videoRefs.current.get(nextMedia.id);
             if (nextVideoElement && !nextVideoElement.src) {
               nextVideoElement.preload = connectionQuality === 'fast' ? 'auto' : 'metadata';
-              nextVideoElement.src = nextMedia.media_url;
+              setVideoSource(nextVideoElement, nextMedia.media_url, nextMedia.hls_url);
               setLoadedVideos(prev => new Set(prev).add(nextMedia.id));
             }
           } else {
@@ -167,7 +168,7 @@ export const EventsWall: React.FC<EventsWallProps> = ({ events }) => {
             const videoElement = videoRefs.current.get(media.id);
             if (videoElement && !videoElement.src && !loadedVideos.has(media.id)) {
               videoElement.preload = useAuto ? 'auto' : 'metadata';
-              videoElement.src = media.media_url;
+              setVideoSource(videoElement, media.media_url, media.hls_url);
               setLoadedVideos(prev => new Set(prev).add(media.id));
             }
           } else {
@@ -220,7 +221,7 @@ export const EventsWall: React.FC<EventsWallProps> = ({ events }) => {
               const video = videoRefs.current.get(mediaId);
               if (video && !video.src) {
                 video.preload = 'auto';
-                video.src = media.media_url;
+                setVideoSource(video, media.media_url, media.hls_url);
                 setLoadedVideos(prev => new Set(prev).add(mediaId));
                 
                 // Preload adjacent videos aggressively (like NaiasView)
@@ -233,7 +234,7 @@ export const EventsWall: React.FC<EventsWallProps> = ({ events }) => {
                     const nextVideoElement = videoRefs.current.get(nextMedia.id);
                     if (nextVideoElement && !nextVideoElement.src && !loadedVideos.has(nextMedia.id)) {
                       nextVideoElement.preload = connectionQuality === 'fast' ? 'auto' : 'metadata';
-                      nextVideoElement.src = nextMedia.media_url;
+                      setVideoSource(nextVideoElement, nextMedia.media_url, nextMedia.hls_url);
                       setLoadedVideos(prev => new Set(prev).add(nextMedia.id));
                     }
                   } else if (i <= 2) {
@@ -324,7 +325,7 @@ export const EventsWall: React.FC<EventsWallProps> = ({ events }) => {
             const nextVideoElement = videoRefs.current.get(nextMedia.id);
             if (nextVideoElement && !nextVideoElement.src && !loadedVideos.has(nextMedia.id)) {
               nextVideoElement.preload = connectionQuality === 'fast' ? 'auto' : 'metadata';
-              nextVideoElement.src = nextMedia.media_url;
+              setVideoSource(nextVideoElement, nextMedia.media_url, nextMedia.hls_url);
               setLoadedVideos(prev => new Set(prev).add(nextMedia.id));
             }
           } else {
@@ -387,6 +388,8 @@ export const EventsWall: React.FC<EventsWallProps> = ({ events }) => {
                 if (el) {
                   videoRefs.current.set(media.id, el);
                 } else {
+                  const previous = videoRefs.current.get(media.id);
+                  if (previous) releaseVideoSource(previous);
                   videoRefs.current.delete(media.id);
                 }
               }}
@@ -394,6 +397,7 @@ export const EventsWall: React.FC<EventsWallProps> = ({ events }) => {
               muted={isMuted}
               playsInline
               preload="none"
+              crossOrigin="anonymous"
               data-media-id={media.id}
               className="w-full h-full object-contain"
               onLoadedData={(e) => {
@@ -426,7 +430,7 @@ export const EventsWall: React.FC<EventsWallProps> = ({ events }) => {
                   const mediaData = allMedia.find(m => m.id === media.id);
                   if (mediaData) {
                     videoEl.preload = 'auto';
-                    videoEl.src = mediaData.media_url;
+                    setVideoSource(videoEl, mediaData.media_url, mediaData.hls_url);
                     setLoadedVideos(prev => new Set(prev).add(media.id));
                     videoEl.addEventListener('canplay', () => {
                       videoEl.play().catch(() => {});
@@ -440,7 +444,12 @@ export const EventsWall: React.FC<EventsWallProps> = ({ events }) => {
                   videoEl.pause();
                 }
               }}
-            />
+            >
+              {/* Event videos have no custom caption overlay, so show the native track by default */}
+              {media.captions_vtt_url && (
+                <track kind="captions" src={media.captions_vtt_url} srcLang="en" label="English" default />
+              )}
+            </video>
           ) : (
             <img
               ref={(el) => {
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Languages, Loader2 } from 'lucide-react';
+import { TRANSCRIPT_LANGUAGES, getLanguageName } from '../utils/languages';
+
+interface LanguageSwitcherProps {
+  value: string; // '' means the original spoken language
+  onChange: (languageCode: string) => void;
+  detectedLanguage?: string;
+  isTranslating?: boolean;
+  className?: string;
+}
+
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ value, onChange, detectedLanguage, isTranslating = false, className = '' }) => {
+  return (
+    <label
+      className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-full bg-black/40 backdrop-blur-md text-white/90 text-xs md:text-sm ${className}`}
+      title="Transcript language"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {isTranslating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Languages className="w-4 h-4" />}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="bg-transparent focus:outline-none cursor-pointer"
+      >
+        <option value="" className="bg-zinc-900">
+          Original{detectedLanguage ? ` (${getLanguageName(detectedLanguage)})` : ''}
+        </option>
+        {TRANSCRIPT_LANGUAGES.map(language => (
+          <option key={language.code} value={language.code} className="bg-zinc-900">
+            {language.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
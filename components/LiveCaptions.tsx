@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { TranscriptWord, TranscriptUtterance } from '../types';
+import { buildCaptionCues, findActiveCue, getSpeakerName } from '../utils/captionHelpers';
+
+interface LiveCaptionsProps {
+  words: TranscriptWord[];
+  currentTime: number; // Seconds, as reported by the <video> element
+  speakerNames?: Record<string, string>;
+  segments?: TranscriptUtterance[]; // Translated segments - shown whole since their words have no timings
+  className?: string;
+}
+
+export const LiveCaptions: React.FC<LiveCaptionsProps> = ({ words, currentTime, speakerNames, segments, className = '' }) => {
+  const cues = useMemo(() => buildCaptionCues(words), [words]);
+  const hasMultipleSpeakers = useMemo(
+    () => new Set(words.map(word => word.speaker).filter(Boolean)).size > 1,
+    [words]
+  );
+  const timeMs = currentTime * 1000;
+
+  if (segments) {
+    const activeSegment = segments.find(segment => timeMs >= segment.start && timeMs < segment.end);
+    if (!activeSegment) return null;
+
+    return (
+      <div className={`flex justify-center pointer-events-none ${className}`}>
+        <p className="max-w-2xl px-3 py-1.5 rounded-lg bg-black/70 backdrop-blur-sm text-center text-base md:text-xl lg:text-2xl font-medium leading-snug text-white">
+          {hasMultipleSpeakers && (
+            <span className="text-purple-400 font-semibold mr-2">
+              {getSpeakerName(activeSegment.speaker, speakerNames)}:
+            </span>
+          )}
+          {activeSegment.text}
+        </p>
+      </div>
+    );
+  }
+
+  const activeCue = findActiveCue(cues, timeMs);
+
+  if (!activeCue) return null;
+
+  return (
+    <div className={`flex justify-center pointer-events-none ${className}`}>
+      <p className="max-w-2xl px-3 py-1.5 rounded-lg bg-black/70 backdrop-blur-sm text-center text-base md:text-xl lg:text-2xl font-medium leading-snug">
+        {hasMultipleSpeakers && activeCue.speaker && (
+          <span className="text-purple-400 font-semibold mr-2">
+            {getSpeakerName(activeCue.speaker, speakerNames)}:
+          </span>
+        )}
+        {activeCue.words.map((word, index) => {
+          const isSpoken = timeMs >= word.start;
+          const isCurrent = isSpoken && timeMs < word.end;
+          return (
+            <span
+              key={`${word.start}-${index}`}
+              className={`transition-colors duration-150 ${
+                isCurrent ? 'text-purple-300' : isSpoken ? 'text-white' : 'text-white/50'
+              }`}
+            >
+              {index > 0 ? ' ' : ''}{word.text}
+            </span>
+          );
+        })}
+      </p>
+    </div>
+  );
+};
@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
-import { VideoEntry } from '../types';
+import { VideoEntry, ProcessingJob } from '../types';
 import { Play, Clock, Heart, Video } from 'lucide-react';
-import { formatDuration } from '../utils/videoHelpers';
+import { getDurationLabel } from '../utils/videoHelpers';
+import { ProcessingStatusBadge } from './ProcessingStatusBadge';
 
 interface MessagesProps {
   videos: VideoEntry[];
   selectedVideoId: string | null;
   onSelectVideo: (video: VideoEntry) => void;
+  processingJobs?: Record<string, ProcessingJob>; // Latest transcription job per video
 }
 
 const VideoThumbnail = ({ video }: { video: VideoEntry }) => {
@@ -30,7 +32,7 @@ const VideoThumbnail = ({ video }: { video: VideoEntry }) => {
   );
 };
 
-export const Messages: React.FC<MessagesProps> = ({ videos, selectedVideoId, onSelectVideo }) => {
+export const Messages: React.FC<MessagesProps> = ({ videos, selectedVideoId, onSelectVideo, processingJobs = {} }) => {
   if (videos.length === 0) {
     return (
       <div className="h-48 w-full border-2 border-dashed border-zinc-800 rounded-xl flex flex-col items-center justify-center text-zinc-600 bg-zinc-900/30">
@@ -69,11 +71,16 @@ export const Messages: React.FC<MessagesProps> = ({ videos, selectedVideoId, onS
                 </div>
               </div>
 
-              {/* Duration Badge */}
-              <div className="absolute bottom-2 right-2 px-1.5 py-0.5 rounded bg-black/60 backdrop-blur-md text-[10px] font-medium text-white flex items-center gap-1">
-                <Clock className="w-3 h-3" />
-                {video.durationString || "0:00"}
-              </div>
+              {/* Transcription Status Badge */}
+              <ProcessingStatusBadge job={processingJobs[video.id]} className="absolute top-2 left-2" />
+
+              {/* Duration Badge - hidden until the length is known */}
+              {getDurationLabel(video) && (
+                <div className="absolute bottom-2 right-2 px-1.5 py-0.5 rounded bg-black/60 backdrop-blur-md text-[10px] font-medium text-white flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  {getDurationLabel(video)}
+                </div>
+              )}
             </div>
 
             {/* Info Section */}
@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, ShieldCheck, RefreshCw, Video, BookOpen, Image as ImageIcon, Mic, Calendar, TriangleAlert } from 'lucide-react';
+import { ModerationItem, ModerationDecision, SafetyCategory } from '../types';
+import { VideoPlayer } from './VideoPlayer';
+import { ArticleCard } from './ArticleCard';
+import { VoiceMessageCard } from './VoiceMessageCard';
+import { fetchModerationQueue, moderateSubmission, submittedAt } from '../services/moderationService';
+
+interface ModerationQueueProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onModerated: (item: ModerationItem) => void; // Called with the updated item after each decision
+  transcriptLanguage?: string;
+  onTranscriptLanguageChange?: (languageCode: string) => void;
+}
+
+const TARGET_ICONS = {
+  videos: Video,
+  articles: BookOpen,
+  images: ImageIcon,
+  voice_messages: Mic,
+  events: Calendar,
+  event_media: ImageIcon,
+};
+
+const CATEGORY_LABELS: Record<SafetyCategory, string> = {
+  profanity: 'Profanity',
+  distressing: 'Distressing content',
+  personal_data: 'Personal data',
+};
+
+const DECISION_LABELS: Record<ModerationDecision, string> = {
+  approved: 'Approve',
+  changes_requested: 'Request changes',
+  rejected: 'Reject',
+};
+
+export const ModerationQueue: React.FC<ModerationQueueProps> = ({
+  isOpen,
+  onClose,
+  onModerated,
+  transcriptLanguage,
+  onTranscriptLanguageChange,
+}) => {
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingDecision, setSavingDecision] = useState<ModerationDecision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = async () => {
+    setIsLoading(true);
+    const queue = await fetchModerationQueue();
+    setItems(queue);
+    setSelectedId((current) => queue.some(item => item.entry.id === current) ? current : queue[0]?.entry.id || null);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (isOpen) loadQueue();
+  }, [isOpen]);
+
+  // Each submission gets its own reason
+  useEffect(() => {
+    setReason('');
+    setError(null);
+  }, [selectedId]);
+
+  const selected = items.find(item => item.entry.id === selectedId) || null;
+
+  const handleDecision = async (decision: ModerationDecision) => {
+    if (!selected) return;
+    if (decision !== 'approved' && !reason.trim()) {
+      setError('Please give the uploader a reason.');
+      return;
+    }
+
+    setSavingDecision(decision);
+    setError(null);
+    const updated = await moderateSubmission(selected, decision, reason);
+    setSavingDecision(null);
+
+    if (!updated) {
+      setError('Could not save your decision. Please try again.');
+      return;
+    }
+
+    const index = items.indexOf(selected);
+    const remaining = items.filter(item => item !== selected);
+    setItems(remaining);
+    setSelectedId(remaining[Math.min(index, remaining.length - 1)]?.entry.id || null);
+    onModerated(updated);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-zinc-900 rounded-2xl border border-zinc-700 max-w-6xl w-full h-[90vh] mx-4 shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-purple-400" />
+            <h2 className="text-xl font-semibold text-zinc-100">Review submissions</h2>
+            {!isLoading && <span className="text-sm text-zinc-500">{items.length} waiting</span>}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={loadQueue}
+              className="p-1.5 rounded-md text-zinc-400 hover:text-zinc-200 hover:bg-white/5 transition-colors"
+              title="Refresh"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+            <button
+              onClick={onClose}
+              className="text-zinc-400 hover:text-zinc-200 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {isLoading && items.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-zinc-500">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-zinc-500">
+            <ShieldCheck className="w-12 h-12 text-zinc-700 mb-4" />
+            <p>Nothing waiting for review.</p>
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col md:flex-row min-h-0">
+            {/* Queue */}
+            <ul className="md:w-72 shrink-0 max-h-40 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-zinc-800">
+              {items.map((item) => {
+                const Icon = item.target === 'event_media' && item.entry.media_type === 'video' ? Video : TARGET_ICONS[item.target];
+                return (
+                  <li key={item.entry.id}>
+                    <button
+                      onClick={() => setSelectedId(item.entry.id)}
+                      className={`w-full text-left px-4 py-3 flex items-start gap-3 transition-colors ${item.entry.id === selectedId ? 'bg-zinc-800' : 'hover:bg-zinc-800/50'}`}
+                    >
+                      <Icon className="w-4 h-4 mt-0.5 text-zinc-500 shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-zinc-200 truncate">{item.entry.title || 'Untitled'}</p>
+                        <p className="text-xs text-zinc-500">{new Date(submittedAt(item)).toLocaleString()}</p>
+                      </div>
+                      {item.verdict?.flagged && <TriangleAlert className="w-4 h-4 mt-0.5 text-amber-400 shrink-0" />}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {/* Selected submission */}
+            {selected && (
+              <div className="flex-1 min-h-0 flex flex-col">
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                  {/* Why automated screening didn't approve it */}
+                  {selected.verdict?.flagged ? (
+                    <div className="flex items-start gap-3 p-3 rounded-lg bg-amber-500/10 border border-amber-500/20 text-sm">
+                      <TriangleAlert className="w-4 h-4 mt-0.5 text-amber-400 shrink-0" />
+                      <div className="space-y-1">
+                        <p className="text-amber-200 font-medium">
+                          Flagged by {selected.verdict.classifier === 'gemini' ? 'Gemini' : 'keyword'} screening
+                          {selected.verdict.categories.length > 0 && `: ${selected.verdict.categories.map(category => CATEGORY_LABELS[category]).join(', ')}`}
+                        </p>
+                        {selected.verdict.reason && <p className="text-amber-200/70">{selected.verdict.reason}</p>}
+                      </div>
+                    </div>
+                  ) : !selected.verdict && (selected.target === 'videos' || selected.target === 'voice_messages') ? (
+                    <p className="text-sm text-zinc-500">Not screened yet - recordings are checked once their transcript is ready.</p>
+                  ) : null}
+
+                  {selected.target === 'videos' ? (
+                    <VideoPlayer
+                      video={selected.entry}
+                      transcriptLanguage={transcriptLanguage}
+                      onTranscriptLanguageChange={onTranscriptLanguageChange}
+                    />
+                  ) : selected.target === 'voice_messages' ? (
+                    <div className="space-y-4">
+                      <div className="rounded-xl overflow-hidden border border-zinc-800">
+                        <VoiceMessageCard key={selected.entry.id} voice={selected.entry} autoPlay={false} className="min-h-[50vh] py-10" />
+                      </div>
+                      {selected.entry.transcription && <p className="text-sm text-zinc-300">{selected.entry.transcription}</p>}
+                    </div>
+                  ) : selected.target === 'events' ? (
+                    <div className="max-w-xl space-y-2">
+                      <p className="text-lg font-semibold text-zinc-100">{selected.entry.title}</p>
+                      <p className="text-sm text-zinc-400 flex items-center gap-1.5">
+                        <Calendar className="w-4 h-4" />
+                        {new Date(selected.entry.date).toLocaleDateString()}
+                      </p>
+                      {selected.entry.description && <p className="text-sm text-zinc-300">{selected.entry.description}</p>}
+                    </div>
+                  ) : selected.target === 'event_media' ? (
+                    <div className="space-y-4">
+                      {selected.entry.media_type === 'video' ? (
+                        <video
+                          key={selected.entry.id}
+                          src={selected.entry.media_url}
+                          controls
+                          className="max-h-[50vh] rounded-xl border border-zinc-800"
+                        />
+                      ) : (
+                        <img
+                          src={selected.entry.media_url}
+                          alt={selected.entry.title}
+                          className="max-h-[50vh] rounded-xl border border-zinc-800"
+                        />
+                      )}
+                      {selected.entry.description && <p className="text-sm text-zinc-300">{selected.entry.description}</p>}
+                      {selected.entry.transcription && <p className="text-sm text-zinc-400">{selected.entry.transcription}</p>}
+                    </div>
+                  ) : selected.target === 'articles' ? (
+                    <div className="max-w-md space-y-4">
+                      <ArticleCard article={selected.entry} />
+                      <p className="text-sm text-zinc-300">{selected.entry.description}</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      <img
+                        src={selected.entry.url}
+                        alt={selected.entry.title}
+                        className="max-h-[50vh] rounded-xl border border-zinc-800"
+                      />
+                      <p className="text-sm text-zinc-300">{selected.entry.description}</p>
+                    </div>
+                  )}
+                </div>
+
+                <div className="border-t border-zinc-800 p-4 space-y-3">
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason (shown to the uploader, required to reject or request changes)"
+                    rows={2}
+                    className="w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500 resize-none"
+                  />
+                  {error && <p className="text-sm text-red-400">{error}</p>}
+                  <div className="flex flex-wrap gap-3">
+                    {(['rejected', 'changes_requested', 'approved'] as ModerationDecision[]).map((decision) => (
+                      <button
+                        key={decision}
+                        onClick={() => handleDecision(decision)}
+                        disabled={savingDecision !== null}
+                        className={`flex-1 px-4 py-2 rounded-lg transition-colors font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+                          decision === 'approved'
+                            ? 'bg-purple-500 hover:bg-purple-600 text-white'
+                            : decision === 'rejected'
+                              ? 'bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20'
+                              : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'
+                        }`}
+                      >
+                        {savingDecision === decision && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {DECISION_LABELS[decision]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
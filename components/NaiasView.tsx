@@ -1,20 +1,70 @@
 import React, { useRef, useEffect, useState, useMemo } from 'react';
-import { VideoEntry } from '../types';
-import { Calendar, MessageSquare, Info, Volume2, VolumeX } from 'lucide-react';
+import { VideoEntry, VoiceEntry, TranscriptTranslation } from '../types';
+import { Calendar, Clock, MessageSquare, Info, Volume2, VolumeX, ShieldAlert, CloudDownload, Heart } from 'lucide-react';
+import { LiveCaptions } from './LiveCaptions';
+import { VoiceMessageCard } from './VoiceMessageCard';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { getTranscriptTranslation } from '../services/translationService';
+import { baseLanguageCode, getLanguageName } from '../utils/languages';
+import { getDurationLabel } from '../utils/videoHelpers';
+import { setVideoSource, releaseVideoSource } from '../utils/hlsPlayer';
 
 interface NaiasViewProps {
   videos: VideoEntry[];
+  voiceMessages?: VoiceEntry[];
   onSelectVideo?: (video: VideoEntry) => void;
+  transcriptLanguage?: string; // '' shows the original transcript
+  onTranscriptLanguageChange?: (languageCode: string) => void;
+  offlineIds?: Set<string>; // Videos saved on this device
+  favoriteIds?: Set<string>;
+  onToggleFavorite?: (videoId: string) => void;
 }
 
-export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) => {
+/**
+ * Slots each voice message in after the video recorded closest to it in time, so they turn up
+ * among the videos whichever way those are sorted
+ * @returns For each video index, the voice messages to show after it (-1 is before the first video)
+ */
+const placeVoiceMessages = (videos: VideoEntry[], voiceMessages: VoiceEntry[]): Map<number, VoiceEntry[]> => {
+  const placed = new Map<number, VoiceEntry[]>();
+  voiceMessages.forEach(voice => {
+    let closest = -1;
+    videos.forEach((video, index) => {
+      if (closest === -1 || Math.abs(video.timestamp - voice.timestamp) < Math.abs(videos[closest].timestamp - voice.timestamp)) {
+        closest = index;
+      }
+    });
+    placed.set(closest, [...(placed.get(closest) || []), voice]);
+  });
+  return placed;
+};
+
+export const NaiasView: React.FC<NaiasViewProps> = ({
+  videos,
+  voiceMessages = [],
+  onSelectVideo,
+  transcriptLanguage = '',
+  onTranscriptLanguageChange,
+  offlineIds,
+  favoriteIds,
+  onToggleFavorite,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const videoRefs = useRef<Map<string, HTMLVideoElement>>(new Map());
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isScrolling, setIsScrolling] = useState(false);
   const [isMuted, setIsMuted] = useState(false); // Default to unmuted so she can hear audio
   const [loadedVideos, setLoadedVideos] = useState<Set<string>>(new Set()); // Track which videos are loaded
+  const [playbackTime, setPlaybackTime] = useState(0); // Current time of the video in view, for captions
+  const [translation, setTranslation] = useState<TranscriptTranslation | null>(null); // Translated transcript of the video in view
+  const [isTranslating, setIsTranslating] = useState(false);
+  const voiceMessagesAfter = useMemo(() => placeVoiceMessages(videos, voiceMessages), [videos, voiceMessages]);
   
+  // Saved videos play from the file the service worker keeps, not the HLS stream (whose segments aren't saved)
+  const loadVideoSource = (el: HTMLVideoElement, video: VideoEntry) => {
+    setVideoSource(el, video.url, offlineIds?.has(video.id) ? undefined : video.hlsUrl);
+  };
+
   // Detect connection quality for adaptive preloading (memoized to avoid recalculation)
   const { connectionQuality, preloadCount } = useMemo(() => {
     const getConnectionQuality = (): 'slow' | 'medium' | 'fast' => {
@@ -64,7 +114,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
         const firstVideo = videoRefs.current.get(videos[0].id);
         if (firstVideo && !firstVideo.src) {
           firstVideo.preload = 'auto'; // Preload fully for instant playback
-          firstVideo.src = videos[0].url;
+          loadVideoSource(firstVideo, videos[0]);
           setLoadedVideos(prev => new Set(prev).add(videos[0].id));
           
           // Auto-play first video when it's ready
@@ -90,7 +140,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
             if (nextVideo && !nextVideo.src) {
               // Use 'auto' for fast connections, 'metadata' for slower ones
               nextVideo.preload = connectionQuality === 'fast' ? 'auto' : 'metadata';
-              nextVideo.src = videos[i].url;
+              loadVideoSource(nextVideo, videos[i]);
               setLoadedVideos(prev => new Set(prev).add(videos[i].id));
             }
           }
@@ -99,6 +149,34 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
     }
   }, [videos, connectionQuality, preloadCount]); // Only run when videos change
 
+  // Sync caption time with the newly visible video when the feed moves
+  useEffect(() => {
+    const activeVideo = videos[currentIndex];
+    const videoElement = activeVideo ? videoRefs.current.get(activeVideo.id) : undefined;
+    setPlaybackTime(videoElement?.currentTime || 0);
+  }, [currentIndex, videos]);
+
+  // Translate only the video in view - the rest are translated as they scroll into view
+  const activeVideo = videos[currentIndex];
+  useEffect(() => {
+    setTranslation(null);
+    if (!activeVideo?.transcription || !transcriptLanguage) return;
+    if (activeVideo.languageCode && baseLanguageCode(activeVideo.languageCode) === transcriptLanguage) return;
+
+    let cancelled = false;
+    setIsTranslating(true);
+    getTranscriptTranslation(activeVideo, transcriptLanguage).then(result => {
+      if (!cancelled) {
+        setTranslation(result);
+        setIsTranslating(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+      setIsTranslating(false);
+    };
+  }, [activeVideo?.id, activeVideo?.transcription, transcriptLanguage]);
+
   // Handle scroll to determine which video is in view and preload adjacent videos
   useEffect(() => {
     const container = containerRef.current;
@@ -114,7 +192,8 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
       let closestDistance = Infinity;
 
       videos.forEach((video, index) => {
-        const videoElement = container.children[index] as HTMLElement;
+        // Voice messages sit between the videos, so find each video's own section
+        const videoElement = container.querySelector<HTMLElement>(`[data-video-id="${video.id}"]`);
         if (videoElement) {
           const videoRect = videoElement.getBoundingClientRect();
           const videoCenter = videoRect.top + videoRect.height / 2;
@@ -136,7 +215,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
           const videoElement = videoRefs.current.get(video.id);
           if (videoElement && !videoElement.src && !loadedVideos.has(video.id)) {
             videoElement.preload = useAuto ? 'auto' : 'metadata';
-            videoElement.src = video.url;
+            loadVideoSource(videoElement, video);
             setLoadedVideos(prev => new Set(prev).add(video.id));
           }
         }
@@ -182,7 +261,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
             const videoData = videos.find(v => v.id === videoId);
             if (videoData && !video.src) {
               video.preload = 'auto'; // Full preload for instant playback
-              video.src = videoData.url;
+              loadVideoSource(video, videoData);
               setLoadedVideos(prev => new Set(prev).add(videoId));
               
               // Preload adjacent videos based on connection quality
@@ -196,7 +275,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
                 if (nextVideoElement && nextVideoData && !nextVideoElement.src && !loadedVideos.has(nextVideoId)) {
                   // Use 'auto' for fast connections, 'metadata' for slower ones
                   nextVideoElement.preload = connectionQuality === 'fast' ? 'auto' : 'metadata';
-                  nextVideoElement.src = nextVideoData.url;
+                  loadVideoSource(nextVideoElement, nextVideoData);
                   setLoadedVideos(prev => new Set(prev).add(nextVideoId));
                 }
               }
@@ -268,7 +347,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
           const nextVideoElement = videoRefs.current.get(nextVideo.id);
           if (nextVideoElement && !nextVideoElement.src && !loadedVideos.has(nextVideo.id)) {
             nextVideoElement.preload = connectionQuality === 'fast' ? 'auto' : 'metadata';
-            nextVideoElement.src = nextVideo.url;
+            loadVideoSource(nextVideoElement, nextVideo);
             setLoadedVideos(prev => new Set(prev).add(nextVideo.id));
           }
           
@@ -280,7 +359,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
             const afterNextVideoElement = videoRefs.current.get(afterNextVideo.id);
             if (afterNextVideoElement && !afterNextVideoElement.src && !loadedVideos.has(afterNextVideo.id)) {
               afterNextVideoElement.preload = connectionQuality === 'fast' ? 'auto' : 'metadata';
-              afterNextVideoElement.src = afterNextVideo.url;
+              loadVideoSource(afterNextVideoElement, afterNextVideo);
               setLoadedVideos(prev => new Set(prev).add(afterNextVideo.id));
             }
           }
@@ -291,13 +370,14 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
             const prevVideoElement = videoRefs.current.get(prevVideo.id);
             if (prevVideoElement && !prevVideoElement.src && !loadedVideos.has(prevVideo.id)) {
               prevVideoElement.preload = 'auto';
-              prevVideoElement.src = prevVideo.url;
+              loadVideoSource(prevVideoElement, prevVideo);
               setLoadedVideos(prev => new Set(prev).add(prevVideo.id));
             }
           }
         }
         
-        const videoElement = containerRef.current?.children[nextIndex] as HTMLElement;
+        // Steps from video to video - voice messages in between are reached by scrolling
+        const videoElement = containerRef.current?.querySelector<HTMLElement>(`[data-video-id="${videos[nextIndex]?.id}"]`);
         if (videoElement) {
           videoElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
           setCurrentIndex(nextIndex);
@@ -311,7 +391,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [currentIndex, videos, loadedVideos]);
 
-  if (videos.length === 0) {
+  if (videos.length === 0 && voiceMessages.length === 0) {
     return (
       <div className="h-screen w-full flex items-center justify-center text-zinc-500">
         <p className="text-lg">No videos to display</p>
@@ -331,9 +411,16 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
         }
       `}</style>
       
-      {videos.map((video, index) => (
+      {voiceMessagesAfter.get(-1)?.map(voice => (
+        <VoiceMessageCard key={voice.id} voice={voice} isMuted={isMuted} />
+      ))}
+
+      {videos.map((video, index) => {
+        const trackLanguage = baseLanguageCode(video.languageCode || 'en');
+        const videoTranslation = index === currentIndex ? translation : null;
+        return (
+        <React.Fragment key={video.id}>
         <div
-          key={video.id}
           data-video-id={video.id}
           className="h-[calc(100vh-4rem)] w-full snap-start snap-always relative bg-black flex items-center justify-center"
         >
@@ -343,6 +430,8 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
               if (el) {
                 videoRefs.current.set(video.id, el);
               } else {
+                const previous = videoRefs.current.get(video.id);
+                if (previous) releaseVideoSource(previous);
                 videoRefs.current.delete(video.id);
               }
             }}
@@ -351,6 +440,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
             muted={isMuted}
             playsInline
             preload="none"
+            crossOrigin="anonymous"
             data-video-id={video.id}
             className="w-full h-full object-contain"
             onLoadedData={(e) => {
@@ -368,6 +458,12 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
                 videoEl.currentTime = 0;
               }
             }}
+            onTimeUpdate={(e) => {
+              // Only the video in view drives the captions
+              if (index === currentIndex) {
+                setPlaybackTime(e.currentTarget.currentTime);
+              }
+            }}
             onError={(e) => {
               // Handle video loading errors gracefully
               console.warn(`Video ${video.id} failed to load:`, e);
@@ -389,7 +485,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
                 const videoData = videos.find(v => v.id === video.id);
                 if (videoData) {
                   videoEl.preload = 'auto';
-                  videoEl.src = videoData.url;
+                  loadVideoSource(videoEl, videoData);
                   setLoadedVideos(prev => new Set(prev).add(video.id));
                   // Wait for video to be ready before playing
                   videoEl.addEventListener('canplay', () => {
@@ -404,7 +500,34 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
                 videoEl.pause();
               }
             }}
-          />
+          >
+            {/* Native caption track for assistive tech (on-screen captions are rendered below) */}
+            {video.captionsVttUrl && (
+              <track kind="captions" src={video.captionsVttUrl} srcLang={trackLanguage} label={getLanguageName(trackLanguage)} />
+            )}
+          </video>
+
+          {/* Live captions so messages can be followed with the sound off */}
+          {index === currentIndex && video.transcriptWords && video.transcriptWords.length > 0 && (
+            <LiveCaptions
+              words={video.transcriptWords}
+              currentTime={playbackTime}
+              speakerNames={video.speakerNames}
+              segments={videoTranslation && video.transcriptUtterances?.length ? videoTranslation.segments : undefined}
+              className="absolute left-0 right-0 bottom-56 md:bottom-64 px-4 z-10"
+            />
+          )}
+
+          {/* Transcript language */}
+          {index === currentIndex && video.transcription && onTranscriptLanguageChange && (
+            <LanguageSwitcher
+              value={transcriptLanguage}
+              onChange={onTranscriptLanguageChange}
+              detectedLanguage={video.languageCode}
+              isTranslating={isTranslating}
+              className="absolute top-4 right-4 z-10"
+            />
+          )}
 
           {/* Overlay with metadata */}
           <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black via-black/80 to-transparent p-4 md:p-6 lg:p-8 pointer-events-none">
@@ -420,6 +543,28 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
                 {isMuted ? <VolumeX className="w-6 h-6" /> : <Volume2 className="w-6 h-6" />}
               </button>
 
+              {/* Favorite - favorites are always kept on this device */}
+              {onToggleFavorite && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleFavorite(video.id);
+                  }}
+                  className="absolute right-14 top-0 p-3 rounded-full bg-black/20 backdrop-blur-md hover:bg-black/40 transition-colors text-white/90 hover:text-white"
+                  title={favoriteIds?.has(video.id) ? 'Remove from favorites' : 'Favorite - always keep on this device'}
+                >
+                  <Heart className={`w-6 h-6 ${favoriteIds?.has(video.id) ? 'fill-pink-500 text-pink-500' : ''}`} />
+                </button>
+              )}
+
+              {/* Content warning, so she can choose when to watch */}
+              {video.contentWarning && (
+                <div className="inline-flex items-center gap-1.5 px-2.5 py-1 mb-2 rounded-full bg-amber-500/20 backdrop-blur-md text-amber-100 text-xs">
+                  <ShieldAlert className="w-3.5 h-3.5" />
+                  {video.contentWarning}
+                </div>
+              )}
+
               {/* Title */}
               <h2 className="text-xl md:text-2xl lg:text-3xl font-bold text-white mb-2 md:mb-3 tracking-tight drop-shadow-lg">
                 {video.title}
@@ -431,12 +576,24 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
                   <Calendar className="w-3 h-3 md:w-4 md:h-4" />
                   {new Date(video.timestamp).toLocaleDateString()}
                 </span>
-                {(video.transcription || video.description) && (
+                {getDurationLabel(video) && (
+                  <span className="flex items-center gap-1.5">
+                    <Clock className="w-3 h-3 md:w-4 md:h-4" />
+                    {getDurationLabel(video)}
+                  </span>
+                )}
+                {offlineIds?.has(video.id) && (
+                  <span className="flex items-center gap-1.5 text-emerald-300" title="Saved on this device">
+                    <CloudDownload className="w-3 h-3 md:w-4 md:h-4" />
+                    Available offline
+                  </span>
+                )}
+                {(video.summary || video.transcription || video.description) && (
                   <>
                     <span className="w-1 h-1 bg-zinc-500 rounded-full" />
                     <span className="flex items-center gap-1.5">
                       <Info className="w-3 h-3 md:w-4 md:h-4" />
-                      <span className="line-clamp-1">{video.transcription || video.description}</span>
+                      <span className="line-clamp-1">{video.summary || videoTranslation?.text || video.transcription || video.description}</span>
                     </span>
                   </>
                 )}
@@ -448,7 +605,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
                   <div className="flex items-start gap-2 text-zinc-100">
                     <MessageSquare className="w-4 h-4 md:w-5 md:h-5 mt-0.5 text-purple-400 shrink-0" />
                     <p className="text-xs md:text-sm lg:text-base leading-relaxed line-clamp-2 md:line-clamp-3 drop-shadow-md">
-                      {video.transcription}
+                      {videoTranslation?.text || video.transcription}
                     </p>
                   </div>
                 </div>
@@ -457,7 +614,7 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
           </div>
 
           {/* Scroll indicator */}
-          {index < videos.length - 1 && (
+          {(index < videos.length - 1 || voiceMessagesAfter.has(index)) && (
             <div className="absolute bottom-24 md:bottom-28 left-1/2 transform -translate-x-1/2 animate-bounce pointer-events-none">
               <div className="w-6 h-10 border-2 border-white/60 rounded-full flex items-start justify-center p-2 backdrop-blur-sm bg-black/20">
                 <div className="w-1 h-3 bg-white/70 rounded-full" />
@@ -465,7 +622,13 @@ export const NaiasView: React.FC<NaiasViewProps> = ({ videos, onSelectVideo }) =
             </div>
           )}
         </div>
-      ))}
+
+        {voiceMessagesAfter.get(index)?.map(voice => (
+          <VoiceMessageCard key={voice.id} voice={voice} isMuted={isMuted} />
+        ))}
+        </React.Fragment>
+        );
+      })}
     </div>
   );
 };
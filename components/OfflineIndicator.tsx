@@ -0,0 +1,24 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+
+interface OfflineIndicatorProps {
+  isOnline: boolean;
+  savedCount: number; // Videos and images saved on this device
+}
+
+/**
+ * Header pill shown while the device is offline, so a shorter feed doesn't look like missing messages
+ */
+export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ isOnline, savedCount }) => {
+  if (isOnline) return null;
+
+  return (
+    <span
+      className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-amber-500/10 border border-amber-500/20 text-sm font-medium text-amber-200"
+      title={`Offline - showing the ${savedCount} video(s) and image(s) saved on this device`}
+    >
+      <WifiOff className="w-4 h-4" />
+      <span className="hidden sm:inline">Offline</span>
+    </span>
+  );
+};
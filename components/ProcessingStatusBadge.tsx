@@ -0,0 +1,53 @@
+import React from 'react';
+import { Clock3, Loader2, CircleCheck, AlertCircle } from 'lucide-react';
+import { ProcessingJob } from '../types';
+
+interface ProcessingStatusBadgeProps {
+  job?: ProcessingJob;
+  className?: string;
+}
+
+export const ProcessingStatusBadge: React.FC<ProcessingStatusBadgeProps> = ({ job, className = '' }) => {
+  if (!job) return null;
+
+  const isRetry = job.attempts > 0;
+  const config = {
+    queued: {
+      icon: <Clock3 className="w-3 h-3" />,
+      label: isRetry ? `Retrying (${job.attempts + 1}/${job.maxAttempts})` : 'Queued',
+      style: 'bg-zinc-800/80 text-zinc-300',
+    },
+    processing: {
+      icon: <Loader2 className="w-3 h-3 animate-spin" />,
+      label: 'Transcribing',
+      style: 'bg-purple-500/20 text-purple-300',
+    },
+    completed: {
+      icon: <CircleCheck className="w-3 h-3" />,
+      label: 'Transcribed',
+      style: 'bg-emerald-500/20 text-emerald-300',
+    },
+    failed: {
+      icon: <AlertCircle className="w-3 h-3" />,
+      label: 'Transcription failed',
+      style: 'bg-red-500/20 text-red-300',
+    },
+  }[job.status];
+
+  // Surface the last error on hover so failures aren't silent
+  const title = job.lastError
+    ? `${config.label} - ${job.lastError}`
+    : job.status === 'queued' && isRetry
+      ? `Next attempt ${new Date(job.nextAttemptAt).toLocaleTimeString()}`
+      : config.label;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded backdrop-blur-md text-[10px] font-medium ${config.style} ${className}`}
+      title={title}
+    >
+      {config.icon}
+      {config.label}
+    </span>
+  );
+};
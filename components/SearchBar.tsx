@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Search, Sparkles, Loader2, X, Video, BookOpen, Image as ImageIcon, Calendar, Clock } from 'lucide-react';
+import { SearchResult, SearchResultType, SearchMode, VideoEntry } from '../types';
+import { searchContent } from '../services/searchService';
+import { parseSnippet, findTranscriptMatchTime } from '../utils/searchHelpers';
+import { formatDuration } from '../utils/videoHelpers';
+
+interface SearchBarProps {
+  videos: VideoEntry[]; // Loaded messages, for finding where a transcript hit is spoken
+  canSearchByMeaning: boolean; // Semantic search needs a signed-in user
+  onSelectResult: (result: SearchResult, seekSeconds: number | null) => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const RESULT_GROUPS: { type: SearchResultType; label: string; icon: typeof Video }[] = [
+  { type: 'videos', label: 'Videos', icon: Video },
+  { type: 'articles', label: 'Articles', icon: BookOpen },
+  { type: 'images', label: 'Images', icon: ImageIcon },
+  { type: 'events', label: 'Events', icon: Calendar },
+];
+
+export const SearchBar: React.FC<SearchBarProps> = ({ videos, canSearchByMeaning, onSelectResult }) => {
+  const [query, setQuery] = useState('');
+  const [mode, setMode] = useState<SearchMode>('text');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Back to exact words on sign out
+  useEffect(() => {
+    if (!canSearchByMeaning) setMode('text');
+  }, [canSearchByMeaning]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    // Ignore responses for a query the user has already typed past
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const found = await searchContent(trimmed, mode);
+      if (!cancelled) {
+        setResults(found);
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, mode]);
+
+  // Close the results when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    return () => document.removeEventListener('mousedown', handlePointerDown);
+  }, [isOpen]);
+
+  const getSeekSeconds = (result: SearchResult): number | null => {
+    if (result.type !== 'videos') return null;
+    const video = videos.find(entry => entry.id === result.id);
+    return findTranscriptMatchTime(video?.transcriptWords, result.snippet);
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    onSelectResult(result, getSeekSeconds(result));
+    setIsOpen(false);
+  };
+
+  const handleClear = () => {
+    setQuery('');
+    setResults([]);
+  };
+
+  const showResults = isOpen && query.trim().length > 0;
+
+  return (
+    <div ref={containerRef} className="relative flex-1 max-w-md">
+      <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-zinc-800/50 border border-white/5 focus-within:border-purple-500/50 transition-colors">
+        {isSearching ? (
+          <Loader2 className="w-4 h-4 text-zinc-500 animate-spin shrink-0" />
+        ) : (
+          <Search className="w-4 h-4 text-zinc-500 shrink-0" />
+        )}
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={(e) => e.key === 'Escape' && setIsOpen(false)}
+          placeholder={mode === 'semantic' ? 'Search by meaning...' : 'Search memories...'}
+          className="flex-1 min-w-0 bg-transparent text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none [&::-webkit-search-cancel-button]:hidden"
+        />
+        {query && (
+          <button
+            onClick={handleClear}
+            className="text-zinc-500 hover:text-zinc-300 transition-colors"
+            title="Clear search"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+        {canSearchByMeaning && (
+          <button
+            onClick={() => setMode(mode === 'semantic' ? 'text' : 'semantic')}
+            className={`p-1 rounded-md transition-colors ${mode === 'semantic' ? 'text-purple-400 bg-purple-500/10' : 'text-zinc-500 hover:text-zinc-300'}`}
+            title={mode === 'semantic' ? 'Searching by meaning - switch to exact words' : 'Search by meaning'}
+          >
+            <Sparkles className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {showResults && (
+        <div className="absolute left-0 right-0 top-full mt-2 max-h-[70vh] overflow-y-auto rounded-xl bg-zinc-900 border border-zinc-700 shadow-2xl">
+          {results.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-zinc-500">
+              {isSearching ? 'Searching...' : 'No matches found.'}
+            </p>
+          ) : (
+            RESULT_GROUPS.map(({ type, label, icon: Icon }) => {
+              const groupResults = results.filter(result => result.type === type);
+              if (groupResults.length === 0) return null;
+
+              return (
+                <div key={type} className="py-2 border-b border-zinc-800 last:border-b-0">
+                  <h3 className="px-4 py-1 text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                    <Icon className="w-3.5 h-3.5" />
+                    {label}
+                  </h3>
+                  <ul>
+                    {groupResults.map((result) => {
+                      const seekSeconds = getSeekSeconds(result);
+                      return (
+                        <li key={`${result.type}-${result.id}`}>
+                          <button
+                            onClick={() => handleSelect(result)}
+                            className="w-full text-left px-4 py-2 hover:bg-zinc-800/70 transition-colors"
+                          >
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm text-zinc-100 truncate">{result.title || 'Untitled'}</span>
+                              {seekSeconds !== null && (
+                                <span className="shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded bg-purple-500/10 text-purple-300 text-xs">
+                                  <Clock className="w-3 h-3" />
+                                  at {formatDuration(seekSeconds)}
+                                </span>
+                              )}
+                            </div>
+                            {result.snippet && (
+                              <p className="text-xs text-zinc-500 line-clamp-2 mt-0.5">
+                                {parseSnippet(result.snippet).map((part, index) =>
+                                  part.isMatch ? (
+                                    <mark key={index} className="bg-purple-500/20 text-purple-200 rounded-sm">{part.text}</mark>
+                                  ) : (
+                                    <React.Fragment key={index}>{part.text}</React.Fragment>
+                                  )
+                                )}
+                              </p>
+                            )}
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { X, Loader2, Mail } from 'lucide-react';
+import { sendMagicLink } from '../services/authService';
+
+interface SignInModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const SignInModal: React.FC<SignInModalProps> = ({ isOpen, onClose }) => {
+  const [email, setEmail] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsSending(true);
+    setError(null);
+    const sendError = await sendMagicLink(email.trim(), displayName.trim() || undefined);
+    setIsSending(false);
+
+    if (sendError) {
+      setError(sendError);
+    } else {
+      setSentTo(email.trim());
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-zinc-900 rounded-2xl border border-zinc-700 p-6 md:p-8 max-w-md w-full mx-4 shadow-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold text-zinc-100">Sign in</h2>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-zinc-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {sentTo ? (
+          <div className="text-center space-y-4">
+            <div className="mx-auto w-12 h-12 rounded-full bg-purple-500/10 flex items-center justify-center">
+              <Mail className="w-6 h-6 text-purple-400" />
+            </div>
+            <p className="text-zinc-300">
+              We sent a sign-in link to <span className="font-medium text-white">{sentTo}</span>.
+            </p>
+            <p className="text-sm text-zinc-500">Open it on this device to finish signing in.</p>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-full px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div>
+              <label htmlFor="signInEmail" className="block text-sm font-medium text-zinc-300 mb-2">
+                Email *
+              </label>
+              <input
+                id="signInEmail"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                className="w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                required
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label htmlFor="signInName" className="block text-sm font-medium text-zinc-300 mb-2">
+                Your name
+              </label>
+              <input
+                id="signInName"
+                type="text"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder="Enter your name"
+                className="w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+              />
+              <p className="mt-1 text-xs text-zinc-500">
+                Only needed the first time - it's shown on everything you upload
+              </p>
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <div className="pt-2 flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!email.trim() || isSending}
+                className="flex-1 px-4 py-2 bg-purple-500 hover:bg-purple-600 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed text-white rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+              >
+                {isSending && <Loader2 className="w-4 h-4 animate-spin" />}
+                {isSending ? 'Sending...' : 'Email me a link'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
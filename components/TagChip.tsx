@@ -0,0 +1,46 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { TagDraft } from '../types';
+import { getTagIcon } from '../utils/tagHelpers';
+
+interface TagChipProps {
+  tag: TagDraft & { suggested?: boolean };
+  onClick?: () => void;
+  onRemove?: () => void;
+  overlay?: boolean; // Translucent style for use on top of video
+}
+
+export const TagChip: React.FC<TagChipProps> = ({ tag, onClick, onRemove, overlay = false }) => {
+  const Icon = getTagIcon(tag.kind);
+  const chipClass = overlay
+    ? 'bg-black/40 backdrop-blur-md border-white/10 text-white/90'
+    : tag.suggested
+      ? 'border-dashed border-zinc-600 text-zinc-400'
+      : 'bg-purple-500/10 border-purple-500/20 text-purple-200';
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 pl-2 ${onRemove ? 'pr-1' : 'pr-2'} py-0.5 rounded-full border text-xs ${chipClass}`}
+      title={tag.suggested ? `${tag.name} (suggested from the description)` : tag.name}
+    >
+      <Icon className="w-3 h-3 shrink-0" />
+      {onClick ? (
+        <button type="button" onClick={onClick} className="hover:underline">
+          {tag.name}
+        </button>
+      ) : (
+        <span>{tag.name}</span>
+      )}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-0.5 rounded-full hover:bg-white/10 transition-colors"
+          aria-label={`Remove ${tag.name}`}
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  );
+};
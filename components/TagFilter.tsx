@@ -0,0 +1,57 @@
+import React from 'react';
+import { Tag as TagIcon } from 'lucide-react';
+import { Tag } from '../types';
+import { TAG_KINDS } from '../utils/tagHelpers';
+
+interface TagFilterProps {
+  tags: Tag[]; // Tags used in the current feed
+  selectedTagId: string | null;
+  onChange: (tagId: string | null) => void;
+  overlay?: boolean; // Translucent style for use on top of video
+  className?: string;
+}
+
+export const TagFilter: React.FC<TagFilterProps> = ({
+  tags,
+  selectedTagId,
+  onChange,
+  overlay = false,
+  className = '',
+}) => {
+  if (tags.length === 0 && !selectedTagId) return null;
+
+  const pillClass = overlay
+    ? 'bg-black/40 backdrop-blur-md border-white/10 text-white/90'
+    : selectedTagId
+      ? 'bg-purple-500/10 border-purple-500/30 text-purple-200'
+      : 'bg-zinc-800/50 border-white/5 text-zinc-300';
+
+  return (
+    <label
+      className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-full border text-xs md:text-sm ${pillClass} ${className}`}
+      title="Show memories featuring..."
+    >
+      <TagIcon className="w-3.5 h-3.5" />
+      <select
+        value={selectedTagId || ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="bg-transparent focus:outline-none cursor-pointer max-w-[10rem]"
+      >
+        <option value="" className="bg-zinc-900">Everyone & everything</option>
+        {TAG_KINDS.map(({ kind, pluralLabel }) => {
+          const kindTags = tags.filter(tag => tag.kind === kind);
+          if (kindTags.length === 0) return null;
+          return (
+            <optgroup key={kind} label={pluralLabel} className="bg-zinc-900">
+              {kindTags.map(tag => (
+                <option key={tag.id} value={tag.id} className="bg-zinc-900">
+                  {tag.name}
+                </option>
+              ))}
+            </optgroup>
+          );
+        })}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { Plus } from 'lucide-react';
+import { Tag, TagDraft, TagKind } from '../types';
+import { TagChip } from './TagChip';
+import { fetchTags } from '../services/tagService';
+import { TAG_KINDS, getTagIcon, isSameTag } from '../utils/tagHelpers';
+
+interface TagInputProps {
+  value: TagDraft[];
+  onChange: (tags: TagDraft[]) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+// Autocomplete matches shown at once
+const MAX_MATCHES = 6;
+
+/**
+ * Picks people, places and themes, suggesting tags already used elsewhere so the same person
+ * isn't tagged under three spellings. Anything new is created when the item is saved.
+ */
+export const TagInput: React.FC<TagInputProps> = ({
+  value,
+  onChange,
+  placeholder = 'Add people, places or themes...',
+  disabled = false,
+}) => {
+  const [knownTags, setKnownTags] = useState<Tag[]>([]);
+  const [query, setQuery] = useState('');
+  const [newTagKind, setNewTagKind] = useState<TagKind>('person');
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+
+  useEffect(() => {
+    fetchTags().then(setKnownTags);
+  }, []);
+
+  const trimmed = query.trim();
+  const matches = trimmed
+    ? knownTags
+        .filter(tag => tag.name.toLowerCase().includes(trimmed.toLowerCase()))
+        .filter(tag => !value.some(selected => isSameTag(selected, tag)))
+        .slice(0, MAX_MATCHES)
+    : [];
+  const newTag: TagDraft = { kind: newTagKind, name: trimmed };
+  const canAddNew = !!trimmed &&
+    !knownTags.some(tag => isSameTag(tag, newTag)) &&
+    !value.some(selected => isSameTag(selected, newTag));
+  // The "Add" option comes after the existing matches
+  const optionCount = matches.length + (canAddNew ? 1 : 0);
+
+  useEffect(() => {
+    setHighlightedIndex(0);
+  }, [query]);
+
+  const addTag = (tag: TagDraft) => {
+    if (!value.some(selected => isSameTag(selected, tag))) {
+      onChange([...value, { kind: tag.kind, name: tag.name.trim() }]);
+    }
+    setQuery('');
+  };
+
+  const removeTag = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      if (!trimmed) return;
+      e.preventDefault(); // Don't submit the surrounding form
+      if (highlightedIndex < matches.length) {
+        addTag(matches[highlightedIndex]);
+      } else if (canAddNew) {
+        addTag(newTag);
+      }
+    } else if (e.key === 'ArrowDown' && optionCount > 0) {
+      e.preventDefault();
+      setHighlightedIndex((highlightedIndex + 1) % optionCount);
+    } else if (e.key === 'ArrowUp' && optionCount > 0) {
+      e.preventDefault();
+      setHighlightedIndex((highlightedIndex - 1 + optionCount) % optionCount);
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      removeTag(value.length - 1);
+    }
+  };
+
+  const NewTagIcon = getTagIcon(newTagKind);
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1.5 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg focus-within:border-purple-500 focus-within:ring-1 focus-within:ring-purple-500">
+        {value.map((tag, index) => (
+          <TagChip key={`${tag.kind}-${tag.name}`} tag={tag} onRemove={disabled ? undefined : () => removeTag(index)} />
+        ))}
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder={value.length === 0 ? placeholder : ''}
+          disabled={disabled}
+          className="flex-1 min-w-[8rem] bg-transparent text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none"
+        />
+      </div>
+
+      {isFocused && optionCount > 0 && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 py-1 rounded-lg bg-zinc-900 border border-zinc-700 shadow-2xl">
+          {matches.map((tag, index) => {
+            const Icon = getTagIcon(tag.kind);
+            return (
+              <li key={tag.id}>
+                <button
+                  type="button"
+                  // mousedown fires before the input's blur, which would close the list
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    addTag(tag);
+                  }}
+                  className={`w-full text-left px-3 py-1.5 text-sm flex items-center gap-2 ${index === highlightedIndex ? 'bg-zinc-800 text-white' : 'text-zinc-300'}`}
+                >
+                  <Icon className="w-3.5 h-3.5 text-zinc-500" />
+                  {tag.name}
+                </button>
+              </li>
+            );
+          })}
+          {canAddNew && (
+            <li className={`flex items-center gap-2 px-3 py-1.5 text-sm ${highlightedIndex === matches.length ? 'bg-zinc-800' : ''}`}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(newTag);
+                }}
+                className="flex-1 min-w-0 text-left flex items-center gap-2 text-purple-300"
+              >
+                <Plus className="w-3.5 h-3.5 shrink-0" />
+                <span className="truncate">Add "{trimmed}"</span>
+                <NewTagIcon className="w-3.5 h-3.5 text-zinc-500 shrink-0" />
+              </button>
+              {/* New tags default to people - the most common thing to tag */}
+              <div className="flex items-center gap-0.5 shrink-0">
+                {TAG_KINDS.map(({ kind, label }) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      setNewTagKind(kind);
+                    }}
+                    className={`px-1.5 py-0.5 rounded text-xs transition-colors ${kind === newTagKind ? 'bg-purple-500/20 text-purple-200' : 'text-zinc-500 hover:text-zinc-300'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
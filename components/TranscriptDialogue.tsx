@@ -0,0 +1,42 @@
+import React from 'react';
+import { TranscriptUtterance } from '../types';
+import { getSpeakerName } from '../utils/captionHelpers';
+
+interface TranscriptDialogueProps {
+  utterances: TranscriptUtterance[];
+  speakerNames?: Record<string, string>;
+  currentTime: number; // Seconds
+  onSeek?: (seconds: number) => void;
+}
+
+// Rotating colors so each speaker is easy to tell apart
+const SPEAKER_COLORS = ['text-purple-400', 'text-pink-400', 'text-sky-400', 'text-amber-400', 'text-emerald-400'];
+
+export const TranscriptDialogue: React.FC<TranscriptDialogueProps> = ({ utterances, speakerNames, currentTime, onSeek }) => {
+  const speakerOrder = Array.from(new Set(utterances.map(utterance => utterance.speaker)));
+  const timeMs = currentTime * 1000;
+
+  return (
+    <div className="space-y-2">
+      {utterances.map((utterance, index) => {
+        const isActive = timeMs >= utterance.start && timeMs < utterance.end;
+        const color = SPEAKER_COLORS[speakerOrder.indexOf(utterance.speaker) % SPEAKER_COLORS.length];
+        return (
+          <button
+            key={`${utterance.start}-${index}`}
+            type="button"
+            onClick={() => onSeek?.(utterance.start / 1000)}
+            className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+              isActive ? 'bg-purple-500/10 ring-1 ring-purple-500/30' : 'hover:bg-white/5'
+            }`}
+          >
+            <span className={`block text-xs font-semibold uppercase tracking-wider mb-0.5 ${color}`}>
+              {getSpeakerName(utterance.speaker, speakerNames)}
+            </span>
+            <span className={isActive ? 'text-white' : 'text-zinc-300'}>{utterance.text}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
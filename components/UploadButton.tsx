@@ -2,7 +2,7 @@ import React, { useRef, useState } from 'react';
 import { Upload, Loader2, Video, FileText, Image as ImageIcon } from 'lucide-react';
 
 interface UploadButtonProps {
-  onUpload: (file: File) => Promise<void> | void;
+  onUpload: (files: File[]) => Promise<void> | void; // Every file picked or dropped at once
   onClick?: () => void;
   isProcessing: boolean;
   type?: 'video' | 'article' | 'image';
@@ -47,10 +47,7 @@ export const UploadButton: React.FC<UploadButtonProps> = ({ onUpload, onClick, i
 
   const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const files = Array.from(e.target.files);
-      for (const file of files) {
-        await onUpload(file);
-      }
+      await onUpload(Array.from(e.target.files));
       // Reset input
       if (inputRef.current) inputRef.current.value = '';
     }
@@ -73,7 +70,7 @@ export const UploadButton: React.FC<UploadButtonProps> = ({ onUpload, onClick, i
     e.stopPropagation();
     setDragActive(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-        const files = Array.from(e.dataTransfer.files);
+        const files = Array.from<File>(e.dataTransfer.files);
         
         // Filter valid files
         const validFiles = files.filter(file => {
@@ -83,8 +80,8 @@ export const UploadButton: React.FC<UploadButtonProps> = ({ onUpload, onClick, i
         });
         
         // Upload all valid files
-        for (const file of validFiles) {
-            await onUpload(file);
+        if (validFiles.length > 0) {
+            await onUpload(validFiles);
         }
     }
   };
@@ -1,12 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { X, Loader2 } from 'lucide-react';
+import { X, Loader2, Plus } from 'lucide-react';
+import { TagDraft } from '../types';
+import { TagInput } from './TagInput';
+import { VideoOptimizePanel } from './VideoOptimizePanel';
+import { speakerLabelForIndex } from '../utils/captionHelpers';
 
 interface UploadInfoModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (personName: string, description: string, link?: string, articleTitle?: string) => void;
+  onSubmit: (personName: string, description: string, link?: string, articleTitle?: string, speakers?: string[], tags?: TagDraft[], file?: File) => void;
   fileName: string;
+  file?: File; // Videos can be optimized before upload, in which case onSubmit gets the optimized file
   type?: 'video' | 'article' | 'image';
+  defaultPersonName?: string; // Signed-in user's profile name
 }
 
 export const UploadInfoModal: React.FC<UploadInfoModalProps> = ({
@@ -14,13 +20,30 @@ export const UploadInfoModal: React.FC<UploadInfoModalProps> = ({
   onClose,
   onSubmit,
   fileName,
-  type = 'video'
+  file,
+  type = 'video',
+  defaultPersonName = ''
 }) => {
   const [personName, setPersonName] = useState('');
   const [description, setDescription] = useState('');
   const [link, setLink] = useState('');
   const [articleTitle, setArticleTitle] = useState('');
   const [isFetchingMetadata, setIsFetchingMetadata] = useState(false);
+  const [speakers, setSpeakers] = useState<string[]>(['']); // Names in the order they speak
+  const [tags, setTags] = useState<TagDraft[]>([]);
+  const [uploadFile, setUploadFile] = useState<File | undefined>(file); // Original or optimized
+  const [isOptimizing, setIsOptimizing] = useState(false);
+
+  useEffect(() => {
+    setUploadFile(file);
+  }, [file]);
+
+  // Pre-fill the name from the signed-in profile when the modal opens
+  useEffect(() => {
+    if (isOpen && defaultPersonName) {
+      setPersonName(prev => prev || defaultPersonName);
+    }
+  }, [isOpen, defaultPersonName]);
 
   // Reset form when modal closes
   useEffect(() => {
@@ -30,9 +53,19 @@ export const UploadInfoModal: React.FC<UploadInfoModalProps> = ({
       setLink('');
       setArticleTitle('');
       setIsFetchingMetadata(false);
+      setSpeakers(['']);
+      setTags([]);
     }
   }, [isOpen]);
 
+  const updateSpeaker = (index: number, name: string) => {
+    setSpeakers(prev => prev.map((speaker, i) => (i === index ? name : speaker)));
+  };
+
+  const removeSpeaker = (index: number) => {
+    setSpeakers(prev => (prev.length > 1 ? prev.filter((_, i) => i !== index) : ['']));
+  };
+
   // Fetch metadata when link changes (for articles)
   useEffect(() => {
     if (type === 'article' && link.trim()) {
@@ -84,11 +117,15 @@ export const UploadInfoModal: React.FC<UploadInfoModalProps> = ({
         : description.trim();
       
       // For articles, pass the article title if available
-      onSubmit(personName.trim(), finalDescription, link.trim(), articleTitle.trim() || undefined);
+      // For videos, pass the speakers (in speaking order) so the transcript can be attributed
+      const namedSpeakers = type === 'video' ? speakers.map(s => s.trim()).filter(Boolean) : [];
+      onSubmit(personName.trim(), finalDescription, link.trim(), articleTitle.trim() || undefined, namedSpeakers, tags, uploadFile);
       setPersonName('');
       setDescription('');
       setLink('');
       setArticleTitle('');
+      setSpeakers(['']);
+      setTags([]);
     }
   };
 
@@ -126,7 +163,7 @@ export const UploadInfoModal: React.FC<UploadInfoModalProps> = ({
 
   const getTipText = () => {
       if (type === 'video') {
-          return "If your video is large (over 50MB), the upload might take a few minutes. Please keep this window open until it finishes.";
+          return "If your video is large (over 50MB), the upload might take a few minutes. You can keep browsing while it uploads - the uploads tray shows its progress, and it carries on next time if you close the page.";
       }
       return null;
   };
@@ -135,7 +172,7 @@ export const UploadInfoModal: React.FC<UploadInfoModalProps> = ({
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
-      <div className="bg-zinc-900 rounded-2xl border border-zinc-700 p-6 md:p-8 max-w-md w-full mx-4 shadow-2xl">
+      <div className="bg-zinc-900 rounded-2xl border border-zinc-700 p-6 md:p-8 max-w-md w-full mx-4 shadow-2xl max-h-[95vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-xl font-semibold text-zinc-100">{getTitle()}</h2>
           <button
@@ -189,6 +226,54 @@ export const UploadInfoModal: React.FC<UploadInfoModalProps> = ({
             </div>
           )}
 
+          {type === 'video' && (
+            <div>
+              <label className="block text-sm font-medium text-zinc-300 mb-2">
+                Who speaks in this video?
+                <span className="text-zinc-500 font-normal ml-1">(optional)</span>
+              </label>
+              <div className="space-y-2">
+                {speakers.map((speaker, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="w-6 text-xs font-semibold text-purple-400 text-center shrink-0">
+                      {speakerLabelForIndex(index)}
+                    </span>
+                    <input
+                      type="text"
+                      value={speaker}
+                      onChange={(e) => updateSpeaker(index, e.target.value)}
+                      placeholder={index === 0 ? 'First person to speak' : 'Next person to speak'}
+                      className="flex-1 px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+                    />
+                    {(speakers.length > 1 || speaker) && (
+                      <button
+                        type="button"
+                        onClick={() => removeSpeaker(index)}
+                        className="p-1.5 text-zinc-500 hover:text-zinc-300 transition-colors"
+                        aria-label="Remove speaker"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {speakers.length < 10 && (
+                <button
+                  type="button"
+                  onClick={() => setSpeakers(prev => [...prev, ''])}
+                  className="mt-2 flex items-center gap-1 text-xs text-purple-400 hover:text-purple-300 transition-colors"
+                >
+                  <Plus className="w-3 h-3" />
+                  Add another speaker
+                </button>
+              )}
+              <p className="mt-1 text-xs text-zinc-500">
+                List people in the order they first talk so the transcript shows who said what
+              </p>
+            </div>
+          )}
+
           {type === 'article' && (
             <div>
               <label htmlFor="link" className="block text-sm font-medium text-zinc-300 mb-2">
@@ -256,6 +341,27 @@ export const UploadInfoModal: React.FC<UploadInfoModalProps> = ({
             </div>
           )}
 
+          <div>
+            <label className="block text-sm font-medium text-zinc-300 mb-2">
+              Tags
+              <span className="text-zinc-500 font-normal ml-1">(optional)</span>
+            </label>
+            <TagInput value={tags} onChange={setTags} />
+            <p className="mt-1 text-xs text-zinc-500">
+              Who's in it, where it was and what it's about - the feed can be filtered by any of these
+            </p>
+          </div>
+
+          {type === 'video' && file && (
+            <div>
+              <label className="block text-sm font-medium text-zinc-300 mb-2">
+                Optimize before uploading
+                <span className="text-zinc-500 font-normal ml-1">(optional)</span>
+              </label>
+              <VideoOptimizePanel file={file} onChange={setUploadFile} onBusyChange={setIsOptimizing} />
+            </div>
+          )}
+
           {getTipText() && (
             <div className="bg-zinc-800/50 p-3 rounded-lg border border-zinc-700/50">
                 <h4 className="text-xs font-medium text-zinc-300 mb-1">💡 Tips for large uploads</h4>
@@ -275,7 +381,7 @@ export const UploadInfoModal: React.FC<UploadInfoModalProps> = ({
             </button>
             <button
               type="submit"
-              disabled={!personName.trim() || (type === 'video' && !description.trim()) || (type === 'article' && !link.trim()) || isFetchingMetadata}
+              disabled={!personName.trim() || (type === 'video' && !description.trim()) || (type === 'article' && !link.trim()) || isFetchingMetadata || isOptimizing}
               className="flex-1 px-4 py-2 bg-purple-500 hover:bg-purple-600 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed text-white rounded-lg transition-colors font-medium"
             >
               {isFetchingMetadata ? 'Fetching...' : getSubmitLabel()}
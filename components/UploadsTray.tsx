@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Video, Image as ImageIcon, Mic, X, RotateCcw, ChevronDown, ChevronUp, CloudUpload, CircleCheck, AlertCircle, Loader2 } from 'lucide-react';
+import { UploadTask, ProcessingJob } from '../types';
+import { ProcessingStatusBadge } from './ProcessingStatusBadge';
+import { formatFileSize } from '../utils/videoHelpers';
+
+interface UploadsTrayProps {
+  uploads: UploadTask[];
+  processingJobs: Record<string, ProcessingJob>; // Keyed by video ID
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+const isActive = (task: UploadTask) => task.status === 'queued' || task.status === 'uploading' || task.status === 'saving';
+
+const statusLabel = (task: UploadTask): string => {
+  switch (task.status) {
+    case 'queued':
+      return task.error || 'Waiting';
+    case 'uploading':
+      return `Uploading ${Math.round(task.progress)}% of ${formatFileSize(task.file.size)}`;
+    case 'saving':
+      return 'Saving';
+    case 'processing':
+    case 'done':
+      return task.moderationStatus === 'approved' ? "In Naia's feed" : 'Saved - appears once it has been checked';
+    case 'failed':
+      return task.error || 'Upload failed';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+};
+
+const isSaved = (task: UploadTask) => task.status === 'processing' || task.status === 'done';
+
+/**
+ * The files picked together most recently, if there were several
+ */
+const latestBatch = (uploads: UploadTask[]): UploadTask[] => {
+  const batchId = uploads.find(task => task.batchId)?.batchId; // Uploads come newest first
+  return batchId ? uploads.filter(task => task.batchId === batchId) : [];
+};
+
+/**
+ * Every upload on this device and where it's up to, pinned to the bottom corner so uploading
+ * carries on while browsing. Renders nothing when the queue is empty.
+ */
+export const UploadsTray: React.FC<UploadsTrayProps> = ({ uploads, processingJobs, onCancel, onRetry, onDismiss }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  if (uploads.length === 0) return null;
+
+  const activeCount = uploads.filter(isActive).length;
+  const failedCount = uploads.filter(task => task.status === 'failed').length;
+  const batch = latestBatch(uploads);
+  const batchSaved = batch.filter(isSaved).length;
+  const batchFailed = batch.filter(task => task.status === 'failed' || task.status === 'cancelled');
+  const isBatchFinished = batch.length > 0 && !batch.some(isActive);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-[calc(100%-2rem)] max-w-sm rounded-xl border border-white/10 bg-zinc-900/95 backdrop-blur-md shadow-2xl text-sm">
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="w-full flex items-center gap-2 px-4 py-3 text-zinc-200 hover:text-white transition-colors"
+      >
+        <CloudUpload className="w-4 h-4 text-purple-400" />
+        <span className="font-medium">
+          {activeCount > 0 ? `Uploading ${activeCount} file${activeCount === 1 ? '' : 's'}` : 'Uploads'}
+        </span>
+        {failedCount > 0 && <span className="text-xs text-red-300">{failedCount} failed</span>}
+        {isCollapsed ? <ChevronUp className="w-4 h-4 ml-auto" /> : <ChevronDown className="w-4 h-4 ml-auto" />}
+      </button>
+
+      {/* How the last batch went - a running count, then a summary with one-click retry */}
+      {batch.length > 1 && (
+        <div className={`flex items-center gap-2 px-4 py-2 border-t border-white/5 text-xs ${isBatchFinished && batchFailed.length > 0 ? 'text-amber-200' : 'text-zinc-400'}`}>
+          <span className="flex-1">
+            {isBatchFinished
+              ? `Batch finished: ${batchSaved} of ${batch.length} uploaded${batchFailed.length > 0 ? `, ${batchFailed.length} not` : ''}`
+              : `Batch: ${batchSaved} of ${batch.length} uploaded`}
+          </span>
+          {isBatchFinished && batchFailed.length > 0 && (
+            <button
+              onClick={() => batchFailed.forEach(task => onRetry(task.id))}
+              className="flex items-center gap-1 text-purple-300 hover:text-purple-200 transition-colors"
+            >
+              <RotateCcw className="w-3 h-3" />
+              Retry {batchFailed.length}
+            </button>
+          )}
+        </div>
+      )}
+
+      {!isCollapsed && (
+        <ul className="max-h-72 overflow-y-auto border-t border-white/5 divide-y divide-white/5">
+          {uploads.map(task => {
+            const job = task.status === 'processing' ? processingJobs[task.id] : undefined;
+            const TypeIcon = task.kind === 'video' ? Video : task.kind === 'voice' ? Mic : ImageIcon;
+            return (
+              <li key={task.id} className="px-4 py-3">
+                <div className="flex items-center gap-2">
+                  <TypeIcon className="w-4 h-4 text-zinc-500 shrink-0" />
+                  <span className="flex-1 truncate text-zinc-200" title={task.file.name}>{task.file.name}</span>
+                  {task.status === 'saving' && <Loader2 className="w-4 h-4 text-purple-400 animate-spin shrink-0" />}
+                  {isSaved(task) && <CircleCheck className="w-4 h-4 text-emerald-400 shrink-0" />}
+                  {task.status === 'failed' && <AlertCircle className="w-4 h-4 text-red-400 shrink-0" />}
+                  {(task.status === 'failed' || task.status === 'cancelled') && (
+                    <button onClick={() => onRetry(task.id)} className="p-1 rounded text-zinc-400 hover:text-white transition-colors" title="Retry">
+                      <RotateCcw className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {task.status === 'queued' || task.status === 'uploading' ? (
+                    <button onClick={() => onCancel(task.id)} className="p-1 rounded text-zinc-400 hover:text-white transition-colors" title="Cancel">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  ) : task.status !== 'saving' && (
+                    <button onClick={() => onDismiss(task.id)} className="p-1 rounded text-zinc-400 hover:text-white transition-colors" title="Remove from list">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+
+                {task.status === 'uploading' && (
+                  <div className="mt-2 h-1 rounded-full bg-zinc-800 overflow-hidden">
+                    <div className="h-full bg-purple-500 transition-all" style={{ width: `${task.progress}%` }} />
+                  </div>
+                )}
+
+                <div className="mt-1 flex items-center gap-2 pl-6">
+                  <span className={`text-xs truncate ${task.status === 'failed' ? 'text-red-300' : 'text-zinc-500'}`} title={statusLabel(task)}>
+                    {statusLabel(task)}
+                  </span>
+                  {job && <ProcessingStatusBadge job={job} />}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
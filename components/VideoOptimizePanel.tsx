@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { WandSparkles, Loader2, X, Check } from 'lucide-react';
+import { VideoMetadata, VideoOptimizeQuality } from '../types';
+import { probeVideoMetadata, formatFileSize, formatResolution } from '../utils/videoHelpers';
+import { optimizeVideo, OPTIMIZE_PRESETS, DEFAULT_OPTIMIZE_QUALITY, MAX_OPTIMIZE_BYTES } from '../utils/videoOptimizer';
+
+interface VideoOptimizePanelProps {
+  file: File;
+  onChange: (file: File) => void; // The version the uploader picked - the original until they pick otherwise
+  onBusyChange?: (isOptimizing: boolean) => void;
+}
+
+type Choice = 'original' | 'optimized';
+
+// One side of the before/after comparison
+const VersionPreview: React.FC<{
+  file: File;
+  metadata: VideoMetadata | null;
+  label: string;
+  note?: string;
+  isSelected: boolean;
+  onSelect: () => void;
+}> = ({ file, metadata, label, note, isSelected, onSelect }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={`flex-1 min-w-0 text-left rounded-lg border p-2 transition-colors ${isSelected ? 'border-purple-500 bg-purple-500/10' : 'border-zinc-700 hover:border-zinc-500'}`}
+    >
+      {previewUrl && (
+        <video src={previewUrl} controls muted playsInline preload="metadata" className="w-full aspect-video rounded bg-black object-contain" />
+      )}
+      <div className="mt-2 flex items-center gap-1.5 text-xs font-medium text-zinc-200">
+        {isSelected && <Check className="w-3.5 h-3.5 text-purple-400" />}
+        {label}
+      </div>
+      <div className="text-xs text-zinc-500">
+        {formatFileSize(file.size)}
+        {metadata?.width && metadata.height ? ` · ${formatResolution(metadata.width, metadata.height)}` : ''}
+        {note && <span className="text-emerald-400"> · {note}</span>}
+      </div>
+    </button>
+  );
+};
+
+/**
+ * Offers to re-encode a video in the browser before it's uploaded, then shows the original and the
+ * optimized version side by side (size, resolution and a playable preview) so the uploader can
+ * pick which one to send
+ */
+export const VideoOptimizePanel: React.FC<VideoOptimizePanelProps> = ({ file, onChange, onBusyChange }) => {
+  const [quality, setQuality] = useState<VideoOptimizeQuality>(DEFAULT_OPTIMIZE_QUALITY);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [optimized, setOptimized] = useState<File | null>(null);
+  const [choice, setChoice] = useState<Choice>('original');
+  const [error, setError] = useState<string | null>(null);
+  const [originalMetadata, setOriginalMetadata] = useState<VideoMetadata | null>(null);
+  const [optimizedMetadata, setOptimizedMetadata] = useState<VideoMetadata | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    probeVideoMetadata(file).then(setOriginalMetadata);
+  }, [file]);
+
+  // Stop a running encode when the dialog closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    onBusyChange?.(isOptimizing);
+  }, [isOptimizing]);
+
+  const choose = (next: Choice) => {
+    setChoice(next);
+    onChange(next === 'optimized' && optimized ? optimized : file);
+  };
+
+  const handleQualityChange = (next: VideoOptimizeQuality) => {
+    setQuality(next);
+    // A different quality needs a new encode
+    setOptimized(null);
+    setOptimizedMetadata(null);
+    choose('original');
+  };
+
+  const handleOptimize = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsOptimizing(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      const result = await optimizeVideo(file, quality, setProgress, controller.signal);
+      setOptimized(result);
+      setOptimizedMetadata(await probeVideoMetadata(result));
+      // Only worth sending if it actually came out smaller
+      const isSmaller = result.size < file.size;
+      setChoice(isSmaller ? 'optimized' : 'original');
+      onChange(isSmaller ? result : file);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Error optimizing video:', err);
+        setError('Could not optimize this video in the browser - it will upload as it is.');
+      }
+    } finally {
+      abortRef.current = null;
+      setIsOptimizing(false);
+    }
+  };
+
+  if (file.size > MAX_OPTIMIZE_BYTES) {
+    return (
+      <p className="text-xs text-zinc-500">
+        This video ({formatFileSize(file.size)}) is too large to optimize in the browser - it will upload as it is.
+      </p>
+    );
+  }
+
+  const savedPercent = optimized ? Math.round((1 - optimized.size / file.size) * 100) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={quality}
+          onChange={(e) => handleQualityChange(e.target.value as VideoOptimizeQuality)}
+          disabled={isOptimizing}
+          className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-zinc-100 focus:outline-none focus:border-purple-500"
+        >
+          {(Object.keys(OPTIMIZE_PRESETS) as VideoOptimizeQuality[]).map(key => (
+            <option key={key} value={key}>{OPTIMIZE_PRESETS[key].label}</option>
+          ))}
+        </select>
+        {isOptimizing ? (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Stop
+          </button>
+        ) : !optimized && (
+          <button
+            type="button"
+            onClick={handleOptimize}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-purple-200 bg-purple-500/15 hover:bg-purple-500/25 transition-colors"
+          >
+            <WandSparkles className="w-4 h-4" />
+            Optimize
+          </button>
+        )}
+      </div>
+
+      {isOptimizing && (
+        <div>
+          <div className="flex items-center gap-2 text-xs text-zinc-400 mb-1">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            {progress > 0 ? `Optimizing… ${Math.round(progress)}%` : 'Loading the optimizer…'}
+          </div>
+          <div className="h-1 rounded-full bg-zinc-800 overflow-hidden">
+            <div className="h-full bg-purple-500 transition-all" style={{ width: `${progress}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-amber-300">{error}</p>}
+
+      {optimized && (
+        <div className="flex gap-3">
+          <VersionPreview
+            file={file}
+            metadata={originalMetadata}
+            label="Original"
+            isSelected={choice === 'original'}
+            onSelect={() => choose('original')}
+          />
+          <VersionPreview
+            file={optimized}
+            metadata={optimizedMetadata}
+            label="Optimized"
+            note={savedPercent > 0 ? `${savedPercent}% smaller` : undefined}
+            isSelected={choice === 'optimized'}
+            onSelect={() => choose('optimized')}
+          />
+        </div>
+      )}
+
+      {!optimized && !isOptimizing && (
+        <p className="text-xs text-zinc-500">
+          {formatFileSize(file.size)}
+          {originalMetadata?.width && originalMetadata.height ? ` · ${formatResolution(originalMetadata.width, originalMetadata.height)}` : ''}
+          {' '}- optimizing makes a smaller copy to upload faster, and lets you compare before sending
+        </p>
+      )}
+    </div>
+  );
+};
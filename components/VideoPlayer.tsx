@@ -1,12 +1,104 @@
-import React from 'react';
-import { VideoEntry } from '../types';
-import { Play, Calendar, Info, MessageSquare } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { VideoEntry, TranscriptTranslation, ProcessingJob, Tag, TagDraft } from '../types';
+import { Play, Calendar, Info, MessageSquare, Captions, CaptionsOff, RefreshCw, Film, Pencil, Loader2, ShieldAlert } from 'lucide-react';
+import { LiveCaptions } from './LiveCaptions';
+import { TranscriptDialogue } from './TranscriptDialogue';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { ProcessingStatusBadge } from './ProcessingStatusBadge';
+import { TagChip } from './TagChip';
+import { TagInput } from './TagInput';
+import { VideoSuggestionCard } from './VideoSuggestionCard';
+import { getTranscriptTranslation } from '../services/translationService';
+import { baseLanguageCode, getLanguageName } from '../utils/languages';
+import { getDurationLabel, formatResolution, formatFileSize } from '../utils/videoHelpers';
 
 interface VideoPlayerProps {
   video: VideoEntry | null;
+  transcriptLanguage?: string; // '' shows the original transcript
+  onTranscriptLanguageChange?: (languageCode: string) => void;
+  processingJob?: ProcessingJob; // Latest transcription job for this video
+  onRetranscribe?: (video: VideoEntry) => void; // Admin only
+  seekTo?: { seconds: number }; // Jump to this point whenever a new object is passed (e.g. a search hit)
+  onTagClick?: (tag: Tag) => void; // e.g. filter the feed by this person
+  onSaveTags?: (video: VideoEntry, tags: TagDraft[]) => Promise<boolean>; // Uploader or moderator only
+  // Uploader or moderator only - applies the enrichment job's suggestions as edited
+  onAcceptSuggestion?: (video: VideoEntry, changes: Pick<VideoEntry, 'title' | 'summary' | 'contentWarning'>, tags: TagDraft[]) => Promise<boolean>;
 }
 
-export const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
+export const VideoPlayer: React.FC<VideoPlayerProps> = ({
+  video,
+  transcriptLanguage = '',
+  onTranscriptLanguageChange,
+  processingJob,
+  onRetranscribe,
+  seekTo,
+  onTagClick,
+  onSaveTags,
+  onAcceptSuggestion,
+}) => {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [translation, setTranslation] = useState<TranscriptTranslation | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [editedTags, setEditedTags] = useState<TagDraft[] | null>(null); // Non-null while editing
+  const [isSavingTags, setIsSavingTags] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Reset playback position when switching videos
+  useEffect(() => {
+    setCurrentTime(0);
+    setEditedTags(null);
+  }, [video?.id]);
+
+  // Load the transcript in the viewer's chosen language
+  useEffect(() => {
+    setTranslation(null);
+    if (!video?.transcription || !transcriptLanguage) return;
+    if (video.languageCode && baseLanguageCode(video.languageCode) === transcriptLanguage) return;
+
+    let cancelled = false;
+    setIsTranslating(true);
+    getTranscriptTranslation(video, transcriptLanguage).then(result => {
+      if (!cancelled) {
+        setTranslation(result);
+        setIsTranslating(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+      setIsTranslating(false);
+    };
+  }, [video?.id, video?.transcription, transcriptLanguage]);
+
+  const handleSeek = (seconds: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = seconds;
+      videoRef.current.play().catch(() => {});
+    }
+  };
+
+  // Seek once the (possibly just switched) video knows its duration
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!seekTo || !element) return;
+
+    if (element.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      handleSeek(seekTo.seconds);
+      return;
+    }
+    const handleLoadedMetadata = () => handleSeek(seekTo.seconds);
+    element.addEventListener('loadedmetadata', handleLoadedMetadata, { once: true });
+    return () => element.removeEventListener('loadedmetadata', handleLoadedMetadata);
+  }, [seekTo]);
+
+  const handleSaveTags = async () => {
+    if (!video || !editedTags || !onSaveTags) return;
+    setIsSavingTags(true);
+    const saved = await onSaveTags(video, editedTags);
+    setIsSavingTags(false);
+    if (saved) setEditedTags(null);
+  };
+
   if (!video) {
     return (
       <div className="w-full aspect-video bg-zinc-900/50 rounded-2xl border border-zinc-800 flex flex-col items-center justify-center text-zinc-500 shadow-2xl backdrop-blur-sm">
@@ -18,36 +110,155 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
     );
   }
 
+  // Show a speaker-attributed dialogue when diarization found more than one voice
+  const utterances = translation?.segments.length ? translation.segments : video.transcriptUtterances;
+  const hasDialogue = !!utterances &&
+    new Set(utterances.map(utterance => utterance.speaker)).size > 1;
+  const trackLanguage = baseLanguageCode(video.languageCode || 'en');
+  const isJobActive = processingJob?.status === 'queued' || processingJob?.status === 'processing';
+  // Translated captions need utterance timings; without them the original words stay on screen
+  const captionSegments = translation && video.transcriptUtterances?.length ? translation.segments : undefined;
+  const durationLabel = getDurationLabel(video);
+  // Technical details, shown once probed (some only after the processing worker has run)
+  const mediaDetails = [
+    video.width && video.height ? formatResolution(video.width, video.height) : null,
+    video.videoCodec?.toUpperCase(),
+    video.fileSize ? formatFileSize(video.fileSize) : null,
+    video.recordedAt ? `Recorded ${new Date(video.recordedAt).toLocaleDateString()}` : null,
+  ].filter(Boolean);
+
   return (
     <div className="w-full flex flex-col gap-4 md:gap-6 animate-in fade-in duration-500">
       {/* Main Player */}
       <div className="relative w-full aspect-video bg-black rounded-xl md:rounded-2xl overflow-hidden shadow-2xl ring-1 ring-white/10 group">
         <video
           key={video.id} // Force re-render on video change
+          ref={videoRef}
           src={video.url}
           controls
           autoPlay
+          crossOrigin="anonymous" // Required for the caption track to load from storage
           className="w-full h-full object-contain"
-        />
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        >
+          {/* Native captions for fullscreen and screen readers */}
+          {video.captionsVttUrl && (
+            <track kind="captions" src={video.captionsVttUrl} srcLang={trackLanguage} label={getLanguageName(trackLanguage)} />
+          )}
+        </video>
+
+        {/* Live captions synced to playback */}
+        {video.transcriptWords && video.transcriptWords.length > 0 && (
+          <>
+            {showCaptions && (
+              <LiveCaptions
+                words={video.transcriptWords}
+                currentTime={currentTime}
+                speakerNames={video.speakerNames}
+                segments={captionSegments}
+                className="absolute left-0 right-0 bottom-14 md:bottom-16 px-4"
+              />
+            )}
+            <button
+              onClick={() => setShowCaptions(!showCaptions)}
+              className="absolute top-3 right-3 p-2 rounded-full bg-black/40 backdrop-blur-md hover:bg-black/60 transition-colors text-white/90 hover:text-white"
+              title={showCaptions ? 'Hide captions' : 'Show captions'}
+            >
+              {showCaptions ? <Captions className="w-5 h-5" /> : <CaptionsOff className="w-5 h-5" />}
+            </button>
+          </>
+        )}
       </div>
 
       {/* Meta Info */}
       <div className="bg-zinc-900/40 border border-white/5 p-4 md:p-6 rounded-xl md:rounded-2xl backdrop-blur-md">
         <h1 className="text-2xl md:text-3xl font-bold text-white mb-2 tracking-tight">{video.title}</h1>
+        {video.summary && (
+          <p className="text-sm md:text-base text-zinc-300 mb-3">{video.summary}</p>
+        )}
         <div className="flex items-center gap-4 text-xs md:text-sm text-zinc-400 mb-4">
             <span className="flex items-center gap-1.5">
                 <Calendar className="w-3 h-3 md:w-4 md:h-4" />
                 {new Date(video.timestamp).toLocaleDateString()}
             </span>
-            <span className="w-1 h-1 bg-zinc-600 rounded-full" />
-            <span>{video.durationString}</span>
+            {durationLabel && (
+              <>
+                <span className="w-1 h-1 bg-zinc-600 rounded-full" />
+                <span>{durationLabel}</span>
+              </>
+            )}
+            <ProcessingStatusBadge job={processingJob} />
+            {onRetranscribe && (
+              <button
+                onClick={() => onRetranscribe(video)}
+                disabled={isJobActive}
+                className="ml-auto flex items-center gap-1.5 px-2.5 py-1 rounded-full border border-white/10 text-zinc-300 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                title={isJobActive ? 'Transcription already in progress' : 'Queue this video for transcription again'}
+              >
+                <RefreshCw className="w-3 h-3 md:w-4 md:h-4" />
+                Re-transcribe
+              </button>
+            )}
         </div>
+        {mediaDetails.length > 0 && (
+          <div className="flex items-center gap-1.5 text-xs text-zinc-500 mb-4">
+            <Film className="w-3 h-3 md:w-4 md:h-4" />
+            <span>{mediaDetails.join(' · ')}</span>
+          </div>
+        )}
+        {video.contentWarning && (
+          <div className="flex items-start gap-2 px-3 py-2 mb-4 rounded-lg bg-amber-500/10 border border-amber-500/20 text-amber-200 text-xs md:text-sm">
+            <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>{video.contentWarning}</span>
+          </div>
+        )}
+        {onAcceptSuggestion && <VideoSuggestionCard video={video} onAccept={onAcceptSuggestion} />}
         {video.description && (
           <div className="flex items-start gap-2 text-zinc-300 leading-relaxed text-sm md:text-base mb-4">
             <Info className="w-4 h-4 md:w-5 md:h-5 mt-0.5 text-purple-400 shrink-0" />
             <p>{video.description}</p>
           </div>
         )}
+
+        {/* Tags - dashed ones were suggested from the description and await confirmation */}
+        {editedTags ? (
+          <div className="flex flex-col gap-2 mb-4">
+            <TagInput value={editedTags} onChange={setEditedTags} disabled={isSavingTags} />
+            <div className="flex items-center justify-end gap-2">
+              <button
+                onClick={() => setEditedTags(null)}
+                disabled={isSavingTags}
+                className="px-3 py-1 rounded-lg text-xs md:text-sm text-zinc-400 hover:text-white transition-colors disabled:opacity-40"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveTags}
+                disabled={isSavingTags}
+                className="flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs md:text-sm bg-purple-600 hover:bg-purple-500 text-white transition-colors disabled:opacity-40"
+              >
+                {isSavingTags && <Loader2 className="w-3 h-3 animate-spin" />}
+                Save tags
+              </button>
+            </div>
+          </div>
+        ) : ((video.tags && video.tags.length > 0) || onSaveTags) && (
+          <div className="flex flex-wrap items-center gap-1.5 mb-4">
+            {video.tags?.map(tag => (
+              <TagChip key={tag.id} tag={tag} onClick={onTagClick ? () => onTagClick(tag) : undefined} />
+            ))}
+            {onSaveTags && (
+              <button
+                onClick={() => setEditedTags(video.tags?.map(({ kind, name }) => ({ kind, name })) || [])}
+                className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs text-zinc-500 hover:text-zinc-200 transition-colors"
+                title="Edit who and what this video is tagged with"
+              >
+                <Pencil className="w-3 h-3" />
+                {video.tags?.length ? 'Edit tags' : 'Add tags'}
+              </button>
+            )}
+          </div>
+        )}
         
         {/* Transcription */}
         {video.transcription && (
@@ -55,10 +266,29 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
             <div className="flex items-start gap-2 text-zinc-200 leading-relaxed text-sm md:text-base">
               <MessageSquare className="w-4 h-4 md:w-5 md:h-5 mt-0.5 text-purple-400 shrink-0" />
               <div className="flex-1">
-                <h3 className="text-xs md:text-sm font-semibold text-zinc-400 uppercase tracking-wider mb-2">
-                  Transcription
-                </h3>
-                <p className="text-zinc-300 whitespace-pre-wrap">{video.transcription}</p>
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <h3 className="text-xs md:text-sm font-semibold text-zinc-400 uppercase tracking-wider">
+                    Transcription
+                  </h3>
+                  {onTranscriptLanguageChange && (
+                    <LanguageSwitcher
+                      value={transcriptLanguage}
+                      onChange={onTranscriptLanguageChange}
+                      detectedLanguage={video.languageCode}
+                      isTranslating={isTranslating}
+                    />
+                  )}
+                </div>
+                {hasDialogue ? (
+                  <TranscriptDialogue
+                    utterances={utterances!}
+                    speakerNames={video.speakerNames}
+                    currentTime={currentTime}
+                    onSeek={handleSeek}
+                  />
+                ) : (
+                  <p className="text-zinc-300 whitespace-pre-wrap">{translation?.text || video.transcription}</p>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,373 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Circle, Square, RotateCcw, Check, ScrollText, Loader2, CameraOff } from 'lucide-react';
+import { formatDuration } from '../utils/videoHelpers';
+import {
+  MAX_VIDEO_RECORDING_SECONDS,
+  RECORDING_COUNTDOWN_SECONDS,
+  pickVideoRecordingType,
+  recordingToFile,
+  describeMediaAccessError,
+} from '../utils/recordingHelpers';
+
+interface VideoRecorderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRecorded: (file: File) => void; // The take the contributor chose to keep
+}
+
+type RecorderPhase = 'starting' | 'ready' | 'countdown' | 'recording' | 'preview' | 'error';
+
+// Pixels the notes scroll per second while recording
+const PROMPTER_SPEEDS = [
+  { label: 'Off', value: 0 },
+  { label: 'Slow', value: 15 },
+  { label: 'Medium', value: 30 },
+  { label: 'Fast', value: 50 },
+];
+
+/**
+ * Records a message straight from the camera: a countdown, a time limit, notes shown over the
+ * picture as a teleprompter, and a preview to keep or retake before it goes on to the usual
+ * upload details
+ */
+export const VideoRecorderModal: React.FC<VideoRecorderModalProps> = ({ isOpen, onClose, onRecorded }) => {
+  const [phase, setPhase] = useState<RecorderPhase>('starting');
+  const [error, setError] = useState<string | null>(null);
+  const [countdown, setCountdown] = useState(RECORDING_COUNTDOWN_SECONDS);
+  const [elapsed, setElapsed] = useState(0);
+  const [recording, setRecording] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [showNotes, setShowNotes] = useState(false);
+  const [prompterSpeed, setPrompterSpeed] = useState(PROMPTER_SPEEDS[1].value);
+
+  const liveVideoRef = useRef<HTMLVideoElement>(null);
+  const prompterRef = useRef<HTMLDivElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+
+  // Open the camera while the modal is showing, and let go of it as soon as it closes
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCancelled = false;
+
+    // Missing outside secure (https) pages and in older browsers
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError(describeMediaAccessError(null));
+      setPhase('error');
+      return;
+    }
+
+    setPhase('starting');
+    setError(null);
+    navigator.mediaDevices
+      .getUserMedia({
+        video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } },
+        audio: { echoCancellation: true, noiseSuppression: true },
+      })
+      .then(stream => {
+        if (isCancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        setPhase('ready');
+      })
+      .catch(err => {
+        if (isCancelled) return;
+        console.error('Error opening camera:', err);
+        setError(describeMediaAccessError(err));
+        setPhase('error');
+      });
+
+    return () => {
+      isCancelled = true;
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
+      }
+      recorderRef.current = null;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+      setRecording(null);
+      setElapsed(0);
+    };
+  }, [isOpen]);
+
+  // The live picture is a separate element from the preview, so reattach the stream whenever it's shown
+  useEffect(() => {
+    if (liveVideoRef.current && streamRef.current && phase !== 'preview') {
+      liveVideoRef.current.srcObject = streamRef.current;
+    }
+  }, [phase]);
+
+  useEffect(() => {
+    if (!recording) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(recording);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+
+  // 3, 2, 1...
+  useEffect(() => {
+    if (phase !== 'countdown') return;
+    if (countdown === 0) {
+      startRecording();
+      return;
+    }
+    const timeout = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [phase, countdown]);
+
+  // Recording clock, which also enforces the time limit
+  useEffect(() => {
+    if (phase !== 'recording') return;
+    const startedAt = Date.now();
+    const interval = setInterval(() => {
+      const seconds = (Date.now() - startedAt) / 1000;
+      setElapsed(seconds);
+      if (seconds >= MAX_VIDEO_RECORDING_SECONDS) stopRecording();
+    }, 250);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  // Teleprompter: scroll the notes while recording
+  useEffect(() => {
+    if (phase !== 'recording' || !prompterSpeed || !prompterRef.current) return;
+    const prompter = prompterRef.current;
+    prompter.scrollTop = 0;
+    let frame = 0;
+    let last = performance.now();
+    const step = (now: number) => {
+      prompter.scrollTop += (prompterSpeed * (now - last)) / 1000;
+      last = now;
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [phase, prompterSpeed]);
+
+  const startRecording = () => {
+    const stream = streamRef.current;
+    if (!stream) return;
+
+    const mimeType = pickVideoRecordingType();
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 2_500_000 });
+    } catch (err) {
+      console.error('Error starting recorder:', err);
+      setError('This browser cannot record video. Record on your device and upload the file instead.');
+      setPhase('error');
+      return;
+    }
+
+    chunksRef.current = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    recorder.onstop = () => {
+      setRecording(recordingToFile(chunksRef.current, recorder.mimeType || mimeType || 'video/webm', 'Recorded message'));
+      setPhase('preview');
+    };
+
+    recorderRef.current = recorder;
+    // Timesliced so a long take isn't held in one buffer until the end
+    recorder.start(1000);
+    setElapsed(0);
+    setPhase('recording');
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+    recorderRef.current = null;
+  };
+
+  const handleStart = () => {
+    setCountdown(RECORDING_COUNTDOWN_SECONDS);
+    setPhase('countdown');
+  };
+
+  const handleRetake = () => {
+    setRecording(null);
+    setElapsed(0);
+    setPhase('ready');
+  };
+
+  const handleUseRecording = () => {
+    if (recording) onRecorded(recording);
+  };
+
+  if (!isOpen) return null;
+
+  const remaining = Math.max(0, MAX_VIDEO_RECORDING_SECONDS - elapsed);
+  const isLive = phase === 'ready' || phase === 'countdown' || phase === 'recording';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-zinc-900 rounded-2xl border border-zinc-700 p-6 max-w-2xl w-full mx-4 shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-zinc-100">Record a message</h2>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-zinc-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="relative aspect-video rounded-xl bg-black overflow-hidden">
+          {phase === 'starting' && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-zinc-400 text-sm">
+              <Loader2 className="w-6 h-6 animate-spin" />
+              Opening your camera…
+            </div>
+          )}
+
+          {phase === 'error' && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 p-6 text-center text-sm text-zinc-300">
+              <CameraOff className="w-8 h-8 text-zinc-500" />
+              {error}
+            </div>
+          )}
+
+          {isLive && (
+            // Mirrored like a mirror so it feels natural; the recording itself isn't flipped
+            <video ref={liveVideoRef} autoPlay muted playsInline className="w-full h-full object-cover -scale-x-100" />
+          )}
+
+          {phase === 'preview' && previewUrl && (
+            <video src={previewUrl} controls playsInline className="w-full h-full object-contain" />
+          )}
+
+          {isLive && showNotes && notes.trim() && (
+            <div
+              ref={prompterRef}
+              className="absolute inset-x-0 top-0 max-h-[45%] overflow-y-auto bg-black/55 px-6 py-4 text-lg leading-relaxed text-white whitespace-pre-wrap text-center"
+            >
+              {notes}
+            </div>
+          )}
+
+          {phase === 'countdown' && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+              <span className="text-7xl font-bold text-white drop-shadow-lg">{countdown || ''}</span>
+            </div>
+          )}
+
+          {phase === 'recording' && (
+            <div className="absolute bottom-3 left-3 flex items-center gap-2 rounded-full bg-black/60 px-3 py-1 text-sm text-white">
+              <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" />
+              {formatDuration(elapsed)}
+              <span className={remaining <= 30 ? 'text-amber-300' : 'text-zinc-400'}>· {formatDuration(remaining)} left</span>
+            </div>
+          )}
+        </div>
+
+        {/* Notes for the teleprompter - written before recording, shown over the picture while talking */}
+        {(phase === 'ready' || phase === 'starting') && (
+          <div className="mt-4">
+            <button
+              type="button"
+              onClick={() => setShowNotes(!showNotes)}
+              className="flex items-center gap-1.5 text-sm text-purple-400 hover:text-purple-300 transition-colors"
+            >
+              <ScrollText className="w-4 h-4" />
+              {showNotes ? 'Hide notes' : 'Add notes to read from'}
+            </button>
+            {showNotes && (
+              <div className="mt-2 space-y-2">
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="What you'd like to say - it scrolls over the picture while you record"
+                  rows={4}
+                  className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500 resize-none"
+                />
+                <label className="flex items-center gap-2 text-xs text-zinc-400">
+                  Scrolling
+                  <select
+                    value={prompterSpeed}
+                    onChange={(e) => setPrompterSpeed(Number(e.target.value))}
+                    className="px-2 py-1 bg-zinc-800 border border-zinc-700 rounded text-xs text-zinc-100 focus:outline-none focus:border-purple-500"
+                  >
+                    {PROMPTER_SPEEDS.map(speed => (
+                      <option key={speed.value} value={speed.value}>{speed.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="mt-5 flex gap-3">
+          {phase === 'ready' && (
+            <button
+              onClick={handleStart}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors font-medium"
+            >
+              <Circle className="w-4 h-4 fill-current" />
+              Start recording
+            </button>
+          )}
+          {phase === 'countdown' && (
+            <button
+              onClick={() => setPhase('ready')}
+              className="flex-1 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          {phase === 'recording' && (
+            <button
+              onClick={stopRecording}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-zinc-100 hover:bg-white text-zinc-900 rounded-lg transition-colors font-medium"
+            >
+              <Square className="w-4 h-4 fill-current" />
+              Stop
+            </button>
+          )}
+          {phase === 'preview' && (
+            <>
+              <button
+                onClick={handleRetake}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Retake
+              </button>
+              <button
+                onClick={handleUseRecording}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors font-medium"
+              >
+                <Check className="w-4 h-4" />
+                Use this recording
+              </button>
+            </>
+          )}
+          {phase === 'error' && (
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors"
+            >
+              Close
+            </button>
+          )}
+        </div>
+
+        {phase === 'ready' && (
+          <p className="mt-3 text-xs text-zinc-500 text-center">
+            Up to {MAX_VIDEO_RECORDING_SECONDS / 60} minutes. You can watch it back and retake before anything is uploaded.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
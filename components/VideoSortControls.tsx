@@ -0,0 +1,58 @@
+import React from 'react';
+import { ArrowUpDown, Clock } from 'lucide-react';
+import { DurationFilter, VideoSortOrder, VIDEO_SORT_OPTIONS, DURATION_FILTER_OPTIONS } from '../utils/videoSorting';
+
+interface VideoSortControlsProps {
+  sortOrder: VideoSortOrder;
+  onSortOrderChange: (order: VideoSortOrder) => void;
+  durationFilter: DurationFilter;
+  onDurationFilterChange: (filter: DurationFilter) => void;
+  overlay?: boolean; // Translucent style for use on top of video
+  className?: string;
+}
+
+export const VideoSortControls: React.FC<VideoSortControlsProps> = ({
+  sortOrder,
+  onSortOrderChange,
+  durationFilter,
+  onDurationFilterChange,
+  overlay = false,
+  className = '',
+}) => {
+  const pillClass = overlay
+    ? 'bg-black/40 backdrop-blur-md border-white/10 text-white/90'
+    : 'bg-zinc-800/50 border-white/5';
+
+  return (
+    <div className={`flex items-center gap-2 text-xs md:text-sm text-zinc-300 ${className}`}>
+      <label className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-full border ${pillClass}`} title="Sort messages">
+        <ArrowUpDown className="w-3.5 h-3.5" />
+        <select
+          value={sortOrder}
+          onChange={(e) => onSortOrderChange(e.target.value as VideoSortOrder)}
+          className="bg-transparent focus:outline-none cursor-pointer"
+        >
+          {VIDEO_SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value} className="bg-zinc-900">
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-full border ${pillClass}`} title="Filter by length">
+        <Clock className="w-3.5 h-3.5" />
+        <select
+          value={durationFilter}
+          onChange={(e) => onDurationFilterChange(e.target.value as DurationFilter)}
+          className="bg-transparent focus:outline-none cursor-pointer"
+        >
+          {DURATION_FILTER_OPTIONS.map(option => (
+            <option key={option.value} value={option.value} className="bg-zinc-900">
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
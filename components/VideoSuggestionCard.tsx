@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { Sparkles, Check, X, Loader2 } from 'lucide-react';
+import { VideoEntry, VideoSuggestion, TagDraft } from '../types';
+import { TagInput } from './TagInput';
+import { fetchVideoSuggestion, setVideoSuggestionStatus } from '../services/suggestionService';
+import { isSameTag } from '../utils/tagHelpers';
+
+interface VideoSuggestionCardProps {
+  video: VideoEntry;
+  onAccept: (video: VideoEntry, changes: Pick<VideoEntry, 'title' | 'summary' | 'contentWarning'>, tags: TagDraft[]) => Promise<boolean>;
+}
+
+/**
+ * The video's current tags plus the people and themes the model spotted, once each
+ */
+const mergeSuggestedTags = (video: VideoEntry, suggestion: VideoSuggestion): TagDraft[] => {
+  const tags: TagDraft[] = (video.tags || []).map(({ kind, name }) => ({ kind, name }));
+  const suggested: TagDraft[] = [
+    ...suggestion.people.map((name): TagDraft => ({ kind: 'person', name })),
+    ...suggestion.themes.map((name): TagDraft => ({ kind: 'theme', name })),
+  ];
+  suggested.forEach(tag => {
+    if (!tags.some(existing => isSameTag(existing, tag))) tags.push(tag);
+  });
+  return tags;
+};
+
+const inputClass = 'w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500';
+
+/**
+ * Shows the uploader what the enrichment job suggested for their video, ready to edit, and
+ * applies it only when they say so. Renders nothing unless there's a pending suggestion.
+ */
+export const VideoSuggestionCard: React.FC<VideoSuggestionCardProps> = ({ video, onAccept }) => {
+  const [suggestion, setSuggestion] = useState<VideoSuggestion | null>(null);
+  const [title, setTitle] = useState('');
+  const [summary, setSummary] = useState('');
+  const [contentWarning, setContentWarning] = useState('');
+  const [tags, setTags] = useState<TagDraft[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSuggestion(null);
+    fetchVideoSuggestion(video.id).then(result => {
+      if (cancelled || result?.status !== 'pending') return;
+      setSuggestion(result);
+      setTitle(result.title || video.title);
+      setSummary(result.summary || video.summary || '');
+      setContentWarning(result.contentWarning || video.contentWarning || '');
+      setTags(mergeSuggestedTags(video, result));
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Only refetch for another video - edits to this one shouldn't reset the form
+  }, [video.id]);
+
+  if (!suggestion) return null;
+
+  const handleAccept = async () => {
+    setIsSaving(true);
+    const saved = await onAccept(video, {
+      title: title.trim() || video.title,
+      summary: summary.trim() || undefined,
+      contentWarning: contentWarning.trim() || undefined,
+    }, tags);
+    setIsSaving(false);
+    if (saved) setSuggestion(null);
+  };
+
+  const handleDismiss = async () => {
+    setIsSaving(true);
+    const dismissed = await setVideoSuggestionStatus(video.id, 'dismissed');
+    setIsSaving(false);
+    if (dismissed) setSuggestion(null);
+  };
+
+  return (
+    <div className="mb-4 p-4 rounded-xl border border-purple-500/20 bg-purple-500/5 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-purple-200">
+        <Sparkles className="w-4 h-4" />
+        Suggested from the transcript and video
+      </div>
+
+      <div>
+        <label htmlFor="suggestedTitle" className="block text-xs text-zinc-400 mb-1">Title</label>
+        <input
+          id="suggestedTitle"
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          disabled={isSaving}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="suggestedSummary" className="block text-xs text-zinc-400 mb-1">Summary</label>
+        <input
+          id="suggestedSummary"
+          type="text"
+          value={summary}
+          onChange={(e) => setSummary(e.target.value)}
+          placeholder="One line on what the message is about"
+          disabled={isSaving}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="suggestedContentWarning" className="block text-xs text-zinc-400 mb-1">
+          Content warning <span className="text-zinc-600">(leave empty for none)</span>
+        </label>
+        <input
+          id="suggestedContentWarning"
+          type="text"
+          value={contentWarning}
+          onChange={(e) => setContentWarning(e.target.value)}
+          placeholder="e.g. Talks about Grandpa's illness"
+          disabled={isSaving}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <span className="block text-xs text-zinc-400 mb-1">People and themes</span>
+        <TagInput value={tags} onChange={setTags} disabled={isSaving} />
+      </div>
+
+      <div className="flex items-center justify-end gap-2 pt-1">
+        <button
+          onClick={handleDismiss}
+          disabled={isSaving}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs md:text-sm text-zinc-400 hover:text-white transition-colors disabled:opacity-40"
+        >
+          <X className="w-3.5 h-3.5" />
+          Dismiss
+        </button>
+        <button
+          onClick={handleAccept}
+          disabled={isSaving}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs md:text-sm bg-purple-600 hover:bg-purple-500 text-white transition-colors disabled:opacity-40"
+        >
+          {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+          Use these
+        </button>
+      </div>
+    </div>
+  );
+};
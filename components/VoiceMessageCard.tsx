@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Pause, Calendar, Clock, Mic, MessageSquare } from 'lucide-react';
+import { VoiceEntry } from '../types';
+import { Waveform } from './Waveform';
+import { LiveCaptions } from './LiveCaptions';
+import { formatDuration } from '../utils/videoHelpers';
+
+interface VoiceMessageCardProps {
+  voice: VoiceEntry;
+  isMuted?: boolean;
+  autoPlay?: boolean; // Play while scrolled into view, like the feed's videos
+  className?: string; // Sizing - a full feed page by default
+}
+
+const initialsOf = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+
+/**
+ * A voice message in Naia's feed: who it's from, their photo and the waveform, with live
+ * captions while it plays. Like the videos around it, it plays when scrolled into view.
+ */
+export const VoiceMessageCard: React.FC<VoiceMessageCardProps> = ({
+  voice,
+  isMuted = false,
+  autoPlay = true,
+  className = 'h-[calc(100vh-4rem)] snap-start snap-always',
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(voice.durationSeconds || 0);
+
+  // Play while most of the card is on screen
+  useEffect(() => {
+    const container = containerRef.current;
+    const audio = audioRef.current;
+    if (!autoPlay || !container || !audio) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && entry.intersectionRatio > 0.5) {
+          audio.play().catch(() => {
+            // Auto-play might be blocked until she taps, that's okay
+          });
+        } else {
+          audio.pause();
+        }
+      },
+      { threshold: [0, 0.5, 1] }
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [autoPlay]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(() => {});
+    } else {
+      audio.pause();
+    }
+  };
+
+  const handleSeek = (fraction: number) => {
+    const audio = audioRef.current;
+    if (audio && duration > 0) audio.currentTime = fraction * duration;
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      data-voice-id={voice.id}
+      className={`${className} w-full relative bg-gradient-to-b from-zinc-950 via-purple-950/40 to-black flex flex-col items-center justify-center px-6`}
+    >
+      <audio
+        ref={audioRef}
+        src={voice.url}
+        loop
+        muted={isMuted}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onLoadedMetadata={(e) => {
+          // Recorded files don't always carry their length - keep the one saved with the message then
+          if (Number.isFinite(e.currentTarget.duration)) setDuration(e.currentTarget.duration);
+        }}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+      />
+
+      {/* Speaker */}
+      <button
+        onClick={togglePlayback}
+        className="relative mb-6"
+        aria-label={isPlaying ? 'Pause' : 'Play'}
+      >
+        <span className={`absolute -inset-3 rounded-full bg-purple-500/20 ${isPlaying ? 'animate-pulse' : 'opacity-0'}`} />
+        {voice.speakerPhotoUrl ? (
+          <img
+            src={voice.speakerPhotoUrl}
+            alt={voice.personName}
+            className="relative w-32 h-32 md:w-40 md:h-40 rounded-full object-cover border-4 border-purple-500/40"
+          />
+        ) : (
+          <span className="relative w-32 h-32 md:w-40 md:h-40 rounded-full bg-purple-500/20 border-4 border-purple-500/40 flex items-center justify-center text-4xl md:text-5xl font-semibold text-purple-200">
+            {initialsOf(voice.personName)}
+          </span>
+        )}
+        <span className="absolute bottom-1 right-1 w-10 h-10 rounded-full bg-purple-500 text-white flex items-center justify-center shadow-lg">
+          {isPlaying ? <Pause className="w-4 h-4 fill-current" /> : <Play className="w-4 h-4 fill-current ml-0.5" />}
+        </span>
+      </button>
+
+      <div className="flex items-center gap-1.5 text-sm text-purple-300 mb-1">
+        <Mic className="w-4 h-4" />
+        Voice message from {voice.personName}
+      </div>
+      <h2 className="text-xl md:text-2xl lg:text-3xl font-bold text-white text-center tracking-tight mb-3">
+        {voice.title}
+      </h2>
+      <div className="flex items-center gap-3 md:gap-4 text-xs md:text-sm text-zinc-300 mb-6">
+        <span className="flex items-center gap-1.5">
+          <Calendar className="w-3 h-3 md:w-4 md:h-4" />
+          {new Date(voice.timestamp).toLocaleDateString()}
+        </span>
+        {duration > 0 && (
+          <span className="flex items-center gap-1.5">
+            <Clock className="w-3 h-3 md:w-4 md:h-4" />
+            {formatDuration(duration)}
+          </span>
+        )}
+      </div>
+
+      {voice.waveform.length > 0 && (
+        <Waveform
+          levels={voice.waveform}
+          progress={duration > 0 ? currentTime / duration : 0}
+          onSeek={handleSeek}
+          className="w-full max-w-xl h-16 md:h-20"
+        />
+      )}
+
+      {/* Live captions, following along with the voice */}
+      {voice.transcriptWords && voice.transcriptWords.length > 0 ? (
+        <LiveCaptions
+          words={voice.transcriptWords}
+          currentTime={currentTime}
+          speakerNames={voice.speakerNames}
+          className="w-full mt-8 min-h-[4rem]"
+        />
+      ) : voice.transcription ? (
+        <div className="mt-8 max-w-xl flex items-start gap-2 text-zinc-200">
+          <MessageSquare className="w-4 h-4 mt-0.5 text-purple-400 shrink-0" />
+          <p className="text-sm leading-relaxed line-clamp-3">{voice.transcription}</p>
+        </div>
+      ) : voice.description ? (
+        <p className="mt-8 max-w-xl text-sm text-zinc-400 text-center">{voice.description}</p>
+      ) : null}
+    </div>
+  );
+};
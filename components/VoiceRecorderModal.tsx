@@ -0,0 +1,404 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Mic, Square, RotateCcw, Play, Pause, Send, Loader2, MicOff } from 'lucide-react';
+import { UploadDetails } from '../types';
+import { Waveform } from './Waveform';
+import { formatDuration } from '../utils/videoHelpers';
+import { computeWaveform } from '../utils/audioHelpers';
+import {
+  MAX_VOICE_RECORDING_SECONDS,
+  pickAudioRecordingType,
+  recordingToFile,
+  describeMediaAccessError,
+} from '../utils/recordingHelpers';
+
+interface VoiceRecorderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (file: File, details: UploadDetails) => void;
+  defaultPersonName?: string; // Signed-in user's profile name
+}
+
+type RecorderPhase = 'starting' | 'ready' | 'recording' | 'preview' | 'error';
+
+const LIVE_BARS = 48; // Levels shown scrolling past while recording
+const WAVEFORM_BARS = 64; // Levels stored with the message
+
+const inputClass = 'w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500';
+
+/**
+ * Records a voice note from the microphone with a live level meter, plays it back with its
+ * waveform to keep or retake, and asks who it's from before it joins the upload queue
+ */
+export const VoiceRecorderModal: React.FC<VoiceRecorderModalProps> = ({ isOpen, onClose, onSubmit, defaultPersonName = '' }) => {
+  const [phase, setPhase] = useState<RecorderPhase>('starting');
+  const [error, setError] = useState<string | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [liveLevels, setLiveLevels] = useState<number[]>(() => new Array(LIVE_BARS).fill(0));
+  const [recording, setRecording] = useState<File | null>(null);
+  const [waveform, setWaveform] = useState<number[]>([]);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackProgress, setPlaybackProgress] = useState(0);
+  const [personName, setPersonName] = useState(defaultPersonName);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const durationRef = useRef(0);
+
+  useEffect(() => {
+    if (isOpen && defaultPersonName) {
+      setPersonName(prev => prev || defaultPersonName);
+    }
+  }, [isOpen, defaultPersonName]);
+
+  // Open the microphone while the modal is showing, and let go of it as soon as it closes
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCancelled = false;
+
+    // Missing outside secure (https) pages and in older browsers
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError(describeMediaAccessError(null));
+      setPhase('error');
+      return;
+    }
+
+    setPhase('starting');
+    setError(null);
+    navigator.mediaDevices
+      .getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+      .then(stream => {
+        if (isCancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+
+        // Feeds the level meter
+        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 512;
+        audioContext.createMediaStreamSource(stream).connect(analyser);
+        audioContextRef.current = audioContext;
+        analyserRef.current = analyser;
+
+        setPhase('ready');
+      })
+      .catch(err => {
+        if (isCancelled) return;
+        console.error('Error opening microphone:', err);
+        setError(describeMediaAccessError(err));
+        setPhase('error');
+      });
+
+    return () => {
+      isCancelled = true;
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
+      }
+      recorderRef.current = null;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+      analyserRef.current = null;
+      setRecording(null);
+      setWaveform([]);
+      setElapsed(0);
+      setTitle('');
+      setDescription('');
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    setIsPlaying(false);
+    setPlaybackProgress(0);
+    if (!recording) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(recording);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+
+  // Recording clock and level meter; also enforces the time limit
+  useEffect(() => {
+    if (phase !== 'recording') return;
+    const startedAt = Date.now();
+    const samples = new Uint8Array(analyserRef.current?.fftSize || 512);
+    const interval = setInterval(() => {
+      const seconds = (Date.now() - startedAt) / 1000;
+      durationRef.current = seconds;
+      setElapsed(seconds);
+
+      const analyser = analyserRef.current;
+      if (analyser) {
+        analyser.getByteTimeDomainData(samples);
+        // RMS of the last few milliseconds, boosted since speech rarely gets near full scale
+        let sum = 0;
+        for (const sample of samples) sum += ((sample - 128) / 128) ** 2;
+        const level = Math.min(1, Math.sqrt(sum / samples.length) * 4);
+        setLiveLevels(prev => [...prev.slice(1), level]);
+      }
+
+      if (seconds >= MAX_VOICE_RECORDING_SECONDS) stopRecording();
+    }, 100);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  const startRecording = () => {
+    const stream = streamRef.current;
+    if (!stream) return;
+
+    const mimeType = pickAudioRecordingType();
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: 64_000 });
+    } catch (err) {
+      console.error('Error starting recorder:', err);
+      setError('This browser cannot record audio.');
+      setPhase('error');
+      return;
+    }
+
+    chunksRef.current = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    recorder.onstop = async () => {
+      const file = recordingToFile(chunksRef.current, recorder.mimeType || mimeType || 'audio/webm', 'Voice message');
+      setWaveform(await computeWaveform(file, WAVEFORM_BARS));
+      setRecording(file);
+      setPhase('preview');
+    };
+
+    recorderRef.current = recorder;
+    recorder.start(1000);
+    durationRef.current = 0;
+    setElapsed(0);
+    setLiveLevels(new Array(LIVE_BARS).fill(0));
+    setPhase('recording');
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+    recorderRef.current = null;
+  };
+
+  const handleRetake = () => {
+    setRecording(null);
+    setWaveform([]);
+    setElapsed(0);
+    setPhase('ready');
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(() => {});
+    } else {
+      audio.pause();
+    }
+  };
+
+  const handleSeek = (fraction: number) => {
+    const audio = audioRef.current;
+    // MediaRecorder files often don't know their own length, so fall back to the recording clock
+    const duration = audio && Number.isFinite(audio.duration) ? audio.duration : durationRef.current;
+    if (audio && duration > 0) audio.currentTime = fraction * duration;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recording || !personName.trim()) return;
+    onSubmit(recording, {
+      personName: personName.trim(),
+      title: title.trim() || undefined,
+      description: description.trim(),
+      speakers: [],
+      tags: [],
+      waveform,
+      durationSeconds: Math.round(durationRef.current * 10) / 10,
+    });
+  };
+
+  if (!isOpen) return null;
+
+  const remaining = Math.max(0, MAX_VOICE_RECORDING_SECONDS - elapsed);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-zinc-900 rounded-2xl border border-zinc-700 p-6 max-w-md w-full mx-4 shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold text-zinc-100">Leave a voice message</h2>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-zinc-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {phase === 'starting' && (
+          <div className="flex flex-col items-center gap-2 py-10 text-zinc-400 text-sm">
+            <Loader2 className="w-6 h-6 animate-spin" />
+            Opening your microphone…
+          </div>
+        )}
+
+        {phase === 'error' && (
+          <div className="flex flex-col items-center gap-3 py-8 text-center text-sm text-zinc-300">
+            <MicOff className="w-8 h-8 text-zinc-500" />
+            {error}
+            <button
+              onClick={onClose}
+              className="mt-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        )}
+
+        {(phase === 'ready' || phase === 'recording') && (
+          <div className="flex flex-col items-center gap-5 py-4">
+            <Waveform levels={liveLevels} progress={phase === 'recording' ? 1 : 0} className="w-full h-16" />
+            <div className="text-sm text-zinc-400">
+              {phase === 'recording' ? (
+                <>
+                  <span className="text-zinc-100 font-medium">{formatDuration(elapsed)}</span>
+                  <span className={remaining <= 15 ? 'text-amber-300' : ''}> · {formatDuration(remaining)} left</span>
+                </>
+              ) : (
+                `Up to ${MAX_VOICE_RECORDING_SECONDS / 60} minutes`
+              )}
+            </div>
+            {phase === 'ready' ? (
+              <button
+                onClick={startRecording}
+                className="w-16 h-16 rounded-full bg-red-500 hover:bg-red-600 text-white flex items-center justify-center transition-colors shadow-lg"
+                aria-label="Start recording"
+              >
+                <Mic className="w-7 h-7" />
+              </button>
+            ) : (
+              <button
+                onClick={stopRecording}
+                className="w-16 h-16 rounded-full bg-zinc-100 hover:bg-white text-zinc-900 flex items-center justify-center transition-colors shadow-lg"
+                aria-label="Stop recording"
+              >
+                <Square className="w-6 h-6 fill-current" />
+              </button>
+            )}
+          </div>
+        )}
+
+        {phase === 'preview' && recording && (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="flex items-center gap-3 p-3 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+              <button
+                type="button"
+                onClick={togglePlayback}
+                className="w-10 h-10 shrink-0 rounded-full bg-purple-500 hover:bg-purple-600 text-white flex items-center justify-center transition-colors"
+                aria-label={isPlaying ? 'Pause' : 'Play'}
+              >
+                {isPlaying ? <Pause className="w-4 h-4 fill-current" /> : <Play className="w-4 h-4 fill-current ml-0.5" />}
+              </button>
+              <Waveform levels={waveform} progress={playbackProgress} onSeek={handleSeek} className="flex-1 h-10" />
+              <span className="text-xs text-zinc-400 tabular-nums">{formatDuration(durationRef.current)}</span>
+              {previewUrl && (
+                <audio
+                  ref={audioRef}
+                  src={previewUrl}
+                  onPlay={() => setIsPlaying(true)}
+                  onPause={() => setIsPlaying(false)}
+                  onEnded={() => setPlaybackProgress(1)}
+                  onTimeUpdate={(e) => {
+                    const audio = e.currentTarget;
+                    const duration = Number.isFinite(audio.duration) ? audio.duration : durationRef.current;
+                    if (duration > 0) setPlaybackProgress(audio.currentTime / duration);
+                  }}
+                  className="hidden"
+                />
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="voicePersonName" className="block text-sm font-medium text-zinc-300 mb-2">
+                What's your name? *
+              </label>
+              <input
+                id="voicePersonName"
+                type="text"
+                value={personName}
+                onChange={(e) => setPersonName(e.target.value)}
+                placeholder="Enter your name"
+                className={inputClass}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="voiceTitle" className="block text-sm font-medium text-zinc-300 mb-2">
+                Title
+                <span className="text-zinc-500 font-normal ml-1">(optional)</span>
+              </label>
+              <input
+                id="voiceTitle"
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder={`${personName.trim() || 'Your Name'}'s Voice Message`}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="voiceDescription" className="block text-sm font-medium text-zinc-300 mb-2">
+                What's it about?
+                <span className="text-zinc-500 font-normal ml-1">(optional)</span>
+              </label>
+              <input
+                id="voiceDescription"
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="e.g., A story about our trip to the lake"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={handleRetake}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Retake
+              </button>
+              <button
+                type="submit"
+                disabled={!personName.trim()}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-purple-500 hover:bg-purple-600 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed text-white rounded-lg transition-colors font-medium"
+              >
+                <Send className="w-4 h-4" />
+                Send
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+
+interface WaveformProps {
+  levels: number[]; // 0-1, one per bar
+  progress?: number; // 0-1 of the way through playback - bars before it are highlighted
+  onSeek?: (fraction: number) => void; // Clicking a bar jumps there
+  className?: string;
+}
+
+/**
+ * Bar waveform of a voice message, filled in as it plays
+ */
+export const Waveform: React.FC<WaveformProps> = ({ levels, progress = 0, onSeek, className = '' }) => {
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSeek) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  return (
+    <div
+      onClick={handleClick}
+      className={`flex items-center gap-[2px] ${onSeek ? 'cursor-pointer' : ''} ${className}`}
+      role={onSeek ? 'slider' : undefined}
+      aria-valuenow={onSeek ? Math.round(progress * 100) : undefined}
+    >
+      {levels.map((level, index) => (
+        <span
+          key={index}
+          className={`flex-1 min-w-[2px] rounded-full transition-colors ${(index + 0.5) / levels.length <= progress ? 'bg-purple-400' : 'bg-zinc-600'}`}
+          // Quiet stretches still show as a sliver, so the bar count reads as length
+          style={{ height: `${Math.max(6, level * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,1068 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "13.0.5"
+  }
+  public: {
+    Tables: {
+      article_tags: {
+        Row: {
+          created_at: string
+          article_id: string
+          suggested: boolean
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          article_id: string
+          suggested?: boolean
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          article_id?: string
+          suggested?: boolean
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "article_tags_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "article_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      articles: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          link: string
+          moderated_at: string | null
+          moderated_by: string | null
+          moderation_reason: string | null
+          moderation_status: Database["public"]["Enums"]["moderation_status"]
+          owner_id: string | null
+          posted_by: string | null
+          timestamp: number
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          id: string
+          link: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          posted_by?: string | null
+          timestamp: number
+          title?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          link?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          posted_by?: string | null
+          timestamp?: number
+          title?: string
+        }
+        Relationships: []
+      }
+      event_media: {
+        Row: {
+          captions_srt_url: string | null
+          captions_vtt_url: string | null
+          created_at: string
+          description: string | null
+          duration_seconds: number | null
+          event_id: string
+          file_size: number | null
+          height: number | null
+          hls_url: string | null
+          id: string
+          language_code: string | null
+          language_confidence: number | null
+          media_type: string
+          media_url: string
+          moderated_at: string | null
+          moderated_by: string | null
+          moderation_reason: string | null
+          moderation_status: Database["public"]["Enums"]["moderation_status"]
+          owner_id: string | null
+          recorded_at: string | null
+          rotation: number | null
+          speaker_names: Json | null
+          thumbnail: string | null
+          title: string | null
+          transcript_utterances: Json | null
+          transcript_words: Json | null
+          transcription: string | null
+          updated_at: string
+          uploaded_by: string | null
+          video_codec: string | null
+          width: number | null
+        }
+        Insert: {
+          captions_srt_url?: string | null
+          captions_vtt_url?: string | null
+          created_at?: string
+          description?: string | null
+          duration_seconds?: number | null
+          event_id: string
+          file_size?: number | null
+          height?: number | null
+          hls_url?: string | null
+          id?: string
+          language_code?: string | null
+          language_confidence?: number | null
+          media_type: string
+          media_url: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          recorded_at?: string | null
+          rotation?: number | null
+          speaker_names?: Json | null
+          thumbnail?: string | null
+          title?: string | null
+          transcript_utterances?: Json | null
+          transcript_words?: Json | null
+          transcription?: string | null
+          updated_at?: string
+          uploaded_by?: string | null
+          video_codec?: string | null
+          width?: number | null
+        }
+        Update: {
+          captions_srt_url?: string | null
+          captions_vtt_url?: string | null
+          created_at?: string
+          description?: string | null
+          duration_seconds?: number | null
+          event_id?: string
+          file_size?: number | null
+          height?: number | null
+          hls_url?: string | null
+          id?: string
+          language_code?: string | null
+          language_confidence?: number | null
+          media_type?: string
+          media_url?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          recorded_at?: string | null
+          rotation?: number | null
+          speaker_names?: Json | null
+          thumbnail?: string | null
+          title?: string | null
+          transcript_utterances?: Json | null
+          transcript_words?: Json | null
+          transcription?: string | null
+          updated_at?: string
+          uploaded_by?: string | null
+          video_codec?: string | null
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_media_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_media_tags: {
+        Row: {
+          created_at: string
+          event_media_id: string
+          suggested: boolean
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_media_id: string
+          suggested?: boolean
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          event_media_id?: string
+          suggested?: boolean
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_media_tags_event_media_id_fkey"
+            columns: ["event_media_id"]
+            isOneToOne: false
+            referencedRelation: "event_media"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_media_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          created_at: string
+          date: string
+          description: string | null
+          id: string
+          moderated_at: string | null
+          moderated_by: string | null
+          moderation_reason: string | null
+          moderation_status: Database["public"]["Enums"]["moderation_status"]
+          owner_id: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          description?: string | null
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          description?: string | null
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      image_tags: {
+        Row: {
+          created_at: string
+          image_id: string
+          suggested: boolean
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          image_id: string
+          suggested?: boolean
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          image_id?: string
+          suggested?: boolean
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "image_tags_image_id_fkey"
+            columns: ["image_id"]
+            isOneToOne: false
+            referencedRelation: "images"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "image_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      images: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          moderated_at: string | null
+          moderated_by: string | null
+          moderation_reason: string | null
+          moderation_status: Database["public"]["Enums"]["moderation_status"]
+          owner_id: string | null
+          timestamp: number
+          title: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          id: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          timestamp: number
+          title?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          timestamp?: number
+          title?: string
+          url?: string
+        }
+        Relationships: []
+      }
+      processing_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          job_type: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          provider: string | null
+          provider_job_id: string | null
+          started_at: string | null
+          status: string
+          target: string
+          updated_at: string
+          video_id: string
+          video_url: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          job_type?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          provider?: string | null
+          provider_job_id?: string | null
+          started_at?: string | null
+          status?: string
+          target?: string
+          updated_at?: string
+          video_id: string
+          video_url: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          job_type?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          provider?: string | null
+          provider_job_id?: string | null
+          started_at?: string | null
+          status?: string
+          target?: string
+          updated_at?: string
+          video_id?: string
+          video_url?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          display_name: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string
+          id: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      rate_limits: {
+        Row: {
+          hits: number
+          key: string
+          window_start: string
+        }
+        Insert: {
+          hits?: number
+          key: string
+          window_start: string
+        }
+        Update: {
+          hits?: number
+          key?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      safety_verdicts: {
+        Row: {
+          categories: string[]
+          classifier: string
+          created_at: string
+          flagged: boolean
+          id: string
+          item_id: string
+          reason: string | null
+          scores: Json
+          target: string
+        }
+        Insert: {
+          categories?: string[]
+          classifier: string
+          created_at?: string
+          flagged: boolean
+          id?: string
+          item_id: string
+          reason?: string | null
+          scores?: Json
+          target: string
+        }
+        Update: {
+          categories?: string[]
+          classifier?: string
+          created_at?: string
+          flagged?: boolean
+          id?: string
+          item_id?: string
+          reason?: string | null
+          scores?: Json
+          target?: string
+        }
+        Relationships: []
+      }
+      search_embeddings: {
+        Row: {
+          created_at: string
+          embedding: string
+          item_id: string
+          result_type: string
+        }
+        Insert: {
+          created_at?: string
+          embedding: string
+          item_id: string
+          result_type: string
+        }
+        Update: {
+          created_at?: string
+          embedding?: string
+          item_id?: string
+          result_type?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: Database["public"]["Enums"]["tag_kind"]
+          name: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["tag_kind"]
+          name: string
+          slug?: never
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["tag_kind"]
+          name?: string
+          slug?: never
+        }
+        Relationships: []
+      }
+      transcript_translations: {
+        Row: {
+          created_at: string
+          id: string
+          language_code: string
+          segments: Json
+          target: string
+          text: string
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          language_code: string
+          segments?: Json
+          target?: string
+          text: string
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          language_code?: string
+          segments?: Json
+          target?: string
+          text?: string
+          video_id?: string
+        }
+        Relationships: []
+      }
+      video_suggestions: {
+        Row: {
+          content_warning: string | null
+          created_at: string
+          model: string
+          people: string[]
+          status: string
+          summary: string | null
+          themes: string[]
+          title: string | null
+          updated_at: string
+          video_id: string
+        }
+        Insert: {
+          content_warning?: string | null
+          created_at?: string
+          model: string
+          people?: string[]
+          status?: string
+          summary?: string | null
+          themes?: string[]
+          title?: string | null
+          updated_at?: string
+          video_id: string
+        }
+        Update: {
+          content_warning?: string | null
+          created_at?: string
+          model?: string
+          people?: string[]
+          status?: string
+          summary?: string | null
+          themes?: string[]
+          title?: string | null
+          updated_at?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_suggestions_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: true
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      video_tags: {
+        Row: {
+          created_at: string
+          video_id: string
+          suggested: boolean
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          video_id: string
+          suggested?: boolean
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          video_id?: string
+          suggested?: boolean
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_tags_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      videos: {
+        Row: {
+          captions_srt_url: string | null
+          captions_vtt_url: string | null
+          content_warning: string | null
+          created_at: string
+          description: string
+          duration_seconds: number | null
+          duration_string: string
+          file_size: number | null
+          height: number | null
+          hls_url: string | null
+          id: string
+          language_code: string | null
+          language_confidence: number | null
+          moderated_at: string | null
+          moderated_by: string | null
+          moderation_reason: string | null
+          moderation_status: Database["public"]["Enums"]["moderation_status"]
+          owner_id: string | null
+          recorded_at: string | null
+          rotation: number | null
+          speaker_names: Json | null
+          summary: string | null
+          thumbnail: string
+          timestamp: number
+          title: string
+          transcript_utterances: Json | null
+          transcript_words: Json | null
+          transcription: string | null
+          updated_at: string
+          url: string
+          video_codec: string | null
+          width: number | null
+        }
+        Insert: {
+          captions_srt_url?: string | null
+          captions_vtt_url?: string | null
+          content_warning?: string | null
+          created_at?: string
+          description?: string
+          duration_seconds?: number | null
+          duration_string?: string
+          file_size?: number | null
+          height?: number | null
+          hls_url?: string | null
+          id: string
+          language_code?: string | null
+          language_confidence?: number | null
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          recorded_at?: string | null
+          rotation?: number | null
+          speaker_names?: Json | null
+          summary?: string | null
+          thumbnail?: string
+          timestamp: number
+          title?: string
+          transcript_utterances?: Json | null
+          transcript_words?: Json | null
+          transcription?: string | null
+          updated_at?: string
+          url: string
+          video_codec?: string | null
+          width?: number | null
+        }
+        Update: {
+          captions_srt_url?: string | null
+          captions_vtt_url?: string | null
+          content_warning?: string | null
+          created_at?: string
+          description?: string
+          duration_seconds?: number | null
+          duration_string?: string
+          file_size?: number | null
+          height?: number | null
+          hls_url?: string | null
+          id?: string
+          language_code?: string | null
+          language_confidence?: number | null
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          recorded_at?: string | null
+          rotation?: number | null
+          speaker_names?: Json | null
+          summary?: string | null
+          thumbnail?: string
+          timestamp?: number
+          title?: string
+          transcript_utterances?: Json | null
+          transcript_words?: Json | null
+          transcription?: string | null
+          updated_at?: string
+          url?: string
+          video_codec?: string | null
+          width?: number | null
+        }
+        Relationships: []
+      }
+      voice_messages: {
+        Row: {
+          captions_srt_url: string | null
+          captions_vtt_url: string | null
+          created_at: string
+          description: string
+          duration_seconds: number | null
+          id: string
+          language_code: string | null
+          language_confidence: number | null
+          moderated_at: string | null
+          moderated_by: string | null
+          moderation_reason: string | null
+          moderation_status: Database["public"]["Enums"]["moderation_status"]
+          owner_id: string | null
+          person_name: string
+          speaker_names: Json | null
+          speaker_photo_url: string | null
+          timestamp: number
+          title: string
+          transcript_utterances: Json | null
+          transcript_words: Json | null
+          transcription: string | null
+          updated_at: string
+          url: string
+          waveform: Json | null
+        }
+        Insert: {
+          captions_srt_url?: string | null
+          captions_vtt_url?: string | null
+          created_at?: string
+          description?: string
+          duration_seconds?: number | null
+          id: string
+          language_code?: string | null
+          language_confidence?: number | null
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          person_name?: string
+          speaker_names?: Json | null
+          speaker_photo_url?: string | null
+          timestamp: number
+          title?: string
+          transcript_utterances?: Json | null
+          transcript_words?: Json | null
+          transcription?: string | null
+          updated_at?: string
+          url: string
+          waveform?: Json | null
+        }
+        Update: {
+          captions_srt_url?: string | null
+          captions_vtt_url?: string | null
+          created_at?: string
+          description?: string
+          duration_seconds?: number | null
+          id?: string
+          language_code?: string | null
+          language_confidence?: number | null
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
+          moderation_status?: Database["public"]["Enums"]["moderation_status"]
+          owner_id?: string | null
+          person_name?: string
+          speaker_names?: Json | null
+          speaker_photo_url?: string | null
+          timestamp?: number
+          title?: string
+          transcript_utterances?: Json | null
+          transcript_words?: Json | null
+          transcription?: string | null
+          updated_at?: string
+          url?: string
+          waveform?: Json | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      can_manage: { Args: { owner: string }; Returns: boolean }
+      content_missing_embeddings: {
+        Args: { batch_size?: number }
+        Returns: {
+          content: string
+          id: string
+          result_type: string
+        }[]
+      }
+      current_app_role: {
+        Args: never
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      description_person_names: {
+        Args: never
+        Returns: {
+          name: string
+          video_id: string
+        }[]
+      }
+      has_app_role: {
+        Args: { minimum: Database["public"]["Enums"]["app_role"] }
+        Returns: boolean
+      }
+      hit_rate_limit: {
+        Args: { bucket: string; max_hits: number; window_seconds: number }
+        Returns: boolean
+      }
+      match_content: {
+        Args: {
+          match_count?: number
+          min_similarity?: number
+          query_embedding: string
+        }
+        Returns: {
+          id: string
+          rank: number
+          result_type: string
+          snippet: string
+          title: string
+        }[]
+      }
+      search_content: {
+        Args: { match_count?: number; search_query: string }
+        Returns: {
+          id: string
+          rank: number
+          result_type: string
+          snippet: string
+          title: string
+        }[]
+      }
+      search_document: {
+        Args: { body?: string; description: string; title: string }
+        Returns: unknown
+      }
+      set_content_tags: {
+        Args: { item_id: string; new_tags: Json; target: string }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: Database["public"]["Enums"]["tag_kind"]
+          name: string
+          slug: string
+        }[]
+      }
+      suggest_tags_from_descriptions: { Args: never; Returns: number }
+    }
+    Enums: {
+      app_role: "viewer" | "contributor" | "moderator" | "admin"
+      moderation_status:
+        | "pending"
+        | "approved"
+        | "rejected"
+        | "changes_requested"
+      tag_kind: "person" | "place" | "theme"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      app_role: ["viewer", "contributor", "moderator", "admin"],
+      moderation_status: [
+        "pending",
+        "approved",
+        "rejected",
+        "changes_requested",
+      ],
+      tag_kind: ["person", "place", "theme"],
+    },
+  },
+} as const
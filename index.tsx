@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './utils/serviceWorker';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -13,3 +14,5 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+registerServiceWorker();
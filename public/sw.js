@@ -0,0 +1,138 @@
+/**
+ * Service worker for offline use on Naia's device. Registered by utils/serviceWorker.ts in production builds.
+ *   - The app shell (page, built assets, CDN scripts and fonts) is cached so the app opens offline
+ *   - Videos and images saved by services/offlineService.ts are served from the media cache,
+ *     including the byte-range requests <video> makes while seeking
+ *   - Background sync wakes open tabs to carry on with queued uploads (services/uploadQueue.ts)
+ * Feed metadata lives in IndexedDB (also offlineService.ts), so Supabase API calls aren't touched here.
+ */
+
+const SHELL_CACHE = 'dear-naia-shell-v1';
+const RUNTIME_CACHE = 'dear-naia-runtime-v1';
+const MEDIA_CACHE = 'dear-naia-media-v1'; // Same name as in services/offlineService.ts
+
+const UPLOAD_SYNC_TAG = 'dear-naia-uploads'; // Same tag as in services/uploadQueue.ts
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/favicon.svg'];
+
+// Scripts, styles and fonts index.html loads from CDNs
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, RUNTIME_CACHE, MEDIA_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names.filter((name) => !current.includes(name)).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * Answers a Range request from a fully cached file, as the storage server would
+ */
+async function rangeResponse(cached, rangeHeader) {
+  const blob = await cached.blob();
+  const match = /bytes=(\d*)-(\d*)/.exec(rangeHeader);
+  if (!match) return cached;
+
+  let start;
+  let end;
+  if (match[1]) {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), blob.size - 1) : blob.size - 1;
+  } else {
+    // bytes=-500 means the last 500 bytes
+    start = Math.max(0, blob.size - Number(match[2]));
+    end = blob.size - 1;
+  }
+
+  if (start >= blob.size || start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${blob.size}` } });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': cached.headers.get('Content-Type') || 'application/octet-stream',
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
+async function fromMediaCache(request) {
+  const cache = await caches.open(MEDIA_CACHE);
+  const cached = await cache.match(request.url);
+  if (!cached) return fetch(request);
+
+  const range = request.headers.get('Range');
+  return range ? rangeResponse(cached, range) : cached;
+}
+
+// Pages: always try the network so deploys show up, fall back to the cached shell offline
+async function networkFirstPage(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/', response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match('/')) || Response.error();
+  }
+}
+
+// Built assets are content-hashed and CDN assets are versioned: serve the cached copy and refresh it in the background
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') {
+        cache.put(event.request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached || Response.error());
+
+  if (cached) {
+    event.waitUntil(refresh);
+    return cached;
+  }
+  return refresh;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (url.pathname.includes('/storage/v1/object/public/')) {
+    event.respondWith(fromMediaCache(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+// The connection is back: open tabs resume their queued uploads. Closed tabs resume them on the next visit,
+// since the upload itself needs the signed-in page (tus state, session, tags and screening).
+self.addEventListener('sync', (event) => {
+  if (event.tag !== UPLOAD_SYNC_TAG) return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' })
+      .then((clients) => clients.forEach((client) => client.postMessage({ type: 'resume-uploads' })))
+  );
+});
@@ -0,0 +1,93 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './supabaseService';
+import type { Tables } from '../database.types';
+import { Profile } from '../types';
+
+/**
+ * Converts a profiles row to a Profile
+ */
+function rowToProfile(row: Tables<'profiles'>): Profile {
+  return {
+    id: row.id,
+    displayName: row.display_name,
+    avatarUrl: row.avatar_url || undefined,
+    role: row.role,
+  };
+}
+
+/**
+ * Emails a magic sign-in link. New accounts are created on first use; the name is only used
+ * for their profile (existing profiles keep their name).
+ * @returns An error message, or null if the email was sent
+ */
+export async function sendMagicLink(email: string, displayName?: string): Promise<string | null> {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: window.location.origin + window.location.pathname,
+        data: displayName ? { display_name: displayName } : undefined,
+      },
+    });
+
+    if (error) {
+      console.error('Error sending magic link:', error);
+      return error.message;
+    }
+    return null;
+  } catch (error) {
+    console.error('Error sending magic link:', error);
+    return 'Could not send the sign-in email. Please try again.';
+  }
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    console.error('Error signing out:', error);
+  }
+}
+
+/**
+ * Returns the current session (restored from storage, or from the magic link in the URL)
+ */
+export async function getSession(): Promise<Session | null> {
+  const { data, error } = await supabase.auth.getSession();
+  if (error) {
+    console.error('Error getting session:', error);
+    return null;
+  }
+  return data.session;
+}
+
+/**
+ * Calls back whenever the user signs in or out
+ * @returns Unsubscribe function
+ */
+export function onAuthChange(callback: (session: Session | null) => void): () => void {
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => callback(session));
+  return () => data.subscription.unsubscribe();
+}
+
+/**
+ * Fetches a user's profile (created by a database trigger when they sign up)
+ */
+export async function fetchProfile(userId: string): Promise<Profile | null> {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+      return null;
+    }
+
+    return data ? rowToProfile(data) : null;
+  } catch (error) {
+    console.error('Error fetching profile:', error);
+    return null;
+  }
+}
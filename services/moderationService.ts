@@ -0,0 +1,169 @@
+import {
+  supabase,
+  rowToVideoEntry,
+  rowToArticleEntry,
+  rowToImageEntry,
+  rowToVoiceEntry,
+  rowToEventEntry,
+  rowToEventMediaEntry,
+  VIDEO_TAGS_SELECT,
+  ARTICLE_TAGS_SELECT,
+  IMAGE_TAGS_SELECT,
+  EVENT_MEDIA_TAGS_SELECT,
+} from './supabaseService';
+import type { Tables } from '../database.types';
+import { ModerationItem, ModerationDecision, ModerationStatus, ModerationTarget, SafetyCategory, SafetyVerdict } from '../types';
+
+/**
+ * Converts a safety_verdicts row to a SafetyVerdict
+ */
+function rowToSafetyVerdict(row: Tables<'safety_verdicts'>): SafetyVerdict {
+  return {
+    classifier: row.classifier as SafetyVerdict['classifier'],
+    flagged: row.flagged,
+    categories: (row.categories || []) as SafetyCategory[],
+    scores: row.scores as SafetyVerdict['scores'],
+    reason: row.reason || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Latest safety verdict per submission ID
+ */
+async function fetchLatestVerdicts(itemIds: string[]): Promise<Record<string, SafetyVerdict>> {
+  if (itemIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('safety_verdicts')
+    .select('*')
+    .in('item_id', itemIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching safety verdicts:', error);
+    return {};
+  }
+
+  const verdicts: Record<string, SafetyVerdict> = {};
+  (data || []).forEach((row) => {
+    // Rows are newest first, so the first one seen per item wins
+    if (!verdicts[row.item_id]) {
+      verdicts[row.item_id] = rowToSafetyVerdict(row);
+    }
+  });
+  return verdicts;
+}
+
+/**
+ * When a submission was made, in milliseconds - events and event media only have created_at
+ */
+export const submittedAt = (item: ModerationItem): number =>
+  item.target === 'events' || item.target === 'event_media' ? new Date(item.entry.created_at).getTime() : item.entry.timestamp;
+
+/**
+ * Fetches everything waiting for review, oldest first. RLS only shows other people's pending
+ * rows to moderators, so everyone else just gets their own submissions back.
+ */
+export async function fetchModerationQueue(): Promise<ModerationItem[]> {
+  try {
+    const [videos, articles, images, voiceMessages, events, eventMedia] = await Promise.all([
+      supabase.from('videos').select(`*, ${VIDEO_TAGS_SELECT}`).eq('moderation_status', 'pending'),
+      supabase.from('articles').select(`*, ${ARTICLE_TAGS_SELECT}`).eq('moderation_status', 'pending'),
+      supabase.from('images').select(`*, ${IMAGE_TAGS_SELECT}`).eq('moderation_status', 'pending'),
+      supabase.from('voice_messages').select('*').eq('moderation_status', 'pending'),
+      supabase.from('events').select('*').eq('moderation_status', 'pending'),
+      supabase.from('event_media').select(`*, ${EVENT_MEDIA_TAGS_SELECT}`).eq('moderation_status', 'pending'),
+    ]);
+
+    const failed = [videos, articles, images, voiceMessages, events, eventMedia].find(result => result.error);
+    if (failed) {
+      console.error('Error fetching moderation queue:', failed.error);
+      return [];
+    }
+
+    const items: ModerationItem[] = [
+      ...(videos.data || []).map((row): ModerationItem => ({ target: 'videos', entry: rowToVideoEntry(row) })),
+      ...(articles.data || []).map((row): ModerationItem => ({ target: 'articles', entry: rowToArticleEntry(row) })),
+      ...(images.data || []).map((row): ModerationItem => ({ target: 'images', entry: rowToImageEntry(row) })),
+      ...(voiceMessages.data || []).map((row): ModerationItem => ({ target: 'voice_messages', entry: rowToVoiceEntry(row) })),
+      ...(events.data || []).map((row): ModerationItem => ({ target: 'events', entry: rowToEventEntry(row) })),
+      ...(eventMedia.data || []).map((row): ModerationItem => ({ target: 'event_media', entry: rowToEventMediaEntry(row) })),
+    ];
+    const verdicts = await fetchLatestVerdicts(items.map(item => item.entry.id));
+    return items
+      .map(item => ({ ...item, verdict: verdicts[item.entry.id] }))
+      .sort((a, b) => submittedAt(a) - submittedAt(b));
+  } catch (error) {
+    console.error('Error fetching moderation queue:', error);
+    return [];
+  }
+}
+
+/**
+ * Records a moderator's decision. The database stamps who made it and when, and rejects
+ * the update unless the caller is a moderator.
+ * @param reason - Shown to the uploader; required when rejecting or requesting changes
+ * @returns The updated item, or null if saving failed
+ */
+export async function moderateSubmission(
+  item: ModerationItem,
+  decision: ModerationDecision,
+  reason: string
+): Promise<ModerationItem | null> {
+  try {
+    const { data, error } = await supabase
+      .from(item.target)
+      .update({ moderation_status: decision, moderation_reason: reason.trim() || null })
+      .eq('id', item.entry.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving moderation decision:', error);
+      return null;
+    }
+
+    // The update doesn't return tags or an event's media, and a decision doesn't change them
+    // (voice messages and events have no tags)
+    switch (item.target) {
+      case 'videos':
+        return { target: 'videos', entry: { ...rowToVideoEntry(data as Tables<'videos'>), tags: item.entry.tags } };
+      case 'articles':
+        return { target: 'articles', entry: { ...rowToArticleEntry(data as Tables<'articles'>), tags: item.entry.tags } };
+      case 'images':
+        return { target: 'images', entry: { ...rowToImageEntry(data as Tables<'images'>), tags: item.entry.tags } };
+      case 'voice_messages':
+        return { target: 'voice_messages', entry: rowToVoiceEntry(data as Tables<'voice_messages'>) };
+      case 'events':
+        return { target: 'events', entry: { ...rowToEventEntry(data as Tables<'events'>), media: item.entry.media } };
+      case 'event_media':
+        return { target: 'event_media', entry: { ...rowToEventMediaEntry(data as Tables<'event_media'>), tags: item.entry.tags } };
+    }
+  } catch (error) {
+    console.error('Error saving moderation decision:', error);
+    return null;
+  }
+}
+
+/**
+ * Runs the automated safety screening on a newly uploaded article or image (videos and voice
+ * messages are screened once their transcript is ready). Clean submissions are approved on the spot.
+ * @returns The submission's moderation status afterwards, or null if screening couldn't run
+ */
+export async function requestSafetyScreening(target: ModerationTarget, id: string): Promise<ModerationStatus | null> {
+  try {
+    const { data, error } = await supabase.functions.invoke('screen-content', {
+      body: { target, id },
+    });
+
+    if (error) {
+      console.error('❌ Error screening submission:', error);
+      return null;
+    }
+    return data.status;
+  } catch (error) {
+    console.error('❌ Error screening submission:', error);
+    return null;
+  }
+}
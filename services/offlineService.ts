@@ -0,0 +1,215 @@
+import { VideoEntry, ImageEntry, OfflineFeed } from '../types';
+import { createIdbDatabase } from '../utils/indexedDb';
+
+// Feed metadata, favorites and the index of saved media live in IndexedDB;
+// the media files themselves go in Cache Storage, where the service worker (public/sw.js) serves them from
+const DB_NAME = 'dear-naia-offline';
+const DB_VERSION = 1;
+const FEED_STORE = 'feed';
+const FAVORITES_STORE = 'favorites';
+const MEDIA_STORE = 'media';
+const FEED_KEY = 'latest';
+
+const MEDIA_CACHE = 'dear-naia-media-v1'; // Same name as in public/sw.js
+
+// How much is kept for offline viewing, on top of favorites
+const OFFLINE_VIDEO_COUNT = 8;
+const OFFLINE_IMAGE_COUNT = 40;
+// Never use more than this share of the browser's quota for saved media, or this many bytes
+const MAX_QUOTA_SHARE = 0.6;
+const MAX_OFFLINE_BYTES = 2 * 1024 * 1024 * 1024;
+
+// A saved media file, indexed by URL
+interface SavedMedia {
+  url: string;
+  itemId: string; // Video or image ID
+  poster?: boolean; // A video's thumbnail rather than the video itself
+  bytes: number;
+  savedAt: number;
+}
+
+const idbRequest = createIdbDatabase(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(FEED_STORE)) db.createObjectStore(FEED_STORE);
+  if (!db.objectStoreNames.contains(FAVORITES_STORE)) db.createObjectStore(FAVORITES_STORE);
+  if (!db.objectStoreNames.contains(MEDIA_STORE)) db.createObjectStore(MEDIA_STORE, { keyPath: 'url' });
+});
+
+/**
+ * Saves the feed as just loaded, replacing the previous copy
+ */
+export async function saveCachedFeed(feed: Omit<OfflineFeed, 'savedAt'>): Promise<void> {
+  try {
+    await idbRequest(FEED_STORE, 'readwrite', store => store.put({ ...feed, savedAt: Date.now() }, FEED_KEY));
+  } catch (error) {
+    console.error('Error saving offline feed:', error);
+  }
+}
+
+/**
+ * The feed as last loaded, or null if this device has never loaded it (or IndexedDB is unavailable)
+ */
+export async function loadCachedFeed(): Promise<OfflineFeed | null> {
+  try {
+    return (await idbRequest<OfflineFeed | undefined>(FEED_STORE, 'readonly', store => store.get(FEED_KEY))) || null;
+  } catch (error) {
+    console.error('Error loading offline feed:', error);
+    return null;
+  }
+}
+
+/**
+ * IDs of the videos and images favorited on this device - always kept for offline viewing
+ */
+export async function fetchFavoriteIds(): Promise<Set<string>> {
+  try {
+    return new Set(await idbRequest<string[]>(FAVORITES_STORE, 'readonly', store => store.getAllKeys()));
+  } catch (error) {
+    console.error('Error loading favorites:', error);
+    return new Set();
+  }
+}
+
+export async function setFavorite(itemId: string, favorite: boolean): Promise<void> {
+  try {
+    await idbRequest(FAVORITES_STORE, 'readwrite', store =>
+      favorite ? store.put(Date.now(), itemId) : store.delete(itemId)
+    );
+  } catch (error) {
+    console.error('Error saving favorite:', error);
+  }
+}
+
+/**
+ * IDs of the videos and images whose files are saved on this device
+ */
+export async function fetchOfflineItemIds(): Promise<Set<string>> {
+  try {
+    const saved = await idbRequest<SavedMedia[]>(MEDIA_STORE, 'readonly', store => store.getAll());
+    return new Set(saved.filter(media => !media.poster).map(media => media.itemId));
+  } catch (error) {
+    console.error('Error loading offline media:', error);
+    return new Set();
+  }
+}
+
+/**
+ * Favorites first, then the newest videos and images, as the files to save in priority order.
+ * A video's thumbnail comes with it so the feed doesn't show blank posters offline.
+ */
+function pickOfflineMedia(
+  videos: VideoEntry[],
+  images: ImageEntry[],
+  favoriteIds: Set<string>
+): { itemId: string; url: string; bytes?: number; poster?: boolean }[] {
+  const newestFirst = <T extends { timestamp: number }>(items: T[]) => [...items].sort((a, b) => b.timestamp - a.timestamp);
+  const pickedVideos = [
+    ...videos.filter(video => favoriteIds.has(video.id)),
+    ...newestFirst(videos.filter(video => !favoriteIds.has(video.id))).slice(0, OFFLINE_VIDEO_COUNT),
+  ];
+  const pickedImages = [
+    ...images.filter(image => favoriteIds.has(image.id)),
+    ...newestFirst(images.filter(image => !favoriteIds.has(image.id))).slice(0, OFFLINE_IMAGE_COUNT),
+  ];
+
+  return [
+    ...pickedVideos.flatMap(video => [
+      { itemId: video.id, url: video.url, bytes: video.fileSize },
+      ...(video.thumbnail.startsWith('http') ? [{ itemId: video.id, url: video.thumbnail, poster: true }] : []),
+    ]),
+    ...pickedImages.map(image => ({ itemId: image.id, url: image.url })),
+  ];
+}
+
+/**
+ * How many bytes saved media may use on this device
+ */
+async function offlineBudget(): Promise<number> {
+  const { quota = 0 } = await navigator.storage?.estimate?.() || {};
+  return quota > 0 ? Math.min(quota * MAX_QUOTA_SHARE, MAX_OFFLINE_BYTES) : MAX_OFFLINE_BYTES;
+}
+
+let currentSync: Promise<Set<string>> | null = null;
+
+/**
+ * Downloads the favorite and newest videos and images for offline viewing and deletes saved
+ * files that dropped out of that set. Stops adding files once the storage budget is used up,
+ * so favorites and the newest items win. Only one sync runs at a time.
+ * @returns IDs of the items available offline afterwards
+ */
+export function syncOfflineMedia(videos: VideoEntry[], images: ImageEntry[], favoriteIds: Set<string>): Promise<Set<string>> {
+  const sync = (currentSync || Promise.resolve()).then(() => runOfflineSync(videos, images, favoriteIds));
+  currentSync = sync;
+  sync.finally(() => {
+    if (currentSync === sync) currentSync = null;
+  });
+  return sync;
+}
+
+async function runOfflineSync(videos: VideoEntry[], images: ImageEntry[], favoriteIds: Set<string>): Promise<Set<string>> {
+  if (!('caches' in window) || !navigator.onLine) return fetchOfflineItemIds();
+
+  try {
+    // Ask the browser not to evict saved media under storage pressure
+    await navigator.storage?.persist?.();
+
+    const cache = await caches.open(MEDIA_CACHE);
+    const saved = new Map(
+      (await idbRequest<SavedMedia[]>(MEDIA_STORE, 'readonly', store => store.getAll())).map(media => [media.url, media])
+    );
+    const budget = await offlineBudget();
+    const kept = new Set<string>(); // URLs
+    const skipped = new Set<string>(); // Item IDs that didn't fit, so their posters aren't worth keeping
+    let usedBytes = 0;
+
+    for (const { itemId, url, bytes, poster } of pickOfflineMedia(videos, images, favoriteIds)) {
+      if (poster && skipped.has(itemId)) continue;
+      const existing = saved.get(url);
+      if (existing) {
+        usedBytes += existing.bytes;
+        kept.add(url);
+        continue;
+      }
+      if (bytes && usedBytes + bytes > budget) {
+        skipped.add(itemId);
+        continue;
+      }
+
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const blob = await response.blob();
+        if (usedBytes + blob.size > budget) {
+          skipped.add(itemId);
+          continue;
+        }
+
+        await cache.put(url, new Response(blob, {
+          headers: {
+            'Content-Type': response.headers.get('Content-Type') || blob.type,
+            'Content-Length': String(blob.size),
+          },
+        }));
+        await idbRequest(MEDIA_STORE, 'readwrite', store =>
+          store.put({ url, itemId, poster, bytes: blob.size, savedAt: Date.now() } satisfies SavedMedia)
+        );
+        usedBytes += blob.size;
+        kept.add(url);
+      } catch (error) {
+        skipped.add(itemId);
+        console.warn(`Could not save ${url} for offline viewing:`, error);
+      }
+    }
+
+    // Free the space taken by anything no longer picked
+    for (const url of saved.keys()) {
+      if (kept.has(url)) continue;
+      await cache.delete(url);
+      await idbRequest(MEDIA_STORE, 'readwrite', store => store.delete(url));
+    }
+
+    console.log(`📦 ${kept.size} file(s) available offline (${(usedBytes / 1024 / 1024).toFixed(0)} MB of ${(budget / 1024 / 1024).toFixed(0)} MB)`);
+  } catch (error) {
+    console.error('Error saving media for offline viewing:', error);
+  }
+  return fetchOfflineItemIds();
+}
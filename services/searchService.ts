@@ -0,0 +1,62 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { SearchResult, SearchResultType, SearchMode } from '../types';
+import { supabase } from './supabaseService';
+
+interface SearchResultRow {
+  result_type: string;
+  id: string;
+  title: string;
+  snippet: string | null;
+  rank: number;
+}
+
+/**
+ * Converts a search_content / match_content row to a SearchResult
+ */
+const rowToSearchResult = (row: SearchResultRow): SearchResult => ({
+  type: row.result_type as SearchResultType,
+  id: row.id,
+  title: row.title,
+  snippet: row.snippet || '',
+  rank: row.rank,
+});
+
+/**
+ * Searches approved messages (title, description, transcript), articles, images and events.
+ * 'text' uses Postgres full-text search; 'semantic' matches by meaning via the semantic-search
+ * edge function (needs GEMINI_API_KEY on the project, a signed-in user, and only finds content
+ * already embedded; each user gets a limited number of semantic searches a minute).
+ * @returns Best matches first, or [] if the search failed
+ */
+export async function searchContent(query: string, mode: SearchMode = 'text'): Promise<SearchResult[]> {
+  if (!query.trim()) return [];
+
+  try {
+    if (mode === 'semantic') {
+      const { data, error } = await supabase.functions.invoke('semantic-search', {
+        body: { query },
+      });
+
+      if (error) {
+        if (error instanceof FunctionsHttpError && error.context.status === 429) {
+          console.warn('⏳ Semantic search rate limit reached, try again in a minute');
+        } else {
+          console.error('❌ Error running semantic search:', error);
+        }
+        return [];
+      }
+      return (data.results as SearchResultRow[]).map(rowToSearchResult);
+    }
+
+    const { data, error } = await supabase.rpc('search_content', { search_query: query });
+
+    if (error) {
+      console.error('❌ Error searching content:', error);
+      return [];
+    }
+    return data.map(rowToSearchResult).sort((a, b) => b.rank - a.rank);
+  } catch (error) {
+    console.error('❌ Error searching content:', error);
+    return [];
+  }
+}
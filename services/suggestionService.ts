@@ -0,0 +1,101 @@
+import { supabase, rowToVideoEntry } from './supabaseService';
+import { VideoEntry, VideoSuggestion, VideoSuggestionStatus } from '../types';
+import type { Tables } from '../database.types';
+
+/**
+ * Converts a video_suggestions row to a VideoSuggestion
+ */
+function rowToVideoSuggestion(row: Tables<'video_suggestions'>): VideoSuggestion {
+  return {
+    videoId: row.video_id,
+    title: row.title || undefined,
+    summary: row.summary || undefined,
+    contentWarning: row.content_warning || undefined,
+    people: row.people,
+    themes: row.themes,
+    model: row.model,
+    status: row.status as VideoSuggestionStatus,
+  };
+}
+
+/**
+ * Fetches what the enrichment job proposed for a video. RLS only returns it to the uploader and moderators.
+ * @returns The suggestion, or null if there is none (yet) or it can't be read
+ */
+export async function fetchVideoSuggestion(videoId: string): Promise<VideoSuggestion | null> {
+  try {
+    const { data, error } = await supabase
+      .from('video_suggestions')
+      .select('*')
+      .eq('video_id', videoId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching video suggestion:', error);
+      return null;
+    }
+
+    return data ? rowToVideoSuggestion(data) : null;
+  } catch (error) {
+    console.error('Error fetching video suggestion:', error);
+    return null;
+  }
+}
+
+/**
+ * Applies a suggestion, as the uploader edited it, to the video and marks it accepted.
+ * Tags are saved separately with setContentTags. Like any edit by the uploader, this sends an
+ * approved video back to the moderation queue (the protect_moderation_status trigger) - the
+ * returned video carries its new status.
+ * @returns The updated video, or null if saving failed
+ */
+export async function acceptVideoSuggestion(
+  videoId: string,
+  changes: Pick<VideoEntry, 'title' | 'summary' | 'contentWarning'>
+): Promise<VideoEntry | null> {
+  try {
+    const { data, error } = await supabase
+      .from('videos')
+      .update({
+        title: changes.title,
+        summary: changes.summary || null,
+        content_warning: changes.contentWarning || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', videoId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error applying video suggestion:', error);
+      return null;
+    }
+
+    if (!(await setVideoSuggestionStatus(videoId, 'accepted'))) return null;
+    return rowToVideoEntry(data);
+  } catch (error) {
+    console.error('Error applying video suggestion:', error);
+    return null;
+  }
+}
+
+/**
+ * Marks a suggestion accepted or dismissed so it isn't offered again
+ */
+export async function setVideoSuggestionStatus(videoId: string, status: VideoSuggestionStatus): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('video_suggestions')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('video_id', videoId);
+
+    if (error) {
+      console.error('Error updating video suggestion:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error updating video suggestion:', error);
+    return false;
+  }
+}
@@ -0,0 +1,73 @@
+import { Tag, TagDraft, TagTarget } from '../types';
+import { supabase, rowToTag } from './supabaseService';
+
+/**
+ * Fetches every tag, for autocomplete and the feed filter
+ */
+export async function fetchTags(): Promise<Tag[]> {
+  try {
+    const { data, error } = await supabase
+      .from('tags')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching tags:', error);
+      return [];
+    }
+
+    return (data || []).map(row => rowToTag(row));
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return [];
+  }
+}
+
+/**
+ * Replaces the tags on a video, article, image or event media item. Tags that don't exist yet are
+ * created; suggested tags that are kept become confirmed. Only the uploader or a moderator may do this.
+ * @returns The item's tags afterwards, or null if saving failed
+ */
+export async function setContentTags(target: TagTarget, itemId: string, tags: TagDraft[]): Promise<Tag[] | null> {
+  try {
+    const { data, error } = await supabase.rpc('set_content_tags', {
+      target,
+      item_id: itemId,
+      new_tags: tags.map(({ kind, name }) => ({ kind, name })),
+    });
+
+    if (error) {
+      console.error('Error saving tags:', error);
+      return null;
+    }
+
+    return (data || []).map(row => rowToTag(row));
+  } catch (error) {
+    console.error('Error saving tags:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetches a video's tags - for rows that arrive without them through realtime
+ */
+export async function fetchVideoTags(videoId: string): Promise<Tag[]> {
+  try {
+    const { data, error } = await supabase
+      .from('video_tags')
+      .select('suggested, tag:tags(*)')
+      .eq('video_id', videoId);
+
+    if (error) {
+      console.error('Error fetching video tags:', error);
+      return [];
+    }
+
+    return (data || [])
+      .filter(link => link.tag)
+      .map(link => rowToTag(link.tag!, link.suggested));
+  } catch (error) {
+    console.error('Error fetching video tags:', error);
+    return [];
+  }
+}
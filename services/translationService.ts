@@ -0,0 +1,77 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabaseService';
+import { TranscriptTranslation, TranscriptUtterance, ProcessingTarget } from '../types';
+import { getLanguageName } from '../utils/languages';
+
+interface TranslatableTranscript {
+  id: string;
+  transcription?: string;
+}
+
+// In-memory cache so switching back and forth doesn't refetch
+const translationCache = new Map<string, TranscriptTranslation>();
+
+/**
+ * Returns the transcript translated into the given language.
+ * Translations are cached in the transcript_translations table so each one is only generated once;
+ * new ones are generated by the translate-transcript edge function, which needs a signed-in user.
+ * @returns The translation, or null if the video has no transcript or translation fails
+ */
+export async function getTranscriptTranslation(
+  video: TranslatableTranscript,
+  languageCode: string,
+  target: ProcessingTarget = 'videos'
+): Promise<TranscriptTranslation | null> {
+  if (!video.transcription) return null;
+
+  const cacheKey = `${target}:${video.id}:${languageCode}`;
+  const cached = translationCache.get(cacheKey);
+  if (cached) return cached;
+
+  try {
+    // 1. Check for a stored translation
+    const { data, error } = await supabase
+      .from('transcript_translations')
+      .select('*')
+      .eq('target', target)
+      .eq('video_id', video.id)
+      .eq('language_code', languageCode)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching transcript translation:', error);
+    }
+
+    if (data) {
+      const stored: TranscriptTranslation = {
+        languageCode: data.language_code,
+        text: data.text,
+        segments: (data.segments as unknown as TranscriptUtterance[] | null) || [],
+      };
+      translationCache.set(cacheKey, stored);
+      return stored;
+    }
+
+    // 2. Have the translate-transcript function generate and store it (signed-in users only)
+    console.log(`🌐 Translating transcript for ${video.id} into ${getLanguageName(languageCode)}...`);
+    const { data: response, error: invokeError } = await supabase.functions.invoke<{ translation: TranscriptTranslation }>(
+      'translate-transcript',
+      { body: { target, id: video.id, languageCode } }
+    );
+
+    if (invokeError || !response?.translation) {
+      if (invokeError instanceof FunctionsHttpError && invokeError.context.status === 429) {
+        console.warn('⏳ Translation rate limit reached, try again in a minute');
+      } else {
+        console.error('Error translating transcript:', invokeError);
+      }
+      return null;
+    }
+
+    translationCache.set(cacheKey, response.translation);
+    return response.translation;
+  } catch (error) {
+    console.error('Error translating transcript:', error);
+    return null;
+  }
+}
@@ -0,0 +1,380 @@
+import { UploadTask, UploadKind, UploadDetails, UploadStatus, VideoEntry, ImageEntry, VoiceEntry, SavedUpload, StorageUploadResult } from '../types';
+import { uploadVideoToStorage, uploadImageToStorage, uploadVoiceToStorage, insertVideo, insertImage, insertVoiceMessage, triggerVideoProcessing, fetchLatestProcessingJob, StorageUploadOptions } from './supabaseService';
+import { setContentTags } from './tagService';
+import { requestSafetyScreening } from './moderationService';
+import { createIdbDatabase } from '../utils/indexedDb';
+import { probeVideoMetadata, formatDuration } from '../utils/videoHelpers';
+import { buildSpeakerNames } from '../utils/captionHelpers';
+import { PLACEHOLDER_THUMBNAIL } from '../utils/constants';
+import { describeUploadError } from '../utils/uploadErrors';
+
+// Tasks and their files are kept apart, so progress updates don't rewrite the file each time
+const DB_NAME = 'dear-naia-uploads';
+const DB_VERSION = 1;
+const TASKS_STORE = 'tasks';
+const FILES_STORE = 'files';
+
+export const UPLOAD_SYNC_TAG = 'dear-naia-uploads'; // Same tag as in public/sw.js
+
+// A few at a time: enough to fill the connection, few enough that each file still finishes promptly
+const MAX_ACTIVE_UPLOADS = 3;
+
+// Statuses with work left to do - picked up again after a reload
+const UNFINISHED_STATUSES: UploadStatus[] = ['queued', 'uploading', 'saving'];
+// Statuses the uploader can still act on (retry or dismiss), so they're kept across reloads too
+const RETRYABLE_STATUSES: UploadStatus[] = ['failed', 'cancelled'];
+
+type StoredTask = Omit<UploadTask, 'file'>;
+
+// Background Sync isn't in TypeScript's DOM types yet
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+const idbRequest = createIdbDatabase(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(TASKS_STORE)) db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+  if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE);
+});
+
+const tasks = new Map<string, UploadTask>();
+const controllers = new Map<string, AbortController>(); // Tasks running right now
+const listeners = new Set<(tasks: UploadTask[]) => void>();
+const savedListeners = new Set<(saved: SavedUpload) => void>();
+let restored: Promise<void> | null = null;
+
+function notify() {
+  const list = [...tasks.values()].sort((a, b) => b.createdAt - a.createdAt);
+  listeners.forEach(listener => listener(list));
+}
+
+async function storeTask(task: UploadTask): Promise<void> {
+  const { file, ...record } = task;
+  try {
+    await idbRequest(TASKS_STORE, 'readwrite', store => store.put(record satisfies StoredTask));
+  } catch (error) {
+    // The upload still runs, it just won't survive a reload
+    console.error('Error saving upload task:', error);
+  }
+}
+
+async function forgetTask(id: string): Promise<void> {
+  try {
+    await idbRequest(TASKS_STORE, 'readwrite', store => store.delete(id));
+    await idbRequest(FILES_STORE, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error('Error removing upload task:', error);
+  }
+}
+
+function updateTask(id: string, changes: Partial<UploadTask>, persist = true) {
+  const task = tasks.get(id);
+  if (!task) return;
+  const updated = { ...task, ...changes, updatedAt: Date.now() };
+  tasks.set(id, updated);
+  if (persist) storeTask(updated);
+  notify();
+}
+
+/**
+ * Asks the service worker to wake this page when the connection is back, in case the
+ * browser doesn't fire 'online' (or the tab is in the background)
+ */
+async function requestBackgroundSync() {
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    const sync = (registration as (ServiceWorkerRegistration & { sync?: SyncManager }) | undefined)?.sync;
+    await sync?.register(UPLOAD_SYNC_TAG);
+  } catch (error) {
+    console.warn('Background sync unavailable:', error);
+  }
+}
+
+/**
+ * Saves an uploaded video's row and tags and queues its processing. A task that's resumed in
+ * 'saving' runs this again, so every step is safe to repeat: the row is only inserted once and
+ * processing is only queued if the video has no transcription job yet.
+ */
+async function saveVideo(task: UploadTask, storageUrl: string): Promise<SavedUpload> {
+  const { personName, title, description, speakers, tags } = task.details;
+  // Duration, size and recording date from the file itself - the worker adds codec/rotation later
+  const metadata = await probeVideoMetadata(task.file);
+
+  const newVideo: VideoEntry = {
+    id: task.id,
+    url: storageUrl,
+    // The processing worker replaces the purple heart with a real poster frame and realtime pushes the update
+    thumbnail: PLACEHOLDER_THUMBNAIL,
+    title: title || `${personName}'s Message`,
+    description: `Who's in the video: ${description}`,
+    timestamp: task.createdAt,
+    durationString: metadata.durationSeconds !== undefined ? formatDuration(metadata.durationSeconds) : '00:00',
+    ...metadata,
+    // Map diarization labels (A, B, ...) to the names given in speaking order
+    speakerNames: speakers.length > 0 ? buildSpeakerNames(speakers) : undefined,
+  };
+
+  const savedVideo = await insertVideo(newVideo);
+  if (!savedVideo) throw new Error('Failed to save video to database');
+  const savedTags = tags.length > 0 ? await setContentTags('videos', savedVideo.id, tags) : null;
+
+  // Transcription, poster frame, metadata and HLS. Screening follows the transcript, so it
+  // joins the feed (via realtime) once that passes or a moderator approves it
+  const job = await fetchLatestProcessingJob(savedVideo.id) || await triggerVideoProcessing(savedVideo.id);
+  return { kind: 'video', entry: { ...savedVideo, tags: savedTags || undefined }, job };
+}
+
+/**
+ * Saves an uploaded image's row and tags and has it screened. Safe to repeat, like saveVideo -
+ * screening leaves an image alone once it's been decided.
+ */
+async function saveImage(task: UploadTask, storageUrl: string): Promise<SavedUpload> {
+  const { personName, title, description, tags } = task.details;
+  const newImage: ImageEntry = {
+    id: task.id,
+    url: storageUrl,
+    title: title || `${personName}'s Message`,
+    description,
+    timestamp: task.createdAt,
+  };
+
+  const savedImage = await insertImage(newImage);
+  if (!savedImage) throw new Error('Failed to save image to database');
+  const savedTags = tags.length > 0 ? await setContentTags('images', savedImage.id, tags) : null;
+  // Automated screening approves clean submissions; the rest wait for a moderator
+  const status = await requestSafetyScreening('images', savedImage.id);
+  return { kind: 'image', entry: { ...savedImage, moderation_status: status || 'pending', tags: savedTags || undefined } };
+}
+
+/**
+ * Saves a recorded voice message's row and queues its transcription. Safe to repeat, like saveVideo.
+ */
+async function saveVoiceMessage(task: UploadTask, storageUrl: string): Promise<SavedUpload> {
+  const { personName, title, description, waveform, durationSeconds, speakerPhotoUrl } = task.details;
+  const newVoice: VoiceEntry = {
+    id: task.id,
+    url: storageUrl,
+    title: title || `${personName}'s Voice Message`,
+    description,
+    personName,
+    speakerPhotoUrl,
+    timestamp: task.createdAt,
+    durationSeconds,
+    waveform: waveform || [],
+  };
+
+  const savedVoice = await insertVoiceMessage(newVoice);
+  if (!savedVoice) throw new Error('Failed to save voice message to database');
+
+  // Only the transcript - there's no picture for the worker to process. Screening follows it.
+  const job = await fetchLatestProcessingJob(savedVoice.id, 'voice_messages')
+    || await triggerVideoProcessing(savedVoice.id, 'voice_messages', []);
+  return { kind: 'voice', entry: savedVoice, job };
+}
+
+const uploadToStorage = (task: UploadTask, options: StorageUploadOptions): Promise<StorageUploadResult> => {
+  switch (task.kind) {
+    case 'video':
+      return uploadVideoToStorage(task.file, task.id, options);
+    case 'image':
+      return uploadImageToStorage(task.file, task.id, options);
+    case 'voice':
+      return uploadVoiceToStorage(task.file, task.id, options);
+  }
+};
+
+const saveUpload = (task: UploadTask, storageUrl: string): Promise<SavedUpload> => {
+  switch (task.kind) {
+    case 'video':
+      return saveVideo(task, storageUrl);
+    case 'image':
+      return saveImage(task, storageUrl);
+    case 'voice':
+      return saveVoiceMessage(task, storageUrl);
+  }
+};
+
+/**
+ * Parks a task until the connection is back - an interrupted upload then carries on from the last chunk
+ */
+function waitForConnection(id: string) {
+  updateTask(id, { status: 'queued', error: 'Waiting for a connection' });
+  requestBackgroundSync();
+}
+
+async function runTask(id: string) {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    let task = tasks.get(id)!;
+    let storageUrl = task.storageUrl;
+
+    if (!storageUrl) {
+      updateTask(id, { status: 'uploading', error: undefined, errorKind: undefined });
+      const options = {
+        onProgress: (progress: number) => updateTask(id, { progress }, false),
+        signal: controller.signal,
+      };
+      const result = await uploadToStorage(task, options);
+
+      if ('error' in result) {
+        if (result.error === 'cancelled' || controller.signal.aborted) return;
+        if (result.error === 'network' && !navigator.onLine) {
+          waitForConnection(id);
+        } else {
+          updateTask(id, { status: 'failed', errorKind: result.error, error: describeUploadError(result.error, result.message) });
+        }
+        return;
+      }
+      storageUrl = result.url;
+    }
+
+    // Once the file is in storage, a reload carries on from here rather than uploading it again
+    updateTask(id, { status: 'saving', progress: 100, storageUrl, error: undefined, errorKind: undefined });
+    task = tasks.get(id)!;
+    const saved = await saveUpload(task, storageUrl);
+
+    updateTask(id, {
+      status: saved.kind === 'image' ? 'done' : 'processing',
+      moderationStatus: saved.kind === 'image' ? saved.entry.moderation_status : saved.entry.moderationStatus,
+    }, false);
+    // Nothing left to resume - the tray keeps showing it until it's dismissed or the page reloads
+    forgetTask(id);
+    savedListeners.forEach(listener => listener(saved));
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error('Upload failed', error);
+
+    if (!navigator.onLine) {
+      waitForConnection(id);
+    } else {
+      updateTask(id, { status: 'failed', error: error instanceof Error ? error.message : 'Upload failed' });
+    }
+  } finally {
+    controllers.delete(id);
+    startQueuedUploads();
+  }
+}
+
+function startQueuedUploads() {
+  if (!navigator.onLine) return;
+  const queued = [...tasks.values()]
+    .filter(task => task.status === 'queued' && !controllers.has(task.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+  queued.slice(0, Math.max(0, MAX_ACTIVE_UPLOADS - controllers.size)).forEach(task => runTask(task.id));
+}
+
+/**
+ * Loads the uploads left over from the last visit and carries on with them. Finished ones
+ * are forgotten; failed and cancelled ones stay in the tray for a retry.
+ * Safe to call more than once.
+ */
+export function resumeUploads(): Promise<void> {
+  if (!restored) {
+    window.addEventListener('online', startQueuedUploads);
+    // public/sw.js posts this when background sync fires
+    navigator.serviceWorker?.addEventListener('message', (event) => {
+      if (event.data?.type === 'resume-uploads') startQueuedUploads();
+    });
+
+    restored = (async () => {
+      try {
+        const stored = await idbRequest<StoredTask[]>(TASKS_STORE, 'readonly', store => store.getAll());
+        for (const record of stored) {
+          const file = await idbRequest<File | undefined>(FILES_STORE, 'readonly', store => store.get(record.id));
+          if (!file || ![...UNFINISHED_STATUSES, ...RETRYABLE_STATUSES].includes(record.status)) {
+            await forgetTask(record.id);
+            continue;
+          }
+          if (tasks.has(record.id)) continue;
+          const status = UNFINISHED_STATUSES.includes(record.status) ? 'queued' : record.status;
+          tasks.set(record.id, { ...record, file, status });
+        }
+        if (stored.length > 0) console.log(`📤 Restored ${tasks.size} upload(s) from the last visit`);
+      } catch (error) {
+        console.error('Error restoring uploads:', error);
+      }
+      notify();
+      startQueuedUploads();
+    })();
+  }
+  return restored;
+}
+
+/**
+ * Adds a file to the upload queue. It's kept on this device until it's saved, so closing
+ * the tab or losing the connection only pauses it.
+ * @param batchId - Groups files picked together, so the tray can sum up how the batch went
+ * @returns The task ID, which is also the ID of the video, image or voice message it becomes
+ */
+export async function enqueueUpload(kind: UploadKind, file: File, details: UploadDetails, batchId?: string): Promise<string> {
+  const now = Date.now();
+  const task: UploadTask = {
+    id: crypto.randomUUID(),
+    kind,
+    batchId,
+    file,
+    details,
+    status: 'queued',
+    progress: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  tasks.set(task.id, task);
+  notify();
+
+  try {
+    await idbRequest(FILES_STORE, 'readwrite', store => store.put(file, task.id));
+  } catch (error) {
+    console.error('Error saving upload file:', error);
+  }
+  await storeTask(task);
+  startQueuedUploads();
+  return task.id;
+}
+
+/**
+ * Stops a queued or uploading file. Once it's saving there's nothing left to cancel.
+ */
+export function cancelUpload(id: string) {
+  const task = tasks.get(id);
+  if (!task || (task.status !== 'queued' && task.status !== 'uploading')) return;
+  controllers.get(id)?.abort();
+  updateTask(id, { status: 'cancelled', progress: 0, error: undefined });
+}
+
+export function retryUpload(id: string) {
+  const task = tasks.get(id);
+  if (!task || !RETRYABLE_STATUSES.includes(task.status)) return;
+  updateTask(id, { status: 'queued', error: undefined });
+  startQueuedUploads();
+}
+
+/**
+ * Removes a finished, failed or cancelled upload from the tray (and its file from this device)
+ */
+export function dismissUpload(id: string) {
+  const task = tasks.get(id);
+  if (!task || controllers.has(id) || task.status === 'queued') return;
+  tasks.delete(id);
+  forgetTask(id);
+  notify();
+}
+
+/**
+ * Calls back with every upload, newest first, whenever one changes
+ * @returns Unsubscribe function
+ */
+export function onUploadsChange(callback: (tasks: UploadTask[]) => void): () => void {
+  listeners.add(callback);
+  return () => listeners.delete(callback);
+}
+
+/**
+ * Calls back when an upload has been saved to the database
+ * @returns Unsubscribe function
+ */
+export function onUploadSaved(callback: (saved: SavedUpload) => void): () => void {
+  savedListeners.add(callback);
+  return () => savedListeners.delete(callback);
+}
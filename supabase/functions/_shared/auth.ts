@@ -0,0 +1,48 @@
+/**
+ * Caller identity for edge functions. The gateway verifies the JWT signature (verify_jwt = true in
+ * config.toml); this works out who the token belongs to and which app role they have.
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+// Same order as the app_role enum in the database - later roles include the earlier ones
+export const APP_ROLES = ['viewer', 'contributor', 'moderator', 'admin'] as const;
+export type AppRole = typeof APP_ROLES[number];
+
+export interface Caller {
+  userId: string | null;
+  role: AppRole | null; // null for signed-out callers (anon key)
+  isService: boolean; // Called with the service role key (cron, other functions)
+}
+
+/**
+ * Identifies the caller from the Authorization header
+ * @param supabase - A service role client, used to look the user's profile up
+ */
+export async function getCaller(req: Request, supabase: SupabaseClient): Promise<Caller> {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
+  const anonymous: Caller = { userId: null, role: null, isService: false };
+
+  if (!token) return anonymous;
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return { userId: null, role: 'admin', isService: true };
+  }
+
+  // Anon key JWTs have no user, so this fails for signed-out callers too
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return anonymous;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', data.user.id)
+    .maybeSingle();
+
+  return { userId: data.user.id, role: profile?.role || 'viewer', isService: false };
+}
+
+/**
+ * Whether the caller has at least the given role
+ */
+export function hasRole(caller: Caller, minimum: AppRole): boolean {
+  return caller.role !== null && APP_ROLES.indexOf(caller.role) >= APP_ROLES.indexOf(minimum);
+}
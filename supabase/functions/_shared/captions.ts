@@ -0,0 +1,93 @@
+/**
+ * Caption file generation (WebVTT / SRT) from word-level transcript timings.
+ * Cue grouping mirrors utils/captionHelpers.ts so the files match the live captions in the app.
+ */
+
+export interface CaptionWord {
+  text: string;
+  start: number; // Milliseconds
+  end: number; // Milliseconds
+  speaker?: string; // Diarization label (A, B, ...)
+}
+
+interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+const MAX_CUE_CHARS = 42;
+const MAX_CUE_DURATION_MS = 4000;
+const MAX_WORD_GAP_MS = 1200;
+
+function buildCues(words: CaptionWord[]): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let current: CaptionCue | null = null;
+
+  for (const word of words) {
+    const startsNewCue =
+      !current ||
+      current.speaker !== word.speaker ||
+      current.text.length + word.text.length + 1 > MAX_CUE_CHARS ||
+      word.end - current.start > MAX_CUE_DURATION_MS ||
+      word.start - current.end > MAX_WORD_GAP_MS;
+
+    if (startsNewCue) {
+      current = { start: word.start, end: word.end, text: word.text, speaker: word.speaker };
+      cues.push(current);
+    } else if (current) {
+      current.text += ` ${word.text}`;
+      current.end = word.end;
+    }
+  }
+
+  return cues;
+}
+
+function formatTimestamp(ms: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(ms));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const millis = totalMs % 1000;
+  const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function hasMultipleSpeakers(words: CaptionWord[]): boolean {
+  return new Set(words.map(word => word.speaker).filter(Boolean)).size > 1;
+}
+
+function speakerName(speaker: string, speakerNames: Record<string, string>): string {
+  return speakerNames[speaker] || `Speaker ${speaker}`;
+}
+
+/**
+ * Builds a WebVTT document suitable for <track kind="captions">
+ * Multi-speaker transcripts use voice spans (<v Name>) so players can show who is talking
+ */
+export function toWebVtt(words: CaptionWord[], speakerNames: Record<string, string> = {}): string {
+  const withVoices = hasMultipleSpeakers(words);
+  const body = buildCues(words)
+    .map((cue, index) => {
+      const text = withVoices && cue.speaker ? `<v ${speakerName(cue.speaker, speakerNames)}>${cue.text}` : cue.text;
+      return `${index + 1}\n${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${text}`;
+    })
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * Builds an SRT document for download / editing tools
+ * SRT has no voice spans, so multi-speaker cues are prefixed with the speaker's name
+ */
+export function toSrt(words: CaptionWord[], speakerNames: Record<string, string> = {}): string {
+  const withVoices = hasMultipleSpeakers(words);
+  return buildCues(words)
+    .map((cue, index) => {
+      const text = withVoices && cue.speaker ? `${speakerName(cue.speaker, speakerNames)}: ${cue.text}` : cue.text;
+      return `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${text}`;
+    })
+    .join('\n\n') + '\n';
+}
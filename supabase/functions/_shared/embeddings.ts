@@ -0,0 +1,78 @@
+/**
+ * Gemini text embeddings for semantic search (GEMINI_API_KEY). Approved content gets an embedding of
+ * its title, description and transcript (stored in search_embeddings); search queries are embedded
+ * the same way and matched with the match_content database function.
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+const EMBEDDING_MODEL = 'text-embedding-004';
+// Must match search_embeddings.embedding (vector(768))
+export const EMBEDDING_DIMENSIONS = 768;
+// Long transcripts are cut down - the start of a message says most about what it's about
+const MAX_EMBEDDING_CHARS = 8000;
+
+export type EmbeddingTaskType = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY';
+
+export const isSemanticSearchEnabled = (): boolean => !!Deno.env.get('GEMINI_API_KEY');
+
+export async function embedText(text: string, taskType: EmbeddingTaskType): Promise<number[]> {
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is not set');
+  }
+
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${EMBEDDING_MODEL}:embedContent?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: `models/${EMBEDDING_MODEL}`,
+        content: { parts: [{ text: text.slice(0, MAX_EMBEDDING_CHARS) }] },
+        taskType,
+        outputDimensionality: EMBEDDING_DIMENSIONS,
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Gemini embedding request failed: ${response.status} ${await response.text()}`);
+  }
+
+  const result = await response.json();
+  const values = result.embedding?.values;
+  if (!Array.isArray(values) || values.length !== EMBEDDING_DIMENSIONS) {
+    throw new Error('Unexpected embedding response from Gemini');
+  }
+  return values;
+}
+
+/** pgvector accepts vectors as '[0.1,0.2,...]' strings */
+export const toVectorLiteral = (values: number[]): string => `[${values.join(',')}]`;
+
+/**
+ * Embeds up to `limit` approved items that don't have an embedding yet (new uploads, and items whose
+ * text changed - the reset_search_embedding trigger drops stale ones). Returns how many were filled.
+ */
+export async function fillMissingEmbeddings(supabase: SupabaseClient, limit = 20): Promise<number> {
+  const { data: missing, error } = await supabase.rpc('content_missing_embeddings', { batch_size: limit });
+  if (error) throw error;
+
+  let filled = 0;
+  for (const item of (missing || []) as { result_type: string; id: string; content: string }[]) {
+    if (!item.content.trim()) continue;
+
+    try {
+      const embedding = await embedText(item.content, 'RETRIEVAL_DOCUMENT');
+      const { error: upsertError } = await supabase
+        .from('search_embeddings')
+        .upsert({ result_type: item.result_type, item_id: item.id, embedding: toVectorLiteral(embedding) });
+      if (upsertError) throw upsertError;
+      filled++;
+    } catch (embedError) {
+      console.error(`❌ Failed to embed ${item.result_type} ${item.id}:`, embedError);
+    }
+  }
+
+  return filled;
+}
@@ -0,0 +1,70 @@
+/**
+ * Gemini enrichment (GEMINI_API_KEY). Same model and structured JSON output as the safety
+ * classifier; the sampled frames are sent inline alongside the transcript.
+ */
+import { encodeBase64 } from 'jsr:@std/encoding/base64';
+import { EnrichmentInput, EnrichmentModel, EnrichmentResult, toEnrichmentResult } from './types.ts';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const PROMPT = 'You help file video messages that family and friends recorded for a teenage girl, Naia. ' +
+  'From the transcript, the uploader\'s notes and the attached stills from the video, suggest: a short, warm ' +
+  'title (at most 6 words, no quotes); a one-sentence summary of what the message says; the first names ' +
+  '(or family names like "Aunt Maya") of people who appear or speak - never guess names you can\'t see or hear; ' +
+  'up to 5 one- or two-word themes such as birthday, advice or travel; and a short content warning only if ' +
+  'the message deals with something upsetting such as illness, death or an accident, otherwise an empty string.';
+
+const RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    title: { type: 'STRING' },
+    summary: { type: 'STRING' },
+    people: { type: 'ARRAY', items: { type: 'STRING' } },
+    themes: { type: 'ARRAY', items: { type: 'STRING' } },
+    contentWarning: { type: 'STRING' },
+  },
+  required: ['title', 'summary', 'people', 'themes', 'contentWarning'],
+};
+
+export const geminiEnrichmentModel: EnrichmentModel = {
+  name: 'gemini',
+
+  async enrich(input: EnrichmentInput): Promise<EnrichmentResult> {
+    const apiKey = Deno.env.get('GEMINI_API_KEY');
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not set');
+    }
+
+    const parts: any[] = [{
+      text: `${PROMPT}\n\nUploader's title: ${input.title || '(none)'}\n` +
+        `Uploader's notes: ${input.description || '(none)'}\n\nTranscript:\n${input.transcript || '(no speech)'}`,
+    }];
+    for (const frame of input.frames) {
+      parts.push({ inlineData: { mimeType: frame.mimeType, data: encodeBase64(frame.data) } });
+    }
+
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{ parts }],
+          generationConfig: { responseMimeType: 'application/json', responseSchema: RESPONSE_SCHEMA },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Gemini request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      throw new Error(`No response from Gemini${result.promptFeedback?.blockReason ? ` (${result.promptFeedback.blockReason})` : ''}`);
+    }
+
+    return toEnrichmentResult(JSON.parse(text));
+  },
+};
@@ -0,0 +1,64 @@
+/**
+ * AI enrichment, selected with the ENRICHMENT_MODEL secret:
+ *   gemini (default when GEMINI_API_KEY is set) - reads the transcript and sampled frames
+ *   mock                                        - offline and deterministic, for local testing
+ * With neither configured, enrichment is off and no 'enrichment' jobs are queued.
+ * Suggestions are only ever proposals: nothing changes on the video until its uploader accepts them.
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { geminiEnrichmentModel } from './gemini.ts';
+import { mockEnrichmentModel } from './mock.ts';
+import { EnrichmentModel, EnrichmentModelName, EnrichmentResult } from './types.ts';
+
+export * from './types.ts';
+
+const MODELS: Record<EnrichmentModelName, EnrichmentModel> = {
+  gemini: geminiEnrichmentModel,
+  mock: mockEnrichmentModel,
+};
+
+export const DEFAULT_ENRICHMENT_MODEL: EnrichmentModelName | null =
+  (Deno.env.get('ENRICHMENT_MODEL') as EnrichmentModelName) || (Deno.env.get('GEMINI_API_KEY') ? 'gemini' : null);
+
+export function isEnrichmentEnabled(): boolean {
+  return DEFAULT_ENRICHMENT_MODEL !== null;
+}
+
+/**
+ * Returns the named model, or the configured default
+ */
+export function getEnrichmentModel(name: string | null = DEFAULT_ENRICHMENT_MODEL): EnrichmentModel {
+  const model = name ? MODELS[name as EnrichmentModelName] : undefined;
+  if (!model) {
+    throw new Error(`Unknown enrichment model: ${name} (expected one of ${Object.keys(MODELS).join(', ')})`);
+  }
+  return model;
+}
+
+/**
+ * Stores a fresh suggestion for a video, replacing any earlier one (e.g. after re-transcribing)
+ */
+export async function saveVideoSuggestion(
+  supabase: SupabaseClient,
+  videoId: string,
+  model: EnrichmentModelName,
+  result: EnrichmentResult
+): Promise<void> {
+  const { error } = await supabase
+    .from('video_suggestions')
+    .upsert({
+      video_id: videoId,
+      title: result.title,
+      summary: result.summary,
+      content_warning: result.contentWarning,
+      people: result.people,
+      themes: result.themes,
+      model,
+      status: 'pending',
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    throw new Error(`Failed to save suggestions: ${error.message}`);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Deterministic stand-in for the enrichment model. Needs no network or API key, so the whole
+ * transcribe -> enrich -> review flow can run offline (ENRICHMENT_MODEL=mock) and gives the same
+ * suggestions for the same input every time. It ignores the frames.
+ */
+import { EnrichmentInput, EnrichmentModel, EnrichmentResult, toEnrichmentResult } from './types.ts';
+
+const THEMES: Record<string, RegExp> = {
+  birthday: /\bbirthday|\bcake\b|\bcandles?\b/i,
+  holidays: /\bchristmas|\bthanksgiving|\bhanukkah|\bdiwali|\beid\b|\bholidays?\b/i,
+  school: /\bschool|\bteacher|\bclass(es)?\b|\bhomework/i,
+  graduation: /\bgraduat/i,
+  travel: /\btrip\b|\btravel|\bvacation|\bflight/i,
+  advice: /\badvice|\bremember to\b|\bpromise me\b|\bnever forget\b/i,
+  music: /\bsing|\bsong|\bmusic|\bpiano|\bguitar/i,
+  sports: /\bsoccer|\bfootball|\bbasketball|\bswim|\bgame\b/i,
+};
+
+const CONTENT_WARNINGS: [RegExp, string][] = [
+  [/\bpassed away|\bfuneral|\bdied\b|\bdeath\b/i, 'Talks about a death in the family'],
+  [/\bhospital|\bcancer|\bsurgery|\bchemo/i, 'Talks about illness'],
+  [/\baccident|\binjur/i, 'Talks about an accident'],
+];
+
+const NOT_NAMES = new Set(['me', 'i', 'myself', 'us', 'we', 'just me', 'my family', 'family', 'everyone', 'all of us']);
+
+/**
+ * Names from the upload form's "Who's in the video: ..." description - the same rule as the
+ * tags backfill (description_person_names in the database)
+ */
+function namesFromDescription(description: string): string[] {
+  const match = description.match(/who'?s in the video:\s*(.+)/i);
+  if (!match) return [];
+  return match[1]
+    .split(/\s*(?:,|&|\+|\/|;|\band\b|\bwith\b)\s*/i)
+    .map(name => name.trim().replace(/[.!]+$/, ''))
+    .filter(name => /^\p{Lu}/u.test(name) && !NOT_NAMES.has(name.toLowerCase()));
+}
+
+const firstSentence = (text: string): string => text.trim().split(/(?<=[.!?])\s+/)[0] || '';
+
+export const mockEnrichmentModel: EnrichmentModel = {
+  name: 'mock',
+
+  enrich(input: EnrichmentInput): Promise<EnrichmentResult> {
+    const opening = firstSentence(input.transcript).replace(/[.!?]+$/, '');
+    const text = `${input.transcript}\n${input.description}`;
+
+    return Promise.resolve(toEnrichmentResult({
+      title: opening ? opening.split(/\s+/).slice(0, 6).join(' ') : input.title,
+      summary: opening ? `${opening}.` : null,
+      people: namesFromDescription(input.description),
+      themes: Object.keys(THEMES).filter(theme => THEMES[theme].test(text)),
+      contentWarning: CONTENT_WARNINGS.find(([pattern]) => pattern.test(text))?.[1] ?? null,
+    }));
+  },
+};
@@ -0,0 +1,77 @@
+import { assertEquals, assertThrows } from 'jsr:@std/assert@1';
+import { getEnrichmentModel, toEnrichmentResult } from './index.ts';
+import { EnrichmentInput } from './types.ts';
+
+const input = (overrides: Partial<EnrichmentInput> = {}): EnrichmentInput => ({
+  title: "Maya's Message",
+  description: '',
+  transcript: '',
+  frames: [],
+  ...overrides,
+});
+
+Deno.test('mock model suggests a title and summary from the opening sentence', async () => {
+  const result = await getEnrichmentModel('mock').enrich(input({
+    transcript: 'Happy sixteenth birthday to my favourite niece in the whole world! We miss you so much.',
+  }));
+  assertEquals(result.title, 'Happy sixteenth birthday to my favourite');
+  assertEquals(result.summary, 'Happy sixteenth birthday to my favourite niece in the whole world.');
+  assertEquals(result.themes, ['birthday']);
+  assertEquals(result.contentWarning, null);
+});
+
+Deno.test('mock model keeps the uploaded title when there is no transcript', async () => {
+  const result = await getEnrichmentModel('mock').enrich(input());
+  assertEquals(result.title, "Maya's Message");
+  assertEquals(result.summary, null);
+  assertEquals(result.people, []);
+  assertEquals(result.themes, []);
+});
+
+Deno.test('mock model takes people from the description, like the tags backfill', async () => {
+  const result = await getEnrichmentModel('mock').enrich(input({
+    description: "Who's in the video: Grandma, Uncle Joe and me",
+  }));
+  assertEquals(result.people, ['Grandma', 'Uncle Joe']);
+});
+
+Deno.test('mock model finds themes and content warnings in the transcript and description', async () => {
+  const result = await getEnrichmentModel('mock').enrich(input({
+    transcript: 'I wish I could be at your graduation. Grandpa was in the hospital last spring.',
+    description: 'Recorded on our trip to Lisbon',
+  }));
+  assertEquals(result.themes, ['graduation', 'travel']);
+  assertEquals(result.contentWarning, 'Talks about illness');
+});
+
+Deno.test('mock model gives the same suggestions for the same input', async () => {
+  const model = getEnrichmentModel('mock');
+  const same = input({ transcript: 'Sing that song for me again. Love you.', description: "Who's in the video: Dad" });
+  assertEquals(await model.enrich(same), await model.enrich(same));
+});
+
+Deno.test('unknown models are rejected', () => {
+  assertThrows(() => getEnrichmentModel('gpt'), Error, 'Unknown enrichment model: gpt');
+});
+
+Deno.test('toEnrichmentResult trims, shortens and de-duplicates model output', () => {
+  const result = toEnrichmentResult({
+    title: '  A   very long title that goes on and on well past the sixty character limit  ',
+    summary: '',
+    people: ['Maya', 'maya', ' Joe ', 42, null],
+    themes: ['Birthday', 'MUSIC'],
+    contentWarning: null,
+  });
+  assertEquals(result.title, 'A very long title that goes on and on well past the sixty c…');
+  assertEquals(result.summary, null);
+  assertEquals(result.people, ['Maya', 'Joe']);
+  assertEquals(result.themes, ['birthday', 'music']);
+  assertEquals(result.contentWarning, null);
+});
+
+Deno.test('toEnrichmentResult turns anything that is not an object into an empty result', () => {
+  const empty = { title: null, summary: null, people: [], themes: [], contentWarning: null };
+  for (const raw of [null, undefined, 'a title', 42, ['a title']]) {
+    assertEquals(toEnrichmentResult(raw), empty);
+  }
+});
@@ -0,0 +1,65 @@
+/**
+ * The enrichment model contract. Whichever model runs, the worker stores the same suggestion
+ * shape in video_suggestions for the uploader to accept, edit or dismiss.
+ */
+
+export type EnrichmentModelName = 'gemini' | 'mock';
+
+export interface EnrichmentInput {
+  title: string; // What the uploader called it - usually just "<name>'s Message"
+  description: string;
+  transcript: string;
+  frames: { data: Uint8Array; mimeType: string }[]; // A few stills sampled across the video
+}
+
+export interface EnrichmentResult {
+  title: string | null;
+  summary: string | null; // One line
+  people: string[]; // Names of people seen or mentioned
+  themes: string[]; // e.g. 'birthday', 'graduation'
+  contentWarning: string | null; // Null unless the message has something a viewer should be warned about
+}
+
+export interface EnrichmentModel {
+  name: EnrichmentModelName;
+  enrich(input: EnrichmentInput): Promise<EnrichmentResult>;
+}
+
+const MAX_TITLE_LENGTH = 60;
+const MAX_SUMMARY_LENGTH = 160;
+const MAX_TAGS = 8;
+
+const cleanText = (value: unknown, maxLength: number): string | null => {
+  const text = typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : '';
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
+
+const cleanList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value
+    .map(item => cleanText(item, MAX_TITLE_LENGTH))
+    .filter((item): item is string => {
+      if (!item || seen.has(item.toLowerCase())) return false;
+      seen.add(item.toLowerCase());
+      return true;
+    })
+    .slice(0, MAX_TAGS);
+};
+
+/**
+ * Trims whatever a model returned into a result that fits the suggestion columns
+ */
+export function toEnrichmentResult(raw: unknown): EnrichmentResult {
+  const fields: Record<string, unknown> = typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+    ? raw as Record<string, unknown>
+    : {};
+  return {
+    title: cleanText(fields.title, MAX_TITLE_LENGTH),
+    summary: cleanText(fields.summary, MAX_SUMMARY_LENGTH),
+    people: cleanList(fields.people),
+    themes: cleanList(fields.themes).map(theme => theme.toLowerCase()),
+    contentWarning: cleanText(fields.contentWarning, MAX_SUMMARY_LENGTH),
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Helpers for the processing_jobs queue shared by process-video, assemblyai-webhook, retry-processing-jobs
+ * and the ffmpeg worker (worker/).
+ * Jobs move queued -> processing -> completed, or back to queued (with backoff) until
+ * they run out of attempts and end up failed.
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+export const PROCESSING_TARGETS = ['videos', 'event_media', 'voice_messages'] as const;
+export type ProcessingTarget = typeof PROCESSING_TARGETS[number];
+
+// 'transcription' jobs run in the process-video edge function, the rest in the ffmpeg worker
+export const PROCESSING_JOB_TYPES = ['transcription', 'thumbnail', 'metadata', 'hls', 'enrichment', 'screening'] as const;
+export type ProcessingJobType = typeof PROCESSING_JOB_TYPES[number];
+
+export interface ProcessingJob {
+  id: string;
+  target: ProcessingTarget;
+  job_type: ProcessingJobType;
+  video_id: string;
+  video_url: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  provider: string | null; // Transcription provider of the current attempt
+  provider_job_id: string | null; // The provider's job ID, for asynchronous providers
+  next_attempt_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+const BASE_RETRY_DELAY_MS = 60 * 1000; // 1 minute, doubled after every failed attempt
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // Never wait more than an hour
+
+/**
+ * Exponential backoff: 1m, 2m, 4m, 8m... capped at an hour
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Returns the video's waiting/running job of the given type, creating a queued one if there is none
+ */
+export async function findOrEnqueueJob(
+  supabase: SupabaseClient,
+  target: ProcessingTarget,
+  videoId: string,
+  videoUrl: string,
+  jobType: ProcessingJobType = 'transcription'
+): Promise<ProcessingJob> {
+  const { data: existing } = await supabase
+    .from('processing_jobs')
+    .select('*')
+    .eq('target', target)
+    .eq('video_id', videoId)
+    .eq('job_type', jobType)
+    .in('status', ['queued', 'processing'])
+    .maybeSingle();
+
+  if (existing) return existing as ProcessingJob;
+
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .insert({ target, video_id: videoId, video_url: videoUrl, job_type: jobType })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue processing job: ${error?.message}`);
+  }
+  return data as ProcessingJob;
+}
+
+/**
+ * Atomically moves a queued job to processing and counts the attempt.
+ * Returns null if someone else already claimed it (or it isn't queued anymore).
+ */
+export async function claimJob(supabase: SupabaseClient, job: ProcessingJob): Promise<ProcessingJob | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .update({
+      status: 'processing',
+      attempts: job.attempts + 1,
+      provider: null,
+      provider_job_id: null,
+      started_at: now,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('status', 'queued')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Failed to claim processing job:', error);
+    return null;
+  }
+  return data as ProcessingJob | null;
+}
+
+/**
+ * Claims the next due job of a type, for workers polling the queue
+ * @returns The claimed job, or null if nothing is due
+ */
+export async function claimNextJob(supabase: SupabaseClient, jobType: ProcessingJobType): Promise<ProcessingJob | null> {
+  const { data: dueJobs, error } = await supabase
+    .from('processing_jobs')
+    .select('*')
+    .eq('job_type', jobType)
+    .eq('status', 'queued')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(5);
+
+  if (error) {
+    console.error('❌ Failed to fetch due processing jobs:', error);
+    return null;
+  }
+
+  // Another worker may claim a job between the select and the update - try the next one
+  for (const job of (dueJobs || []) as ProcessingJob[]) {
+    const claimed = await claimJob(supabase, job);
+    if (claimed) return claimed;
+  }
+  return null;
+}
+
+export async function completeJob(supabase: SupabaseClient, job: ProcessingJob): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('processing_jobs')
+    .update({ status: 'completed', last_error: null, completed_at: now, updated_at: now })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error('❌ Failed to mark processing job completed:', error);
+  }
+}
+
+/**
+ * Records a failed attempt. The job is re-queued with backoff until it runs out of attempts.
+ */
+export async function failJob(supabase: SupabaseClient, job: ProcessingJob, message: string): Promise<void> {
+  const now = new Date();
+  const exhausted = job.attempts >= job.max_attempts;
+  const nextAttemptAt = new Date(now.getTime() + retryDelayMs(job.attempts));
+
+  const { error } = await supabase
+    .from('processing_jobs')
+    .update({
+      status: exhausted ? 'failed' : 'queued',
+      last_error: message.substring(0, 1000),
+      next_attempt_at: nextAttemptAt.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error('❌ Failed to record processing job failure:', error);
+    return;
+  }
+
+  if (exhausted) {
+    console.error(`❌ Job ${job.id} failed permanently after ${job.attempts} attempts: ${message}`);
+  } else {
+    console.warn(`⚠️ Job ${job.id} attempt ${job.attempts} failed, retrying at ${nextAttemptAt.toISOString()}: ${message}`);
+  }
+}
+
+/**
+ * Remembers which provider is handling the job's current attempt (and its job ID, for asynchronous ones)
+ */
+export async function setJobProvider(
+  supabase: SupabaseClient,
+  job: ProcessingJob,
+  provider: string,
+  providerJobId: string | null = null
+): Promise<void> {
+  const { error } = await supabase
+    .from('processing_jobs')
+    .update({ provider, provider_job_id: providerJobId, updated_at: new Date().toISOString() })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error('❌ Failed to store provider on processing job:', error);
+  }
+}
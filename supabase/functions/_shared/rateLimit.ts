@@ -0,0 +1,30 @@
+/**
+ * Per-caller rate limiting for edge functions that call paid APIs, counted in the rate_limits
+ * table by the hit_rate_limit database function.
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+export interface RateLimit {
+  maxHits: number;
+  windowSeconds: number;
+}
+
+/**
+ * Counts one request against bucket (e.g. 'semantic-search:<user id>')
+ * @param supabase - A service role client
+ * @returns Whether the request is within the limit. Lets the request through if the count fails,
+ * so a database hiccup doesn't take the feature down with it.
+ */
+export async function hitRateLimit(supabase: SupabaseClient, bucket: string, limit: RateLimit): Promise<boolean> {
+  const { data, error } = await supabase.rpc('hit_rate_limit', {
+    bucket,
+    max_hits: limit.maxHits,
+    window_seconds: limit.windowSeconds,
+  });
+
+  if (error) {
+    console.error(`⚠️ Could not count request for ${bucket}:`, error.message);
+    return true;
+  }
+  return data === true;
+}
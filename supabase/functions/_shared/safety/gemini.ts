@@ -0,0 +1,85 @@
+/**
+ * Gemini classifier (GEMINI_API_KEY). Same model and structured JSON output as the transcript
+ * translations in ../translation.ts; photos and video stills are sent inline alongside the text.
+ */
+import { encodeBase64 } from 'jsr:@std/encoding/base64';
+import { SafetyClassifier, SafetyInput, SafetyVerdict, toVerdict } from './types.ts';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const PROMPT = 'You screen submissions to a private memory board of family video messages, articles and photos ' +
+  'made for a teenage girl. Any pictures are the photo, or stills from the video. Score from 0 to 1 how ' +
+  'strongly the content (text or pictures) contains each of: profanity; ' +
+  'distressing content (violence, self-harm, abuse, cruelty, graphic injury); personal data (addresses, ' +
+  'phone numbers, emails, ID or card numbers). Warm, sad or emotional family messages are not distressing. ' +
+  'Give a one-sentence reason when any score is 0.5 or more, otherwise an empty string.';
+
+const RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    profanity: { type: 'NUMBER' },
+    distressing: { type: 'NUMBER' },
+    personal_data: { type: 'NUMBER' },
+    reason: { type: 'STRING' },
+  },
+  required: ['profanity', 'distressing', 'personal_data', 'reason'],
+};
+
+// A piece of the request: the prompt, or a picture as base64
+type GeminiPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+const clampScore = (value: unknown): number => Math.min(1, Math.max(0, Number(value) || 0));
+
+export const geminiClassifier: SafetyClassifier = {
+  name: 'gemini',
+
+  async classify(input: SafetyInput): Promise<SafetyVerdict> {
+    const apiKey = Deno.env.get('GEMINI_API_KEY');
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not set');
+    }
+
+    const parts: GeminiPart[] = [{ text: `${PROMPT}\n\nText:\n${input.text || '(none)'}` }];
+    for (const image of input.images || []) {
+      parts.push({ inlineData: { mimeType: image.mimeType, data: encodeBase64(image.data) } });
+    }
+
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{ parts }],
+          generationConfig: { responseMimeType: 'application/json', responseSchema: RESPONSE_SCHEMA },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Gemini request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      // Gemini withholds an answer when its own safety filters block the input
+      const blockReason = result.promptFeedback?.blockReason;
+      if (blockReason) {
+        return toVerdict('gemini', { profanity: 0, distressing: 1, personal_data: 0 }, `Blocked by Gemini (${blockReason})`);
+      }
+      throw new Error('No response from Gemini');
+    }
+
+    const scores = JSON.parse(text);
+    return toVerdict(
+      'gemini',
+      {
+        profanity: clampScore(scores.profanity),
+        distressing: clampScore(scores.distressing),
+        personal_data: clampScore(scores.personal_data),
+      },
+      scores.reason || null
+    );
+  },
+};
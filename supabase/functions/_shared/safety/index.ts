@@ -0,0 +1,191 @@
+/**
+ * Automated safety screening, selected with the SAFETY_CLASSIFIER secret:
+ *   gemini (default when GEMINI_API_KEY is set) - scores text and images
+ *   keywords                                    - offline keyword/pattern matching, also the fallback when Gemini fails
+ * Clean submissions are approved straight away; flagged ones stay pending for a moderator.
+ * Every verdict is kept in safety_verdicts for audit.
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { geminiClassifier } from './gemini.ts';
+import { keywordClassifier } from './keywords.ts';
+import { SafetyClassifier, SafetyClassifierName, SafetyImage, SafetyInput, SafetyVerdict } from './types.ts';
+
+export * from './types.ts';
+
+// Tables that go through the moderation queue
+export const MODERATION_TARGETS = ['videos', 'articles', 'images', 'voice_messages'] as const;
+export type ModerationTarget = typeof MODERATION_TARGETS[number];
+
+const CLASSIFIERS: Record<SafetyClassifierName, SafetyClassifier> = {
+  gemini: geminiClassifier,
+  keywords: keywordClassifier,
+};
+
+export const DEFAULT_SAFETY_CLASSIFIER: SafetyClassifierName =
+  (Deno.env.get('SAFETY_CLASSIFIER') as SafetyClassifierName) || (Deno.env.get('GEMINI_API_KEY') ? 'gemini' : 'keywords');
+
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024; // Larger images go to a moderator unscreened
+
+// Where each target's tags are linked (voice messages aren't tagged)
+const TAG_LINKS: Partial<Record<ModerationTarget, { table: string; column: string }>> = {
+  videos: { table: 'video_tags', column: 'video_id' },
+  articles: { table: 'article_tags', column: 'article_id' },
+  images: { table: 'image_tags', column: 'image_id' },
+};
+
+// The columns screening reads - each table has some of them
+interface SubmissionRow {
+  title?: string | null;
+  description?: string | null;
+  link?: string | null; // Articles
+  transcription?: string | null; // Videos and voice messages
+  url?: string | null; // Images
+  moderation_status: string;
+}
+
+/**
+ * Classifies with the configured classifier, falling back to keywords if it fails
+ */
+export async function classifyContent(input: SafetyInput): Promise<SafetyVerdict> {
+  const classifier = CLASSIFIERS[DEFAULT_SAFETY_CLASSIFIER] || keywordClassifier;
+  try {
+    return await classifier.classify(input);
+  } catch (error) {
+    if (classifier === keywordClassifier) throw error;
+    console.warn(`⚠️ ${classifier.name} safety check failed, using keywords instead:`, error instanceof Error ? error.message : error);
+    return keywordClassifier.classify(input);
+  }
+}
+
+/**
+ * Names of the tags on a submission - they show in the feed, so they're screened with the rest
+ */
+async function fetchTagNames(supabase: SupabaseClient, target: ModerationTarget, id: string): Promise<string[]> {
+  const link = TAG_LINKS[target];
+  if (!link) return [];
+
+  const { data, error } = await supabase
+    .from(link.table)
+    .select('tag:tags(name)')
+    .eq(link.column, id)
+    .returns<{ tag: { name: string } | null }[]>();
+
+  if (error) {
+    throw new Error(`Failed to load tags: ${error.message}`);
+  }
+  return (data || []).flatMap(row => row.tag ? [row.tag.name] : []);
+}
+
+/**
+ * Collects what to screen from a submission's row and tags
+ * @param frames - Stills sampled from a video by the worker. Videos aren't screened without them,
+ *                 since the transcript says nothing about what's in the picture.
+ */
+async function toSafetyInput(
+  target: ModerationTarget,
+  row: SubmissionRow,
+  tagNames: string[],
+  frames: SafetyImage[]
+): Promise<SafetyInput> {
+  const text = [
+    row.title,
+    row.description,
+    target === 'articles' ? row.link : row.transcription,
+    tagNames.length > 0 ? `Tags: ${tagNames.join(', ')}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  if (target === 'videos') {
+    if (frames.length === 0) {
+      throw new Error('No frames of the video to check');
+    }
+    return { text, images: frames };
+  }
+  if (target !== 'images') return { text };
+
+  if (!row.url) {
+    throw new Error('Image has no URL');
+  }
+  const response = await fetch(row.url);
+  if (!response.ok) {
+    throw new Error(`Failed to download image: ${response.status}`);
+  }
+  const data = new Uint8Array(await response.arrayBuffer());
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new Error(`Image is too large to screen (${data.length} bytes)`);
+  }
+  return { text, images: [{ data, mimeType: response.headers.get('content-type') || 'image/jpeg' }] };
+}
+
+/**
+ * Screens a submission, records the verdict and approves it if nothing was flagged.
+ * Decisions a moderator already made are left alone.
+ * @param frames - For videos, stills sampled across it (see toSafetyInput)
+ * @returns The submission's moderation status afterwards, and the verdict
+ */
+export async function screenSubmission(
+  supabase: SupabaseClient,
+  target: ModerationTarget,
+  id: string,
+  frames: SafetyImage[] = []
+): Promise<{ status: string; verdict: SafetyVerdict }> {
+  const { data: row, error } = await supabase
+    .from(target)
+    .select('*')
+    .eq('id', id)
+    .single<SubmissionRow>();
+
+  if (error || !row) {
+    throw new Error(`Failed to load ${target} ${id}: ${error?.message}`);
+  }
+
+  let verdict: SafetyVerdict;
+  try {
+    const tagNames = await fetchTagNames(supabase, target, id);
+    verdict = await classifyContent(await toSafetyInput(target, row, tagNames, frames));
+  } catch (screenError) {
+    // Couldn't screen it at all - a moderator has to look
+    verdict = {
+      classifier: 'keywords',
+      flagged: true,
+      categories: [],
+      scores: { profanity: 0, distressing: 0, personal_data: 0 },
+      reason: `Automated screening failed: ${screenError instanceof Error ? screenError.message : screenError}`,
+    };
+  }
+
+  const { error: insertError } = await supabase
+    .from('safety_verdicts')
+    .insert({
+      target,
+      item_id: id,
+      classifier: verdict.classifier,
+      flagged: verdict.flagged,
+      categories: verdict.categories,
+      scores: verdict.scores,
+      reason: verdict.reason,
+    });
+  if (insertError) {
+    console.error('❌ Failed to save safety verdict:', insertError);
+  }
+
+  console.log(`🛡️ ${target} ${id} screened by ${verdict.classifier}: ${verdict.flagged ? `flagged (${verdict.reason})` : 'clean'}`);
+
+  if (verdict.flagged || row.moderation_status !== 'pending') {
+    return { status: row.moderation_status, verdict };
+  }
+
+  const { data: approved, error: approveError } = await supabase
+    .from(target)
+    .update({ moderation_status: 'approved', moderated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('moderation_status', 'pending')
+    .select('moderation_status')
+    .maybeSingle();
+
+  if (approveError) {
+    console.error('❌ Failed to approve screened submission:', approveError);
+  }
+  return { status: approved?.moderation_status || row.moderation_status, verdict };
+}
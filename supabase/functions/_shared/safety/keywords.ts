@@ -0,0 +1,61 @@
+/**
+ * Deterministic keyword and pattern classifier. Needs no network, so it works offline and is the
+ * fallback whenever Gemini is unavailable. It can't look at pictures, so anything with an image
+ * (photos, and the stills of a video) is sent to a moderator rather than approved blind.
+ */
+import { SafetyCategory, SafetyClassifier, SafetyInput, SafetyVerdict, toVerdict } from './types.ts';
+
+const PROFANITY = [
+  /\bfuck\w*/i, /\bshit\w*/i, /\bbitch\w*/i, /\basshole\w*/i, /\bbastard\w*/i,
+  /\bcunt\w*/i, /\bdick(head)?s?\b/i, /\bpiss(ed)?\b/i, /\bslut\w*/i, /\bwhore\w*/i,
+];
+
+const DISTRESSING = [
+  /\bsuicid\w*/i, /\bkill (my|your|him|her|them)sel(f|ves)\b/i, /\bself[- ]harm\w*/i,
+  /\boverdos\w*/i, /\bmurder\w*/i, /\brap(e|ed|ing)\b/i, /\babus(e|ed|ive)\b/i,
+  /\bshoot(ing)?\b/i, /\bgun\w*\b/i, /\bblood(y)?\b/i, /\bi hate you\b/i,
+];
+
+const PERSONAL_DATA = [
+  /[\w.+-]+@[\w-]+\.[\w.]+/, // Email address
+  /(\+?\d{1,2}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/, // Phone number
+  /\b\d{3}-\d{2}-\d{4}\b/, // US social security number
+  /\b(?:\d[ -]?){13,16}\b/, // Card number
+  /\b\d{1,5}\s+(\w+\s){1,3}(street|st|avenue|ave|road|rd|lane|ln|drive|dr|boulevard|blvd|court|ct)\b/i, // Street address
+];
+
+const PATTERNS: Record<SafetyCategory, RegExp[]> = {
+  profanity: PROFANITY,
+  distressing: DISTRESSING,
+  personal_data: PERSONAL_DATA,
+};
+
+const CATEGORY_LABELS: Record<SafetyCategory, string> = {
+  profanity: 'profanity',
+  distressing: 'distressing content',
+  personal_data: 'personal data',
+};
+
+export function classifyKeywords(input: SafetyInput): SafetyVerdict {
+  const scores = { profanity: 0, distressing: 0, personal_data: 0 };
+  const matches: string[] = [];
+
+  for (const category of Object.keys(PATTERNS) as SafetyCategory[]) {
+    const match = PATTERNS[category].map(pattern => input.text.match(pattern)).find(Boolean);
+    if (match) {
+      scores[category] = 1;
+      matches.push(`${CATEGORY_LABELS[category]} ("${match[0]}")`);
+    }
+  }
+
+  const verdict = toVerdict('keywords', scores, matches.length > 0 ? `Matched ${matches.join(', ')}` : null);
+  if (input.images?.length && !verdict.flagged) {
+    return { ...verdict, flagged: true, reason: 'The pictures could not be checked automatically' };
+  }
+  return verdict;
+}
+
+export const keywordClassifier: SafetyClassifier = {
+  name: 'keywords',
+  classify: async (input) => classifyKeywords(input),
+};
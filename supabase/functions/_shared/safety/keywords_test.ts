@@ -0,0 +1,66 @@
+import { assertEquals } from 'jsr:@std/assert@1';
+import { classifyKeywords } from './keywords.ts';
+
+const IMAGE = { data: new Uint8Array([0xff, 0xd8, 0xff]), mimeType: 'image/jpeg' };
+
+Deno.test('approves plain text', () => {
+  const verdict = classifyKeywords({ text: 'We planted tomatoes in the community garden on Saturday.' });
+  assertEquals(verdict.classifier, 'keywords');
+  assertEquals(verdict.flagged, false);
+  assertEquals(verdict.categories, []);
+  assertEquals(verdict.reason, null);
+});
+
+Deno.test('flags profanity', () => {
+  const verdict = classifyKeywords({ text: 'That was a shitty meeting' });
+  assertEquals(verdict.flagged, true);
+  assertEquals(verdict.categories, ['profanity']);
+  assertEquals(verdict.scores.profanity, 1);
+  assertEquals(verdict.reason, 'Matched profanity ("shitty")');
+});
+
+Deno.test('flags distressing content', () => {
+  const verdict = classifyKeywords({ text: 'He talked about self-harm at school' });
+  assertEquals(verdict.categories, ['distressing']);
+});
+
+Deno.test('flags personal data', () => {
+  for (const text of [
+    'Write to jane.doe@example.com',
+    'Call me on (555) 123-4567',
+    'SSN 123-45-6789',
+    'I live at 42 Maple Street',
+  ]) {
+    assertEquals(classifyKeywords({ text }).categories, ['personal_data'], text);
+  }
+});
+
+Deno.test('reports every matching category', () => {
+  const verdict = classifyKeywords({ text: 'Fucking hell, email me at bob@example.org about the shooting' });
+  assertEquals(verdict.categories, ['profanity', 'distressing', 'personal_data']);
+  assertEquals(
+    verdict.reason,
+    'Matched profanity ("Fucking"), distressing content ("shooting"), personal data ("bob@example.org")'
+  );
+});
+
+Deno.test('does not match words that only contain a pattern', () => {
+  assertEquals(classifyKeywords({ text: 'Scunthorpe shipped the grapes to Dickens' }).flagged, false);
+});
+
+Deno.test('sends pictures to a moderator even when the text is clean', () => {
+  const verdict = classifyKeywords({ text: 'Harvest festival', images: [IMAGE] });
+  assertEquals(verdict.flagged, true);
+  assertEquals(verdict.categories, []);
+  assertEquals(verdict.reason, 'The pictures could not be checked automatically');
+});
+
+Deno.test('keeps the text reason when pictures come with flagged text', () => {
+  const verdict = classifyKeywords({ text: 'What a bastard', images: [IMAGE] });
+  assertEquals(verdict.categories, ['profanity']);
+  assertEquals(verdict.reason, 'Matched profanity ("bastard")');
+});
+
+Deno.test('an empty image list counts as text only', () => {
+  assertEquals(classifyKeywords({ text: 'Harvest festival', images: [] }).flagged, false);
+});
@@ -0,0 +1,49 @@
+/**
+ * Shared types for the content safety classifiers. Every classifier scores the same categories,
+ * so verdicts can be compared in the audit table whichever one produced them.
+ */
+
+export const SAFETY_CATEGORIES = ['profanity', 'distressing', 'personal_data'] as const;
+export type SafetyCategory = typeof SAFETY_CATEGORIES[number];
+
+export type SafetyClassifierName = 'gemini' | 'keywords';
+
+export interface SafetyImage {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+// What gets screened: the text of a submission (transcript, title, description) and its pictures -
+// the photo itself, or stills sampled across a video
+export interface SafetyInput {
+  text: string;
+  images?: SafetyImage[];
+}
+
+export interface SafetyVerdict {
+  classifier: SafetyClassifierName;
+  flagged: boolean;
+  categories: SafetyCategory[]; // The categories that crossed the threshold
+  scores: Record<SafetyCategory, number>; // 0-1
+  reason: string | null; // Short explanation for the moderator
+}
+
+export interface SafetyClassifier {
+  name: SafetyClassifierName;
+  classify(input: SafetyInput): Promise<SafetyVerdict>;
+}
+
+// A category counts as flagged at or above this score
+export const FLAG_THRESHOLD = 0.5;
+
+/**
+ * Fills in flagged/categories from the scores
+ */
+export function toVerdict(
+  classifier: SafetyClassifierName,
+  scores: Record<SafetyCategory, number>,
+  reason: string | null
+): SafetyVerdict {
+  const categories = SAFETY_CATEGORIES.filter(category => scores[category] >= FLAG_THRESHOLD);
+  return { classifier, flagged: categories.length > 0, categories, scores, reason };
+}
@@ -0,0 +1,155 @@
+/**
+ * AssemblyAI v2 provider (asynchronous). Completion arrives at the assemblyai-webhook function,
+ * or via fetchResult when the retry sweeper checks on a job whose webhook was missed.
+ * Set ASSEMBLYAI_API_URL to point at supabase/mock/assemblyai.ts for offline testing.
+ */
+import { TranscriptionInput, TranscriptionOptions, TranscriptionOutcome, TranscriptionProvider } from './types.ts';
+
+const ASSEMBLYAI_API_URL = Deno.env.get('ASSEMBLYAI_API_URL') || 'https://api.assemblyai.com/v2/transcript';
+const ASSEMBLYAI_UPLOAD_URL = ASSEMBLYAI_API_URL.replace(/\/transcript$/, '/upload');
+const ASSEMBLYAI_API_KEY = Deno.env.get('ASSEMBLYAI_API_KEY') || null;
+const ASSEMBLYAI_WEBHOOK_SECRET = Deno.env.get('ASSEMBLYAI_WEBHOOK_SECRET') || null;
+
+// Header AssemblyAI sends back on the webhook request, carrying the shared secret
+export const WEBHOOK_SECRET_HEADER = 'x-webhook-secret';
+
+function getApiKey(): string {
+  if (!ASSEMBLYAI_API_KEY) {
+    console.error('❌ ASSEMBLYAI_API_KEY is not set');
+    console.error('💡 To fix: Add ASSEMBLYAI_API_KEY secret to Edge Function');
+    console.error('   1. Get API key: https://www.assemblyai.com/app/account (free tier available)');
+    console.error('   2. Add secret: Supabase Dashboard → Edge Functions → Secrets');
+    throw new Error('ASSEMBLYAI_API_KEY is not set');
+  }
+  return ASSEMBLYAI_API_KEY;
+}
+
+/**
+ * AssemblyAI only transcribes URLs - files are uploaded to its temporary storage first
+ */
+async function resolveAudioUrl(input: TranscriptionInput): Promise<string> {
+  if ('url' in input) return input.url;
+
+  const response = await fetch(ASSEMBLYAI_UPLOAD_URL, {
+    method: 'POST',
+    headers: { 'Authorization': getApiKey() },
+    body: input.file,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to upload audio to AssemblyAI: ${response.status}`);
+  }
+  const { upload_url: uploadUrl } = await response.json();
+  return uploadUrl;
+}
+
+/**
+ * Maps an AssemblyAI transcript (timings already in milliseconds) to a provider outcome
+ */
+function toOutcome(transcript: any): TranscriptionOutcome {
+  if (transcript.status === 'error') {
+    return { status: 'error', error: `AssemblyAI transcription failed: ${transcript.error}` };
+  }
+  if (transcript.status !== 'completed') {
+    return { status: 'pending', providerJobId: transcript.id };
+  }
+
+  return {
+    status: 'completed',
+    result: {
+      // Videos without speech complete with no text
+      text: transcript.text || '',
+      words: (transcript.words || []).map((word: any) => ({
+        text: word.text,
+        start: word.start,
+        end: word.end,
+        confidence: word.confidence,
+        speaker: word.speaker || undefined,
+      })),
+      utterances: (transcript.utterances || []).map((utterance: any) => ({
+        speaker: utterance.speaker,
+        text: utterance.text,
+        start: utterance.start,
+        end: utterance.end,
+      })),
+      languageCode: transcript.language_code || null,
+      languageConfidence: transcript.language_confidence ?? null,
+      confidence: transcript.confidence ?? null,
+    },
+  };
+}
+
+export const assemblyAIProvider: TranscriptionProvider = {
+  name: 'assemblyai',
+
+  async transcribe(input: TranscriptionInput, options: TranscriptionOptions = {}): Promise<TranscriptionOutcome> {
+    const { speakersExpected = 0, webhookUrl } = options;
+    if (webhookUrl && !ASSEMBLYAI_WEBHOOK_SECRET) {
+      throw new Error('ASSEMBLYAI_WEBHOOK_SECRET is not set');
+    }
+
+    const response = await fetch(ASSEMBLYAI_API_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': getApiKey(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        audio_url: await resolveAudioUrl(input),
+        // Relatives record in different languages - let AssemblyAI detect it
+        language_detection: true,
+        speaker_labels: true,
+        // Only pass a hint when there's more than one named speaker
+        ...(speakersExpected > 1 ? { speakers_expected: speakersExpected } : {}),
+        ...(webhookUrl ? {
+          webhook_url: webhookUrl,
+          webhook_auth_header_name: WEBHOOK_SECRET_HEADER,
+          webhook_auth_header_value: ASSEMBLYAI_WEBHOOK_SECRET,
+        } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`❌ Failed to submit transcription: ${response.status}`, errorText.substring(0, 500));
+      throw new Error(`AssemblyAI rejected the transcription request (${response.status}): ${errorText.substring(0, 200)}`);
+    }
+
+    const transcript = await response.json();
+    if (!transcript.id) {
+      throw new Error('No transcript ID returned from AssemblyAI');
+    }
+    return toOutcome(transcript);
+  },
+
+  // The webhook only tells us the ID and status, not the content
+  async fetchResult(providerJobId: string): Promise<TranscriptionOutcome> {
+    const response = await fetch(`${ASSEMBLYAI_API_URL}/${providerJobId}`, {
+      headers: {
+        'Authorization': getApiKey(),
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch transcript ${providerJobId}: ${response.status}`);
+    }
+    return toOutcome(await response.json());
+  },
+};
+
+/**
+ * Checks the webhook's shared secret header, in constant time
+ */
+export function isValidWebhookSecret(value: string | null): boolean {
+  if (!ASSEMBLYAI_WEBHOOK_SECRET || !value) return false;
+
+  const expected = new TextEncoder().encode(ASSEMBLYAI_WEBHOOK_SECRET);
+  const actual = new TextEncoder().encode(value);
+  if (expected.length !== actual.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected[i] ^ actual[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,76 @@
+/**
+ * HuggingFace Inference provider (Whisper large v3). Synchronous, no diarization or language detection.
+ */
+import { encodeBase64 } from 'jsr:@std/encoding/base64';
+import { TranscriptionInput, TranscriptionOutcome, TranscriptionProvider, resolveInputFile } from './types.ts';
+
+const HUGGINGFACE_API_URL = Deno.env.get('HUGGINGFACE_API_URL') || 'https://router.huggingface.co/models/openai/whisper-large-v3';
+const HUGGINGFACE_TOKEN = Deno.env.get('HUGGINGFACE_TOKEN') || null;
+
+async function requestTranscription(body: string): Promise<Response> {
+  const headers: HeadersInit = { 'Content-Type': 'application/json' };
+  if (HUGGINGFACE_TOKEN) {
+    headers['Authorization'] = `Bearer ${HUGGINGFACE_TOKEN}`;
+  }
+  return await fetch(HUGGINGFACE_API_URL, { method: 'POST', headers, body });
+}
+
+export const huggingFaceProvider: TranscriptionProvider = {
+  name: 'huggingface',
+
+  async transcribe(input: TranscriptionInput): Promise<TranscriptionOutcome> {
+    const { file } = await resolveInputFile(input);
+    const body = JSON.stringify({
+      inputs: encodeBase64(new Uint8Array(await file.arrayBuffer())),
+      parameters: { return_timestamps: 'word' },
+    });
+
+    let response = await requestTranscription(body);
+
+    // Handle model loading (503) with one retry
+    if (response.status === 503) {
+      const retryAfter = response.headers.get('Retry-After');
+      const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : 10000;
+      console.log(`Model loading, waiting ${waitTime}ms...`);
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+      response = await requestTranscription(body);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('❌ HuggingFace transcription error:', response.status, errorText.substring(0, 500));
+      return { status: 'error', error: `huggingface transcription failed (${response.status}): ${errorText.substring(0, 200)}` };
+    }
+
+    const result = await response.json();
+
+    // Extract text from various possible response formats
+    const output = Array.isArray(result) ? result[0] : result;
+    const text = typeof output === 'string' ? output : output?.text || '';
+
+    // Word chunks come back as { text, timestamp: [startSeconds, endSeconds] }
+    const chunks: any[] = output?.chunks || [];
+    const words = chunks
+      .filter(chunk => Array.isArray(chunk.timestamp) && chunk.timestamp[0] !== null)
+      .map(chunk => {
+        const [start, end] = chunk.timestamp;
+        return {
+          text: String(chunk.text).trim(),
+          start: Math.round(start * 1000),
+          end: Math.round((end ?? start) * 1000),
+        };
+      });
+
+    return {
+      status: 'completed',
+      result: {
+        text: text.trim(),
+        words,
+        utterances: [],
+        languageCode: null,
+        languageConfidence: null,
+        confidence: null,
+      },
+    };
+  },
+};
@@ -0,0 +1,34 @@
+/**
+ * Transcription providers, selected with the TRANSCRIPTION_PROVIDER secret:
+ *   assemblyai (default) - async with webhook, diarization and language detection
+ *   openai               - OpenAI Whisper API (OPENAI_API_KEY)
+ *   huggingface          - HuggingFace Inference Whisper (HUGGINGFACE_TOKEN)
+ *   local                - whisper.cpp / faster-whisper server with an OpenAI-style API (LOCAL_WHISPER_URL)
+ */
+import { assemblyAIProvider } from './assemblyai.ts';
+import { huggingFaceProvider } from './huggingface.ts';
+import { localWhisperProvider, openAIProvider } from './openai.ts';
+import { TranscriptionProvider, TranscriptionProviderName } from './types.ts';
+
+export * from './types.ts';
+
+const PROVIDERS: Record<TranscriptionProviderName, TranscriptionProvider> = {
+  assemblyai: assemblyAIProvider,
+  openai: openAIProvider,
+  huggingface: huggingFaceProvider,
+  local: localWhisperProvider,
+};
+
+export const DEFAULT_TRANSCRIPTION_PROVIDER: TranscriptionProviderName =
+  (Deno.env.get('TRANSCRIPTION_PROVIDER') as TranscriptionProviderName) || 'assemblyai';
+
+/**
+ * Returns the named provider, or the configured default
+ */
+export function getTranscriptionProvider(name: string = DEFAULT_TRANSCRIPTION_PROVIDER): TranscriptionProvider {
+  const provider = PROVIDERS[name as TranscriptionProviderName];
+  if (!provider) {
+    throw new Error(`Unknown transcription provider: ${name} (expected one of ${Object.keys(PROVIDERS).join(', ')})`);
+  }
+  return provider;
+}
@@ -0,0 +1,126 @@
+import { assertEquals, assertThrows } from 'jsr:@std/assert@1';
+
+// The provider settings are read when the modules load, so they're set before importing them.
+// The AssemblyAI provider talks to the local mock server (supabase/mock/assemblyai.ts).
+const MOCK_PORT = 18787;
+const WEBHOOK_SECRET = 'test-secret';
+Deno.env.set('MOCK_PORT', String(MOCK_PORT));
+Deno.env.set('MOCK_DELAY_MS', '60');
+Deno.env.set('TRANSCRIPTION_PROVIDER', 'assemblyai');
+Deno.env.set('ASSEMBLYAI_API_URL', `http://localhost:${MOCK_PORT}/v2/transcript`);
+Deno.env.set('ASSEMBLYAI_API_KEY', 'mock');
+Deno.env.set('ASSEMBLYAI_WEBHOOK_SECRET', WEBHOOK_SECRET);
+
+await import('../../../mock/assemblyai.ts');
+const { getTranscriptionProvider } = await import('./index.ts');
+const { WEBHOOK_SECRET_HEADER, isValidWebhookSecret } = await import('./assemblyai.ts');
+type TranscriptionOutcome = import('./types.ts').TranscriptionOutcome;
+type TranscriptionProvider = import('./types.ts').TranscriptionProvider;
+
+/**
+ * Asks the provider for the result until the mock has finished with it
+ */
+async function waitForResult(provider: TranscriptionProvider, providerJobId: string): Promise<TranscriptionOutcome> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const outcome = await provider.fetchResult!(providerJobId);
+    if (outcome.status !== 'pending') return outcome;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Transcript ${providerJobId} never finished`);
+}
+
+Deno.test('TRANSCRIPTION_PROVIDER picks the default provider', () => {
+  assertEquals(getTranscriptionProvider().name, 'assemblyai');
+  assertEquals(getTranscriptionProvider('openai').name, 'openai');
+  assertEquals(getTranscriptionProvider('local').name, 'local');
+});
+
+Deno.test('unknown providers are rejected', () => {
+  assertThrows(() => getTranscriptionProvider('whisperx'), Error, 'Unknown transcription provider: whisperx');
+});
+
+// The mock server keeps running between tests and answers the webhook after the test has what it needs
+Deno.test({
+  name: 'mock AssemblyAI transcribes, calls the webhook with the secret and maps the transcript',
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const webhook = Promise.withResolvers<{ body: { transcript_id: string; status: string }; secret: string | null }>();
+    const webhookServer = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      webhook.resolve({ body: await req.json(), secret: req.headers.get(WEBHOOK_SECRET_HEADER) });
+      return new Response(null, { status: 204 });
+    });
+
+    try {
+      const provider = getTranscriptionProvider();
+      const submitted = await provider.transcribe(
+        { url: 'https://example.supabase.co/storage/v1/object/public/videos/videos/hello.mp4' },
+        { speakersExpected: 2, webhookUrl: `http://localhost:${webhookServer.addr.port}/assemblyai-webhook` }
+      );
+      assertEquals(submitted.status, 'pending');
+      if (submitted.status !== 'pending') return;
+
+      const { body, secret } = await webhook.promise;
+      assertEquals(body, { transcript_id: submitted.providerJobId, status: 'completed' });
+      assertEquals(isValidWebhookSecret(secret), true);
+
+      const outcome = await provider.fetchResult!(submitted.providerJobId);
+      assertEquals(outcome.status, 'completed');
+      if (outcome.status !== 'completed') return;
+
+      const { result } = outcome;
+      assertEquals(result.text.startsWith('Hi Naia, we love you'), true);
+      assertEquals(result.words[0], { text: 'Hi', start: 500, end: 850, confidence: 0.95, speaker: 'A' });
+      assertEquals(result.words.length, result.text.split(' ').length);
+      assertEquals(result.utterances.map(utterance => utterance.speaker), ['A', 'B']);
+      assertEquals(Object.keys(result.utterances[0]).sort(), ['end', 'speaker', 'start', 'text']);
+      assertEquals(result.utterances[0].start, 500);
+      assertEquals(result.languageCode, 'en');
+      assertEquals(result.languageConfidence, 0.98);
+      assertEquals(result.confidence, 0.95);
+    } finally {
+      await webhookServer.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'mock AssemblyAI uploads files before transcribing them',
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const provider = getTranscriptionProvider();
+    const submitted = await provider.transcribe({ file: new Blob([new Uint8Array([0, 1, 2])]), filename: 'note.webm' });
+    assertEquals(submitted.status, 'pending');
+    if (submitted.status !== 'pending') return;
+
+    const outcome = await waitForResult(provider, submitted.providerJobId);
+    assertEquals(outcome.status, 'completed');
+    if (outcome.status !== 'completed') return;
+    // One speaker unless more were named
+    assertEquals(outcome.result.utterances.map(utterance => utterance.speaker), ['A']);
+  },
+});
+
+Deno.test({
+  name: 'mock AssemblyAI failures come back as errors',
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const provider = getTranscriptionProvider();
+    const submitted = await provider.transcribe({ url: 'https://example.com/fail.mp4' });
+    assertEquals(submitted.status, 'pending');
+    if (submitted.status !== 'pending') return;
+
+    assertEquals(await waitForResult(provider, submitted.providerJobId), {
+      status: 'error',
+      error: 'AssemblyAI transcription failed: Mock failure: audio could not be decoded',
+    });
+  },
+});
+
+Deno.test('webhook secrets have to match exactly', () => {
+  assertEquals(isValidWebhookSecret(WEBHOOK_SECRET), true);
+  assertEquals(isValidWebhookSecret('test-secreT'), false);
+  assertEquals(isValidWebhookSecret(null), false);
+});
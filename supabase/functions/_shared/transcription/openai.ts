@@ -0,0 +1,122 @@
+/**
+ * Providers for the OpenAI speech-to-text API shape (POST multipart to /v1/audio/transcriptions).
+ * Besides OpenAI's hosted Whisper, local servers speak the same API - faster-whisper-server/speaches,
+ * and whisper.cpp's server started with --inference-path /v1/audio/transcriptions - which lets the
+ * whole pipeline run offline.
+ */
+import {
+  TranscriptionInput,
+  TranscriptionOutcome,
+  TranscriptionProvider,
+  TranscriptionProviderName,
+  TranscriptWord,
+  resolveInputFile,
+} from './types.ts';
+
+interface OpenAICompatibleConfig {
+  name: TranscriptionProviderName;
+  url: string;
+  model: string;
+  apiKey?: string | null;
+  requireApiKey?: boolean;
+}
+
+// verbose_json reports the language by name ('english'); local servers usually send the code already
+const LANGUAGE_NAME_CODES: Record<string, string> = {
+  english: 'en', spanish: 'es', french: 'fr', portuguese: 'pt', german: 'de', italian: 'it',
+  dutch: 'nl', tagalog: 'tl', vietnamese: 'vi', chinese: 'zh', japanese: 'ja', korean: 'ko',
+  hindi: 'hi', arabic: 'ar', russian: 'ru', polish: 'pl', turkish: 'tr', ukrainian: 'uk',
+  greek: 'el', hebrew: 'he', swedish: 'sv', indonesian: 'id',
+};
+
+function toLanguageCode(language: string | undefined): string | null {
+  if (!language) return null;
+  const normalized = language.toLowerCase();
+  if (normalized.length <= 3) return normalized;
+  return LANGUAGE_NAME_CODES[normalized] || null;
+}
+
+/**
+ * Maps a verbose_json response (timings in seconds) to our result shape (milliseconds).
+ * Whisper has no diarization, so there are no speakers or utterances.
+ */
+function toOutcome(result: any): TranscriptionOutcome {
+  const words: TranscriptWord[] = (result.words || []).map((word: any) => ({
+    text: String(word.word ?? word.text ?? '').trim(),
+    start: Math.round(word.start * 1000),
+    end: Math.round(word.end * 1000),
+    ...(word.probability !== undefined ? { confidence: word.probability } : {}),
+  }));
+
+  // Segment avg_logprob is the closest thing Whisper has to a confidence score
+  const segments: any[] = result.segments || [];
+  const logProbs = segments.map(segment => segment.avg_logprob).filter((value): value is number => typeof value === 'number');
+  const confidence = logProbs.length > 0
+    ? Math.exp(logProbs.reduce((sum, value) => sum + value, 0) / logProbs.length)
+    : null;
+
+  return {
+    status: 'completed',
+    result: {
+      text: (result.text || '').trim(),
+      words,
+      utterances: [],
+      languageCode: toLanguageCode(result.language),
+      languageConfidence: null,
+      confidence,
+    },
+  };
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): TranscriptionProvider {
+  return {
+    name: config.name,
+
+    async transcribe(input: TranscriptionInput): Promise<TranscriptionOutcome> {
+      if (config.requireApiKey && !config.apiKey) {
+        throw new Error(`API key for the ${config.name} transcription provider is not set`);
+      }
+
+      const { file, filename } = await resolveInputFile(input);
+
+      const formData = new FormData();
+      formData.append('file', file, filename);
+      formData.append('model', config.model);
+      formData.append('response_format', 'verbose_json');
+      formData.append('timestamp_granularities[]', 'word');
+      formData.append('timestamp_granularities[]', 'segment');
+      // No language hint - Whisper auto-detects so messages in other languages aren't garbled
+
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {},
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`❌ ${config.name} transcription error: ${response.status}`, errorText.substring(0, 500));
+        return { status: 'error', error: `${config.name} transcription failed (${response.status}): ${errorText.substring(0, 200)}` };
+      }
+
+      return toOutcome(await response.json());
+    },
+  };
+}
+
+// OpenAI's hosted Whisper (25 MB upload limit)
+export const openAIProvider = createOpenAICompatibleProvider({
+  name: 'openai',
+  url: Deno.env.get('OPENAI_TRANSCRIPTION_URL') || 'https://api.openai.com/v1/audio/transcriptions',
+  model: Deno.env.get('OPENAI_TRANSCRIPTION_MODEL') || 'whisper-1',
+  apiKey: Deno.env.get('OPENAI_API_KEY'),
+  requireApiKey: true,
+});
+
+// Self-hosted whisper.cpp / faster-whisper server
+export const localWhisperProvider = createOpenAICompatibleProvider({
+  name: 'local',
+  url: Deno.env.get('LOCAL_WHISPER_URL') || 'http://host.docker.internal:8000/v1/audio/transcriptions',
+  model: Deno.env.get('LOCAL_WHISPER_MODEL') || 'Systran/faster-whisper-small',
+  apiKey: Deno.env.get('LOCAL_WHISPER_API_KEY'),
+});
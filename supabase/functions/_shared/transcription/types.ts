@@ -0,0 +1,71 @@
+/**
+ * The transcription provider contract. Every provider returns the same result shape,
+ * so the rest of the pipeline (captions, translations, the app) doesn't care which one ran.
+ */
+
+export type TranscriptionProviderName = 'assemblyai' | 'openai' | 'huggingface' | 'local';
+
+export interface TranscriptWord {
+  text: string;
+  start: number; // Milliseconds
+  end: number; // Milliseconds
+  confidence?: number;
+  speaker?: string; // Diarization label (A, B, ...)
+}
+
+export interface TranscriptUtterance {
+  speaker: string;
+  text: string;
+  start: number; // Milliseconds
+  end: number; // Milliseconds
+}
+
+export interface TranscriptionResult {
+  text: string;
+  words: TranscriptWord[]; // Empty when the provider doesn't return word timings
+  utterances: TranscriptUtterance[]; // Empty when the provider doesn't do diarization
+  languageCode: string | null; // Detected language, e.g. 'en', 'es'
+  languageConfidence: number | null;
+  confidence: number | null; // Overall transcript confidence, 0-1
+}
+
+// Either a public URL the provider can fetch, or the file itself
+export type TranscriptionInput = { url: string } | { file: Blob; filename?: string };
+
+export interface TranscriptionOptions {
+  speakersExpected?: number; // Diarization hint, 0/undefined lets the provider decide
+  webhookUrl?: string; // Where asynchronous providers report completion
+}
+
+/**
+ * Synchronous providers come back 'completed' (or 'error') straight away.
+ * Asynchronous ones return 'pending' with their job ID; the result arrives later via
+ * webhook or fetchResult.
+ */
+export type TranscriptionOutcome =
+  | { status: 'completed'; result: TranscriptionResult }
+  | { status: 'pending'; providerJobId: string }
+  | { status: 'error'; error: string };
+
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName;
+  transcribe(input: TranscriptionInput, options?: TranscriptionOptions): Promise<TranscriptionOutcome>;
+  // Only for asynchronous providers
+  fetchResult?(providerJobId: string): Promise<TranscriptionOutcome>;
+}
+
+/**
+ * Downloads URL input so providers that need the raw file can accept either kind
+ */
+export async function resolveInputFile(input: TranscriptionInput): Promise<{ file: Blob; filename: string }> {
+  if ('file' in input) {
+    return { file: input.file, filename: input.filename || 'video.mp4' };
+  }
+
+  const response = await fetch(input.url);
+  if (!response.ok) {
+    throw new Error(`Failed to download audio (${response.status}): ${input.url}`);
+  }
+  const filename = new URL(input.url).pathname.split('/').pop() || 'video.mp4';
+  return { file: await response.blob(), filename };
+}
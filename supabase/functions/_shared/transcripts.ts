@@ -0,0 +1,160 @@
+/**
+ * Saving finished transcripts: caption files in storage plus the transcript columns on the
+ * job's target row. Used as soon as a synchronous provider returns, or when an asynchronous
+ * one reports completion (webhook or retry sweeper).
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { toSrt, toWebVtt } from './captions.ts';
+import { TranscriptionOutcome, TranscriptionResult, TranscriptWord, getTranscriptionProvider } from './transcription/index.ts';
+import { ProcessingJob, completeJob, failJob, findOrEnqueueJob } from './processingJobs.ts';
+import { screenSubmission } from './safety/index.ts';
+import { isEnrichmentEnabled } from './enrichment/index.ts';
+
+/**
+ * Splits a public storage URL into its bucket and object path
+ * e.g. .../storage/v1/object/public/videos/videos/abc.mp4 -> { bucket: 'videos', filePath: 'videos/abc.mp4' }
+ */
+export function parseStorageUrl(url: string): { bucket: string; filePath: string } | null {
+  const urlParts = url.split('/storage/v1/object/public/');
+  if (urlParts.length < 2) return null;
+
+  const pathParts = urlParts[1].split('?')[0].split('/');
+  return {
+    bucket: pathParts[0],
+    filePath: decodeURIComponent(pathParts.slice(1).join('/')),
+  };
+}
+
+/**
+ * Generates .vtt and .srt caption files and uploads them under captions/ in the videos bucket,
+ * named after the row (captions/<id>.vtt + captions/<id>.srt) like thumbnails/ and hls/
+ */
+async function uploadCaptionFiles(
+  supabase: SupabaseClient,
+  videoId: string,
+  words: TranscriptWord[],
+  speakerNames: Record<string, string>
+): Promise<{ vttUrl: string; srtUrl: string } | null> {
+  if (words.length === 0) {
+    console.warn('⚠️ No word timings available, skipping caption files');
+    return null;
+  }
+
+  const bucket = 'videos';
+  const basePath = `captions/${videoId}`;
+  const files = [
+    { path: `${basePath}.vtt`, content: toWebVtt(words, speakerNames), contentType: 'text/vtt' },
+    { path: `${basePath}.srt`, content: toSrt(words, speakerNames), contentType: 'application/x-subrip' },
+  ];
+
+  for (const file of files) {
+    const { error } = await supabase.storage
+      .from(bucket)
+      .upload(file.path, new Blob([file.content], { type: file.contentType }), {
+        cacheControl: '3600',
+        upsert: true,
+        contentType: file.contentType,
+      });
+
+    if (error) {
+      console.error(`❌ Failed to upload caption file ${file.path}:`, error);
+      return null;
+    }
+  }
+
+  console.log(`✅ Caption files uploaded: ${basePath}.vtt, ${basePath}.srt`);
+  return {
+    vttUrl: supabase.storage.from(bucket).getPublicUrl(files[0].path).data.publicUrl,
+    srtUrl: supabase.storage.from(bucket).getPublicUrl(files[1].path).data.publicUrl,
+  };
+}
+
+/**
+ * Writes a transcript, its word timings (for synced captions) and caption files to the job's video row
+ */
+export async function saveTranscription(supabase: SupabaseClient, job: ProcessingJob, transcription: TranscriptionResult): Promise<void> {
+  const { video_id: videoId, target } = job;
+
+  const { data: videoRow } = await supabase
+    .from(target)
+    .select('speaker_names')
+    .eq('id', videoId)
+    .single();
+  const speakerNames: Record<string, string> = videoRow?.speaker_names || {};
+
+  // Write WebVTT/SRT caption files to storage
+  const captions = await uploadCaptionFiles(supabase, videoId, transcription.words, speakerNames);
+
+  console.log(`💾 Updating ${target} with transcription...`);
+
+  const { error: updateError } = await supabase
+    .from(target)
+    .update({ 
+      transcription: transcription.text,
+      transcript_words: transcription.words,
+      transcript_utterances: transcription.utterances,
+      language_code: transcription.languageCode,
+      language_confidence: transcription.languageConfidence,
+      captions_vtt_url: captions?.vttUrl ?? null,
+      captions_srt_url: captions?.srtUrl ?? null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', videoId);
+
+  if (updateError) {
+    console.error('❌ Error updating video:', updateError);
+    throw new Error(`Failed to save transcription: ${updateError.message}`);
+  }
+
+  console.log(`✅ Video ${videoId} transcription saved (${transcription.words.length} words, language: ${transcription.languageCode || 'unknown'}, confidence: ${transcription.confidence ?? 'n/a'})`);
+}
+
+/**
+ * Settles a processing job from a provider outcome: saves a completed transcript and completes
+ * the job, or records the failure so the job is retried. Pending outcomes leave the job as it is.
+ */
+export async function settleJob(supabase: SupabaseClient, job: ProcessingJob, outcome: TranscriptionOutcome): Promise<void> {
+  if (outcome.status === 'completed') {
+    try {
+      await saveTranscription(supabase, job, outcome.result);
+      await completeJob(supabase, job);
+    } catch (error) {
+      await failJob(supabase, job, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    // Messages wait in the moderation queue until their transcript has been screened. Videos are
+    // screened by the worker, which can sample frames so the pictures are checked too.
+    if (job.target === 'voice_messages') {
+      await screenSubmission(supabase, job.target, job.video_id)
+        .catch(error => console.error('❌ Safety screening failed:', error));
+    } else if (job.target === 'videos') {
+      await findOrEnqueueJob(supabase, 'videos', job.video_id, job.video_url, 'screening')
+        .catch(error => console.error('❌ Failed to queue safety screening:', error));
+    }
+
+    // With a transcript in place, the worker can suggest a title, summary and tags
+    if (job.target === 'videos' && isEnrichmentEnabled()) {
+      await findOrEnqueueJob(supabase, 'videos', job.video_id, job.video_url, 'enrichment')
+        .catch(error => console.error('❌ Failed to queue enrichment:', error));
+    }
+  } else if (outcome.status === 'error') {
+    console.error('❌ Transcription failed:', outcome.error);
+    await failJob(supabase, job, outcome.error);
+  }
+}
+
+/**
+ * Checks an asynchronous provider for the job's result and settles the job if it's finished
+ * @returns The outcome status - 'pending' means it isn't finished yet and nothing changed
+ */
+export async function finalizeTranscript(supabase: SupabaseClient, job: ProcessingJob): Promise<TranscriptionOutcome['status']> {
+  const provider = getTranscriptionProvider(job.provider || undefined);
+  if (!job.provider_job_id || !provider.fetchResult) {
+    throw new Error(`Job ${job.id} has no ${provider.name} transcript to check`);
+  }
+
+  const outcome = await provider.fetchResult(job.provider_job_id);
+  await settleJob(supabase, job, outcome);
+  return outcome.status;
+}
@@ -0,0 +1,100 @@
+/**
+ * Transcript translation with Gemini (GEMINI_API_KEY). Translates utterance by utterance so the
+ * translated captions keep the original timings; results are cached in transcript_translations.
+ */
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export interface TranslationSegment {
+  speaker: string;
+  text: string;
+  start: number; // Milliseconds
+  end: number; // Milliseconds
+}
+
+export interface TranscriptTranslation {
+  languageCode: string;
+  text: string;
+  segments: TranslationSegment[];
+}
+
+/**
+ * English name of a language code ('es' -> 'Spanish')
+ * @returns null if the code isn't a language
+ */
+export function getLanguageName(code: string): string | null {
+  try {
+    const name = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' }).of(code);
+    return name || null;
+  } catch {
+    return null; // Malformed code
+  }
+}
+
+/**
+ * Translates each segment into the target language, keeping one output string per input segment
+ */
+async function translateSegments(segments: string[], languageName: string): Promise<string[]> {
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is not set');
+  }
+
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: `Translate each of the following transcript segments from a family video message into ${languageName}. ` +
+              `Keep the warm, personal tone and any names as-is. Return exactly ${segments.length} translated segments, in the same order.\n\n` +
+              JSON.stringify(segments),
+          }],
+        }],
+        generationConfig: {
+          responseMimeType: 'application/json',
+          responseSchema: { type: 'ARRAY', items: { type: 'STRING' } },
+        },
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Gemini request failed: ${response.status} ${await response.text()}`);
+  }
+
+  const result = await response.json();
+  const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (!text) {
+    throw new Error('No response from Gemini');
+  }
+
+  const translated: unknown = JSON.parse(text);
+  if (!Array.isArray(translated) || translated.length !== segments.length) {
+    throw new Error(`Expected ${segments.length} segments, got ${Array.isArray(translated) ? translated.length : typeof translated}`);
+  }
+  return translated.map(String);
+}
+
+/**
+ * Translates a transcript, falling back to the whole text as one segment when there are no utterances
+ */
+export async function translateTranscript(
+  transcription: string,
+  utterances: TranslationSegment[],
+  languageCode: string,
+  languageName: string
+): Promise<TranscriptTranslation> {
+  const sourceSegments: TranslationSegment[] = utterances.length > 0
+    ? utterances
+    : [{ speaker: 'A', text: transcription, start: 0, end: 0 }];
+
+  const translatedTexts = await translateSegments(sourceSegments.map(segment => segment.text), languageName);
+  return {
+    languageCode,
+    text: translatedTexts.join(' '),
+    segments: sourceSegments.map((segment, index) => ({ ...segment, text: translatedTexts[index] })),
+  };
+}
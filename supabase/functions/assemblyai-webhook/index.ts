@@ -0,0 +1,96 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { WEBHOOK_SECRET_HEADER, isValidWebhookSecret } from '../_shared/transcription/assemblyai.ts';
+import { finalizeTranscript } from '../_shared/transcripts.ts';
+import { ProcessingJob } from '../_shared/processingJobs.ts';
+
+/**
+ * Receives AssemblyAI's completion webhook for jobs submitted by process-video
+ * (POST ?jobId=<processing job> with { transcript_id, status }), then fetches the
+ * transcript and writes it to the video row.
+ * JWT verification is off for this function - AssemblyAI authenticates with the shared secret header instead.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  if (!isValidWebhookSecret(req.headers.get(WEBHOOK_SECRET_HEADER))) {
+    console.warn('⚠️ Rejected webhook with missing or invalid secret');
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    const jobId = new URL(req.url).searchParams.get('jobId');
+    const { transcript_id: transcriptId, status } = await req.json();
+
+    if (!jobId || !transcriptId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing jobId or transcript_id' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    console.log(`📬 Webhook for job ${jobId}: transcript ${transcriptId} is ${status}`);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: job, error: jobError } = await supabase
+      .from('processing_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+
+    // Acknowledge webhooks we no longer care about, otherwise AssemblyAI keeps retrying them.
+    // provider_job_id can still be empty if the webhook beats process-video storing it.
+    const isCurrentAttempt = job?.status === 'processing' &&
+      (!job.provider_job_id || job.provider_job_id === transcriptId);
+    if (!isCurrentAttempt) {
+      console.log(`⏭️ Ignoring webhook for ${job ? `${job.status} job` : 'unknown job'} ${jobId}`);
+      return new Response(
+        JSON.stringify({ success: true, ignored: true }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const finalStatus = await finalizeTranscript(supabase, {
+      ...(job as ProcessingJob),
+      provider: 'assemblyai',
+      provider_job_id: transcriptId,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, jobId, status: finalStatus }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Webhook error:', error);
+    // A 5xx makes AssemblyAI retry the webhook
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -1,10 +1,36 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { TranscriptionOutcome, getTranscriptionProvider } from '../_shared/transcription/index.ts';
+import { parseStorageUrl, settleJob } from '../_shared/transcripts.ts';
+import {
+  PROCESSING_TARGETS,
+  ProcessingJob,
+  ProcessingJobType,
+  ProcessingTarget,
+  claimJob,
+  failJob,
+  findOrEnqueueJob,
+  setJobProvider,
+} from '../_shared/processingJobs.ts';
+import { getCaller, hasRole } from '../_shared/auth.ts';
 
-// Use AssemblyAI for transcription (supports larger files, faster)
-const ASSEMBLYAI_API_URL = 'https://api.assemblyai.com/v2/transcript';
-const ASSEMBLYAI_API_KEY = Deno.env.get('ASSEMBLYAI_API_KEY') || null;
+// Column each target keeps its uploaded file in
+const MEDIA_URL_COLUMNS: Record<ProcessingTarget, string> = {
+  videos: 'url',
+  event_media: 'media_url',
+  voice_messages: 'url',
+};
+// Worker jobs an uploader can ask for - screening and enrichment are only queued server-side
+const CLIENT_MEDIA_JOBS: ProcessingJobType[] = ['thumbnail', 'metadata', 'hls'];
 
+/**
+ * Queues processing for an uploaded video and sends it to the configured transcription provider
+ * (TRANSCRIPTION_PROVIDER). Takes { videoId, target, mediaJobs } from the uploader or a moderator,
+ * or { jobId } from the retry sweeper. processing_jobs rows are only ever written here and by the
+ * ffmpeg worker, always with the URL stored on the row.
+ * Asynchronous providers (AssemblyAI) return straight away - the transcript is saved by the
+ * assemblyai-webhook function when AssemblyAI calls back. Synchronous ones are saved here.
+ */
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -30,12 +56,77 @@ Deno.serve(async (req: Request) => {
     );
   }
 
+  // Initialize Supabase client
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Uploaders start processing for their own rows (moderators for anyone's); the retry sweeper
+  // resumes jobs by id with the service role key
+  const caller = await getCaller(req, supabase);
+  if (!hasRole(caller, 'contributor')) {
+    return new Response(
+      JSON.stringify({ error: caller.userId ? 'Only contributors can process videos' : 'Sign in to process videos' }),
+      { 
+        status: caller.userId ? 403 : 401,
+        headers: { 
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+
   try {
-    const { videoId, videoUrl } = await req.json();
+    const { jobId, videoId, target = 'videos', mediaJobs = [] } = await req.json();
+
+    if (jobId) {
+      if (!caller.isService) {
+        return new Response(
+          JSON.stringify({ error: 'Only the retry sweeper can resume jobs by id' }),
+          { 
+            status: 403,
+            headers: { 
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*',
+            },
+          }
+        );
+      }
 
-    if (!videoId || !videoUrl) {
+      const { data, error } = await supabase
+        .from('processing_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .eq('job_type', 'transcription')
+        .maybeSingle();
+
+      if (error || !data) {
+        return new Response(
+          JSON.stringify({ error: `Processing job not found: ${jobId}` }),
+          { 
+            status: 404,
+            headers: { 
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*',
+            },
+          }
+        );
+      }
+      return await runJob(supabase, data as ProcessingJob, supabaseUrl);
+    }
+
+    if (
+      !videoId ||
+      !PROCESSING_TARGETS.includes(target) ||
+      !Array.isArray(mediaJobs) ||
+      !mediaJobs.every(jobType => CLIENT_MEDIA_JOBS.includes(jobType))
+    ) {
       return new Response(
-        JSON.stringify({ error: 'Missing videoId or videoUrl' }),
+        JSON.stringify({
+          error: `Expected { videoId, target, mediaJobs } with target one of ${PROCESSING_TARGETS.join(', ')} ` +
+            `and mediaJobs from ${CLIENT_MEDIA_JOBS.join(', ')}`,
+        }),
         { 
           status: 400,
           headers: { 
@@ -46,91 +137,95 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const urlColumn = MEDIA_URL_COLUMNS[target as ProcessingTarget];
+    const { data: row, error: rowError } = await supabase
+      .from(target)
+      .select(`owner_id, ${urlColumn}`)
+      .eq('id', videoId)
+      .maybeSingle<Record<string, string | null>>();
 
-    console.log(`🎬 Processing video ${videoId} from ${videoUrl}`);
+    if (rowError) throw rowError;
 
-    // Verify video URL is accessible (AssemblyAI needs a publicly accessible URL)
-    console.log(`📥 Verifying video URL is accessible...`);
-    let finalVideoUrl = videoUrl;
-    let videoResponse = await fetch(videoUrl, { method: 'HEAD' });
-    
-    // If HEAD fails, try GET
-    if (!videoResponse.ok) {
-      videoResponse = await fetch(videoUrl);
+    // Same rule as can_manage() in the database: the owner or a moderator
+    const canManage = !!row && (
+      caller.isService ||
+      hasRole(caller, 'moderator') ||
+      (!!row.owner_id && row.owner_id === caller.userId)
+    );
+    if (!row || !canManage) {
+      return new Response(
+        JSON.stringify({ error: `Video not found: ${videoId}` }),
+        { 
+          status: 404,
+          headers: { 
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        }
+      );
     }
-    
-    // If still fails, try getting a signed URL from storage
-    if (!videoResponse.ok) {
-      console.log(`⚠️ Public URL failed (${videoResponse.status}), trying signed URL...`);
-      
-      // Extract file path from URL
-      const urlParts = videoUrl.split('/storage/v1/object/public/');
-      if (urlParts.length > 1) {
-        const pathParts = urlParts[1].split('/');
-        const bucket = pathParts[0];
-        const filePath = pathParts.slice(1).join('/');
-        
-        console.log(`🔑 Creating signed URL for bucket: ${bucket}, path: ${filePath}`);
-        
-        // Get signed URL (valid for 1 hour)
-        const { data: signedUrlData, error: signedError } = await supabase.storage
-          .from(bucket)
-          .createSignedUrl(filePath, 3600);
-        
-        if (signedError || !signedUrlData) {
-          console.error('❌ Failed to create signed URL:', signedError);
-          throw new Error(`Failed to access video: ${videoResponse.statusText}`);
+
+    // Jobs always point at the file the row has, never at a URL from the request
+    const videoUrl = row[urlColumn];
+    if (!videoUrl || parseStorageUrl(videoUrl)?.bucket !== 'videos') {
+      return new Response(
+        JSON.stringify({ error: `Video ${videoId} is not an uploaded file` }),
+        { 
+          status: 400,
+          headers: { 
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
         }
-        
-        console.log('✅ Using signed URL for transcription');
-        finalVideoUrl = signedUrlData.signedUrl;
-      }
+      );
     }
 
-    const fileSizeMB = videoResponse.headers.get('content-length') 
-      ? parseInt(videoResponse.headers.get('content-length')!) / (1024 * 1024)
-      : 0;
-    console.log(`✅ Video accessible: ${fileSizeMB > 0 ? fileSizeMB.toFixed(2) + ' MB' : 'size unknown'}`);
+    const [job] = await Promise.all([
+      findOrEnqueueJob(supabase, target, videoId, videoUrl),
+      ...(mediaJobs as ProcessingJobType[]).map(jobType => findOrEnqueueJob(supabase, target, videoId, videoUrl, jobType)),
+    ]);
 
-    // Transcribe the video using AssemblyAI (supports larger files)
-    console.log('🎤 Starting transcription via AssemblyAI...');
-    const transcription = await transcribeVideo(finalVideoUrl, videoId);
-    
-    if (!transcription) {
-      console.error('❌ Transcription failed - returned null');
-    } else {
-      console.log(`✅ Transcription successful: ${transcription.substring(0, 50)}...`);
-    }
+    // Answer with the queued job straight away so the uploader can track it; the transcription
+    // carries on in the background
+    EdgeRuntime.waitUntil(runJob(supabase, job, supabaseUrl));
 
-    if (transcription) {
-      console.log('💾 Updating database with transcription...');
-      
-      // Update video record with transcription
-      const { error: updateError } = await supabase
-        .from('videos')
-        .update({ 
-          transcription: transcription,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', videoId);
-
-      if (updateError) {
-        console.error('❌ Error updating video:', updateError);
-        throw updateError;
+    return new Response(
+      JSON.stringify({ success: true, jobId: job.id, job }),
+      {
+        status: 202,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
       }
+    );
+  } catch (error) {
+    console.error('❌ Edge function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error instanceof Error ? error.message : String(error) }),
+      { 
+        status: 500,
+        headers: { 
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+});
 
-      console.log(`✅ Video ${videoId} processed successfully`);
-      
+/**
+ * Claims a transcription job, runs it and records the outcome.
+ * Failed attempts go back to the queue - the retry sweeper picks them up again with backoff.
+ */
+async function runJob(supabase: SupabaseClient, job: ProcessingJob, supabaseUrl: string): Promise<Response> {
+  try {
+    // Claim the job so a concurrent invocation (or the retry sweeper) doesn't process it twice
+    const claimedJob = await claimJob(supabase, job);
+    if (!claimedJob) {
+      console.log(`⏭️ Job ${job.id} is ${job.status}, skipping`);
       return new Response(
-        JSON.stringify({ 
-          success: true, 
-          videoId,
-          transcription: transcription.substring(0, 100) + '...' // Preview
-        }),
+        JSON.stringify({ success: true, jobId: job.id, skipped: true, status: job.status }),
         {
           headers: {
             'Content-Type': 'application/json',
@@ -138,16 +233,24 @@ Deno.serve(async (req: Request) => {
           },
         }
       );
-    } else {
-      console.warn('⚠️ Transcription returned null, but continuing...');
+    }
+    job = claimedJob;
+
+    console.log(`🧾 Job ${job.id} attempt ${job.attempts}/${job.max_attempts}`);
+    const outcome = await transcribeJob(supabase, job, supabaseUrl);
+
+    if (outcome.status === 'pending') {
+      console.log(`✅ Transcription job submitted: ${outcome.providerJobId} - waiting for webhook`);
       return new Response(
         JSON.stringify({ 
           success: true, 
-          videoId,
-          transcription: null,
-          warning: 'Transcription was not available'
+          jobId: job.id,
+          videoId: job.video_id,
+          providerJobId: outcome.providerJobId,
+          status: 'processing'
         }),
         {
+          status: 202,
           headers: {
             'Content-Type': 'application/json',
             'Access-Control-Allow-Origin': '*',
@@ -156,10 +259,45 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    await settleJob(supabase, job, outcome);
+
+    if (outcome.status === 'error') {
+      return new Response(
+        JSON.stringify({ error: 'Transcription failed', details: outcome.error, jobId: job.id }),
+        { 
+          status: 502,
+          headers: { 
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        jobId: job.id,
+        videoId: job.video_id,
+        transcription: outcome.result.text.substring(0, 100) + '...', // Preview
+        wordCount: outcome.result.words.length
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+
   } catch (error) {
-    console.error('❌ Edge function error:', error);
+    console.error(`❌ Job ${job.id} failed:`, error);
+    // Only jobs we claimed are ours to fail - the sweeper will retry them with backoff
+    if (job.status === 'processing') {
+      await failJob(supabase, job, error instanceof Error ? error.message : String(error));
+    }
     return new Response(
-      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      JSON.stringify({ error: 'Internal server error', details: error instanceof Error ? error.message : String(error), jobId: job.id }),
       { 
         status: 500,
         headers: { 
@@ -169,96 +307,81 @@ Deno.serve(async (req: Request) => {
       }
     );
   }
-});
+}
 
 /**
- * Transcribes a video using AssemblyAI (supports larger files, faster processing)
- * AssemblyAI accepts URLs directly, so we pass the video URL instead of the file
+ * Checks the job's video is reachable and hands it to the transcription provider.
+ * Throws on unexpected failures so the attempt can be recorded against the job.
  */
-async function transcribeVideo(videoUrl: string, videoId: string): Promise<string | null> {
-  try {
-    if (!ASSEMBLYAI_API_KEY) {
-      console.error('❌ ASSEMBLYAI_API_KEY is not set');
-      console.error('💡 To fix: Add ASSEMBLYAI_API_KEY secret to Edge Function');
-      console.error('   1. Get API key: https://www.assemblyai.com/app/account (free tier available)');
-      console.error('   2. Add secret: Supabase Dashboard → Edge Functions → Secrets');
-      return null;
-    }
+async function transcribeJob(supabase: SupabaseClient, job: ProcessingJob, supabaseUrl: string): Promise<TranscriptionOutcome> {
+  const { video_id: videoId, video_url: videoUrl, target } = job;
+
+  console.log(`🎬 Processing video ${videoId} from ${videoUrl}`);
 
-    console.log(`📤 Submitting video URL to AssemblyAI for transcription...`);
+  // Only ever fetch from our own storage, whatever host the stored URL names
+  const storageLocation = parseStorageUrl(videoUrl);
+  if (!storageLocation) {
+    throw new Error(`Not a storage URL: ${videoUrl}`);
+  }
+  const { bucket, filePath } = storageLocation;
+
+  // Verify video URL is accessible (providers fetch it from there)
+  console.log(`📥 Verifying video URL is accessible...`);
+  let finalVideoUrl = supabase.storage.from(bucket).getPublicUrl(filePath).data.publicUrl;
+  let videoResponse = await fetch(finalVideoUrl, { method: 'HEAD' });
+  
+  // If HEAD fails, try GET
+  if (!videoResponse.ok) {
+    videoResponse = await fetch(finalVideoUrl);
+  }
+  
+  // If still fails, try getting a signed URL from storage
+  if (!videoResponse.ok) {
+    console.log(`⚠️ Public URL failed (${videoResponse.status}), trying signed URL...`);
+    console.log(`🔑 Creating signed URL for bucket: ${bucket}, path: ${filePath}`);
     
-    // Step 1: Submit transcription job
-    const submitResponse = await fetch(ASSEMBLYAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': ASSEMBLYAI_API_KEY,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        audio_url: videoUrl,
-        language_code: 'en',
-      }),
-    });
+    // Get signed URL (valid for 1 hour)
+    const { data: signedUrlData, error: signedError } = await supabase.storage
+      .from(bucket)
+      .createSignedUrl(filePath, 3600);
     
-    if (!submitResponse.ok) {
-      const errorText = await submitResponse.text();
-      console.error(`❌ Failed to submit transcription: ${submitResponse.status}`, errorText.substring(0, 500));
-      return null;
+    if (signedError || !signedUrlData) {
+      console.error('❌ Failed to create signed URL:', signedError);
+      throw new Error(`Failed to access video: ${videoResponse.statusText}`);
     }
-
-    const submitResult = await submitResponse.json();
-    const transcriptId = submitResult.id;
     
-    if (!transcriptId) {
-      console.error('❌ No transcript ID returned from AssemblyAI');
-      return null;
-    }
+    console.log('✅ Using signed URL for transcription');
+    finalVideoUrl = signedUrlData.signedUrl;
+  }
 
-    console.log(`✅ Transcription job submitted: ${transcriptId}`);
-    console.log('⏳ Polling for transcription results...');
+  const fileSizeMB = videoResponse.headers.get('content-length') 
+    ? parseInt(videoResponse.headers.get('content-length')!) / (1024 * 1024)
+    : 0;
+  console.log(`✅ Video accessible: ${fileSizeMB > 0 ? fileSizeMB.toFixed(2) + ' MB' : 'size unknown'}`);
 
-    // Step 2: Poll for results (AssemblyAI processes asynchronously)
-    const maxAttempts = 60; // 5 minutes max (5 second intervals)
-    let attempts = 0;
-    
-    while (attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
-      attempts++;
-      
-      const statusResponse = await fetch(`${ASSEMBLYAI_API_URL}/${transcriptId}`, {
-        headers: {
-          'Authorization': ASSEMBLYAI_API_KEY,
-        },
-      });
-      
-      if (!statusResponse.ok) {
-        console.error(`❌ Failed to check status: ${statusResponse.status}`);
-        continue;
-      }
+  // The uploader may have told us who speaks in the video - use it as a hint for diarization
+  const { data: videoRow } = await supabase
+    .from(target)
+    .select('speaker_names')
+    .eq('id', videoId)
+    .single();
+  const speakersExpected = Object.keys(videoRow?.speaker_names || {}).length;
 
-      const statusResult = await statusResponse.json();
-      const status = statusResult.status;
-      
-      console.log(`📊 Status check ${attempts}/${maxAttempts}: ${status}`);
-      
-      if (status === 'completed') {
-        console.log('✅ Transcription completed!');
-        if (statusResult.text) {
-          console.log(`✅ Transcription: ${statusResult.text.substring(0, 50)}...`);
-          return statusResult.text;
-        }
-      } else if (status === 'error') {
-        console.error('❌ Transcription failed:', statusResult.error);
-        return null;
-      }
-      // If status is 'queued' or 'processing', continue polling
-    }
-    
-    console.error('❌ Transcription timed out after 5 minutes');
-    return null;
+  const provider = getTranscriptionProvider();
 
-  } catch (error) {
-    console.error('❌ Transcription error:', error);
-    return null;
+  // ASSEMBLYAI_WEBHOOK_URL overrides the callback for local testing, where AssemblyAI
+  // (or the mock server) can't reach the Supabase URL the function sees
+  const webhookBaseUrl = Deno.env.get('ASSEMBLYAI_WEBHOOK_URL') || `${supabaseUrl}/functions/v1/assemblyai-webhook`;
+  const webhookUrl = provider.name === 'assemblyai'
+    ? `${webhookBaseUrl}?jobId=${encodeURIComponent(job.id)}`
+    : undefined;
+
+  console.log(`📤 Transcribing with ${provider.name} (speakers expected: ${speakersExpected || 'auto'})...`);
+  await setJobProvider(supabase, job, provider.name);
+  const outcome = await provider.transcribe({ url: finalVideoUrl }, { speakersExpected, webhookUrl });
+
+  if (outcome.status === 'pending') {
+    await setJobProvider(supabase, job, provider.name, outcome.providerJobId);
   }
+  return outcome;
 }
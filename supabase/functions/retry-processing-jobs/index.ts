@@ -0,0 +1,155 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { ProcessingJob, failJob } from '../_shared/processingJobs.ts';
+import { finalizeTranscript } from '../_shared/transcripts.ts';
+import { getCaller } from '../_shared/auth.ts';
+import { fillMissingEmbeddings, isSemanticSearchEnabled } from '../_shared/embeddings.ts';
+
+// Jobs still processing after this long either died before submitting or may have missed their webhook
+const STALE_JOB_MS = 15 * 60 * 1000;
+// Give up on an AssemblyAI transcript that still isn't done after this long
+const MAX_TRANSCRIPTION_MS = 3 * 60 * 60 * 1000;
+// HLS transcodes of long videos legitimately run well past STALE_JOB_MS
+const MAX_TRANSCODE_MS = 2 * 60 * 60 * 1000;
+// Jobs dispatched per sweep, so one run never floods AssemblyAI
+const MAX_JOBS_PER_SWEEP = 10;
+
+/**
+ * Retry sweeper for the processing_jobs queue - meant to be called on a schedule (e.g. every minute via pg_cron).
+ * 1. Jobs stuck in 'processing' past STALE_JOB_MS are checked with their provider in case the webhook was missed;
+ *    ones that never got submitted (or never finish) count as a failed attempt and get re-queued with backoff
+ * 2. Queued transcription jobs whose next_attempt_at has passed are handed to process-video
+ * 3. With GEMINI_API_KEY set, content without a search embedding gets one (for semantic search)
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Only the scheduler (with the service role key) may run the sweep
+    const caller = await getCaller(req, supabase);
+    if (!caller.isService) {
+      return new Response(
+        JSON.stringify({ error: 'The retry sweep must be called with the service role key' }),
+        {
+          status: 403,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        }
+      );
+    }
+
+    // Step 1: Recover jobs whose submission died mid-way or whose webhook never arrived
+    const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+    const { data: staleJobs, error: staleError } = await supabase
+      .from('processing_jobs')
+      .select('*')
+      .eq('status', 'processing')
+      .lt('started_at', staleBefore);
+
+    if (staleError) throw staleError;
+
+    let recovered = 0;
+    for (const job of (staleJobs || []) as ProcessingJob[]) {
+      if (job.job_type === 'hls' && Date.now() - new Date(job.started_at!).getTime() < MAX_TRANSCODE_MS) {
+        continue;
+      }
+
+      if (!job.provider_job_id) {
+        await failJob(supabase, job, job.job_type === 'transcription'
+          ? 'Processing stopped before the video was submitted for transcription'
+          : `The ${job.job_type} worker stopped before finishing`);
+        recovered++;
+        continue;
+      }
+
+      try {
+        const status = await finalizeTranscript(supabase, job);
+        const isOverdue = Date.now() - new Date(job.started_at!).getTime() > MAX_TRANSCRIPTION_MS;
+        if (status === 'pending' && isOverdue) {
+          await failJob(supabase, job, `Transcript ${job.provider_job_id} did not finish in time`);
+        }
+        if (status === 'completed' || status === 'error' || isOverdue) recovered++;
+      } catch (error) {
+        console.error(`❌ Failed to check transcript for job ${job.id}:`, error);
+      }
+    }
+
+    // Step 2: Dispatch due transcription jobs (the ffmpeg worker polls for its own job types)
+    const { data: dueJobs, error: dueError } = await supabase
+      .from('processing_jobs')
+      .select('*')
+      .eq('job_type', 'transcription')
+      .eq('status', 'queued')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(MAX_JOBS_PER_SWEEP);
+
+    if (dueError) throw dueError;
+
+    const jobs = (dueJobs || []) as ProcessingJob[];
+    console.log(`🔁 Sweep: ${recovered} stale job(s) settled, ${jobs.length} job(s) due`);
+
+    // process-video claims each job itself, so overlapping sweeps can't double-process.
+    // Don't hold this response open for the transcriptions - let them finish in the background.
+    const dispatches = jobs.map(job =>
+      fetch(`${supabaseUrl}/functions/v1/process-video`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${supabaseServiceKey}`,
+        },
+        body: JSON.stringify({ jobId: job.id }),
+      }).catch(error => console.error(`❌ Failed to dispatch job ${job.id}:`, error))
+    );
+    EdgeRuntime.waitUntil(Promise.all(dispatches));
+
+    // Step 3: Embed new or edited content for semantic search, also in the background
+    if (isSemanticSearchEnabled()) {
+      EdgeRuntime.waitUntil(
+        fillMissingEmbeddings(supabase)
+          .then(filled => console.log(`🔎 Embedded ${filled} item(s) for semantic search`))
+          .catch(error => console.error('❌ Failed to fill search embeddings:', error))
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        recovered,
+        dispatched: jobs.map(job => job.id),
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('❌ Retry sweep error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,101 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { getCaller, hasRole } from '../_shared/auth.ts';
+import { screenSubmission } from '../_shared/safety/index.ts';
+
+// Recordings are screened by the pipeline once their transcript (and, for videos, frames) are in
+const UPLOAD_TARGETS = ['articles', 'images'] as const;
+
+/**
+ * Safety screening for an article or image right after it's uploaded (videos are screened once
+ * their transcript is saved). Takes { target, id } and answers { status, verdict } - status is
+ * 'approved' when nothing was flagged, otherwise the submission waits for a moderator.
+ */
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  try {
+    const { target, id } = await req.json();
+    if (!UPLOAD_TARGETS.includes(target) || !id) {
+      return new Response(
+        JSON.stringify({ error: `Expected { target, id } with target one of ${UPLOAD_TARGETS.join(', ')}` }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        }
+      );
+    }
+
+    // Uploaders can screen their own submissions, moderators anyone's
+    const caller = await getCaller(req, supabase);
+    const { data: row } = await supabase
+      .from(target)
+      .select('owner_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    const isOwner = !!row?.owner_id && row.owner_id === caller.userId;
+    if (!hasRole(caller, 'moderator') && !(isOwner && hasRole(caller, 'contributor'))) {
+      return new Response(
+        JSON.stringify({ error: caller.userId ? 'You can only screen your own uploads' : 'Sign in to screen uploads' }),
+        {
+          status: caller.userId ? 403 : 401,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        }
+      );
+    }
+
+    const result = await screenSubmission(supabase, target as typeof UPLOAD_TARGETS[number], id);
+    return new Response(
+      JSON.stringify(result),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Edge function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+});
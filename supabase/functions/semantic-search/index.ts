@@ -0,0 +1,134 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { getCaller, hasRole } from '../_shared/auth.ts';
+import { embedText, isSemanticSearchEnabled, toVectorLiteral } from '../_shared/embeddings.ts';
+import { hitRateLimit, RateLimit } from '../_shared/rateLimit.ts';
+
+// Results below this cosine similarity are rarely related to the query
+const MIN_SIMILARITY = 0.55;
+const MAX_RESULTS = 30;
+// Every query is embedded by Gemini, so each signed-in user gets a budget
+const SEARCH_LIMIT: RateLimit = { maxHits: 30, windowSeconds: 60 };
+
+/**
+ * Semantic search over approved content. Takes { query } and answers { results } in the same shape
+ * as the search_content database function, ranked by similarity instead of text match.
+ * Only content the retry sweeper has already embedded can be found. Needs a signed-in user and is
+ * rate limited per user (SEARCH_LIMIT).
+ */
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+
+  if (!isSemanticSearchEnabled()) {
+    return new Response(
+      JSON.stringify({ error: 'Semantic search is not configured (GEMINI_API_KEY is not set)' }),
+      {
+        status: 503,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const caller = await getCaller(req, supabase);
+  if (!hasRole(caller, 'viewer')) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in to search by meaning' }),
+      {
+        status: 401,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+
+  if (!caller.isService && !(await hitRateLimit(supabase, `semantic-search:${caller.userId}`, SEARCH_LIMIT))) {
+    return new Response(
+      JSON.stringify({ error: 'Too many searches - try again in a minute' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+          'Retry-After': String(SEARCH_LIMIT.windowSeconds),
+        },
+      }
+    );
+  }
+
+  try {
+    const { query } = await req.json();
+    if (typeof query !== 'string' || !query.trim()) {
+      return new Response(
+        JSON.stringify({ error: 'Expected { query }' }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        }
+      );
+    }
+
+    const embedding = await embedText(query.trim(), 'RETRIEVAL_QUERY');
+
+    // match_content only returns approved content, so the service role is safe here
+    const { data, error } = await supabase.rpc('match_content', {
+      query_embedding: toVectorLiteral(embedding),
+      match_count: MAX_RESULTS,
+      min_similarity: MIN_SIMILARITY,
+    });
+
+    if (error) throw error;
+
+    return new Response(
+      JSON.stringify({ results: data || [] }),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Edge function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+});
@@ -1,7 +1,14 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { getCaller, hasRole } from '../_shared/auth.ts';
+import { TranscriptionOutcome, getTranscriptionProvider } from '../_shared/transcription/index.ts';
 
-const HUGGINGFACE_API_URL = 'https://router.huggingface.co/models/openai/whisper-large-v3';
-const HUGGINGFACE_TOKEN = Deno.env.get('HUGGINGFACE_TOKEN') || null;
+/**
+ * On-demand transcription of an uploaded file with the configured provider (TRANSCRIPTION_PROVIDER).
+ * Responds with { status, provider, result } for synchronous providers; asynchronous ones answer
+ * 202 { status: 'pending', provider, providerJobId }, and the caller checks back by posting
+ * { provider, providerJobId } as JSON.
+ */
 
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight requests
@@ -28,10 +35,25 @@ Deno.serve(async (req: Request) => {
     );
   }
 
+  // Transcription costs provider credits, so it's limited to contributors
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const caller = await getCaller(req, supabase);
+  if (!hasRole(caller, 'contributor')) {
+    return new Response(
+      JSON.stringify({ error: caller.userId ? 'Only contributors can transcribe videos' : 'Sign in to transcribe videos' }),
+      { 
+        status: caller.userId ? 403 : 401,
+        headers: { 
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+
   try {
     // Get the file data from the request (can be FormData or JSON with base64)
     let file: File | null = null;
-    let fileBlob: Blob | null = null;
 
     const contentType = req.headers.get('content-type') || '';
     
@@ -40,8 +62,17 @@ Deno.serve(async (req: Request) => {
       const formData = await req.formData();
       file = formData.get('file') as File;
     } else {
-      // Handle JSON with base64 file data
       const body = await req.json();
+      if (body.providerJobId) {
+        // Checking on an earlier asynchronous submission
+        const provider = getTranscriptionProvider(body.provider);
+        if (!provider.fetchResult) {
+          throw new Error(`${provider.name} does not support checking on a transcription`);
+        }
+        return outcomeResponse(provider.name, await provider.fetchResult(body.providerJobId));
+      }
+
+      // Handle JSON with base64 file data
       if (body.file && typeof body.file === 'string') {
         // Convert base64 to Blob
         const base64Data = body.file;
@@ -51,13 +82,11 @@ Deno.serve(async (req: Request) => {
           bytes[i] = binaryString.charCodeAt(i);
         }
         const mimeType = body.contentType || 'video/mp4';
-        fileBlob = new Blob([bytes], { type: mimeType });
-        // Create a File-like object for Hugging Face API
-        file = new File([fileBlob], body.filename || 'video.mp4', { type: mimeType });
+        file = new File([bytes], body.filename || 'video.mp4', { type: mimeType });
       }
     }
 
-    if (!file && !fileBlob) {
+    if (!file) {
       return new Response(
         JSON.stringify({ error: 'No file provided' }),
         { 
@@ -70,104 +99,16 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    console.log(`Transcribing file: ${file?.name || 'video'}, size: ${file?.size || fileBlob?.size || 0} bytes`);
-
-    // Prepare headers for Hugging Face API
-    const headers: HeadersInit = {};
-    if (HUGGINGFACE_TOKEN) {
-      headers['Authorization'] = `Bearer ${HUGGINGFACE_TOKEN}`;
-    }
-
-    // Forward the file to Hugging Face API
-    const response = await fetch(HUGGINGFACE_API_URL, {
-      method: 'POST',
-      headers,
-      body: file || fileBlob,
-    });
-
-    if (!response.ok) {
-      // Handle model loading (503) with retry
-      if (response.status === 503) {
-        const retryAfter = response.headers.get('Retry-After');
-        const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : 10000;
-        console.log(`Model loading, waiting ${waitTime}ms...`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        
-        // Retry the request
-        const retryResponse = await fetch(HUGGINGFACE_API_URL, {
-          method: 'POST',
-          headers,
-          body: file,
-        });
-
-        if (!retryResponse.ok) {
-          const errorText = await retryResponse.text();
-          console.error('Transcription API error after retry:', retryResponse.status, errorText);
-          return new Response(
-            JSON.stringify({ error: 'Transcription service unavailable', details: errorText }),
-            { 
-              status: retryResponse.status,
-              headers: { 
-                'Content-Type': 'application/json',
-                'Access-Control-Allow-Origin': '*',
-              },
-            }
-          );
-        }
-
-        const result = await retryResponse.json();
-        return new Response(
-          JSON.stringify(result),
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              'Access-Control-Allow-Origin': '*',
-            },
-          }
-        );
-      }
-
-      const errorText = await response.text();
-      console.error('Transcription API error:', response.status, errorText);
-      return new Response(
-        JSON.stringify({ error: 'Transcription failed', details: errorText }),
-        { 
-          status: response.status,
-          headers: { 
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        }
-      );
-    }
-
-    const result = await response.json();
-    console.log('Transcription successful');
-
-    // Extract text from various possible response formats
-    let transcriptionText: string | null = null;
-    if (result.text) {
-      transcriptionText = result.text;
-    } else if (result[0]?.text) {
-      transcriptionText = result[0].text;
-    } else if (typeof result === 'string') {
-      transcriptionText = result;
-    }
+    const provider = getTranscriptionProvider();
+    console.log(`Transcribing file: ${file.name}, size: ${file.size} bytes, provider: ${provider.name}`);
 
-    return new Response(
-      JSON.stringify({ text: transcriptionText, raw: result }),
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      }
-    );
+    const outcome = await provider.transcribe({ file, filename: file.name });
+    return outcomeResponse(provider.name, outcome);
 
   } catch (error) {
     console.error('Edge function error:', error);
     return new Response(
-      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      JSON.stringify({ error: 'Internal server error', details: error instanceof Error ? error.message : String(error) }),
       { 
         status: 500,
         headers: { 
@@ -179,3 +120,22 @@ Deno.serve(async (req: Request) => {
   }
 });
 
+
+function outcomeResponse(provider: string, outcome: TranscriptionOutcome): Response {
+  if (outcome.status === 'error') {
+    console.error('Transcription failed:', outcome.error);
+  } else if (outcome.status === 'completed') {
+    console.log('Transcription successful');
+  }
+
+  return new Response(
+    JSON.stringify({ provider, ...outcome }),
+    {
+      status: outcome.status === 'pending' ? 202 : outcome.status === 'error' ? 502 : 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+    }
+  );
+}
@@ -0,0 +1,189 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { getCaller, hasRole } from '../_shared/auth.ts';
+import { hitRateLimit, RateLimit } from '../_shared/rateLimit.ts';
+import { getLanguageName, translateTranscript, TranslationSegment } from '../_shared/translation.ts';
+
+// Same targets as transcript_translations.target
+const TRANSLATION_TARGETS = ['videos', 'event_media', 'voice_messages'] as const;
+// Only translations nobody has asked for yet get here, and each one is a Gemini call
+const TRANSLATION_LIMIT: RateLimit = { maxHits: 20, windowSeconds: 60 };
+
+interface TranscriptRow {
+  owner_id: string | null;
+  moderation_status: string;
+  transcription: string | null;
+  transcript_utterances: TranslationSegment[] | null;
+}
+
+/**
+ * Translates a transcript into a viewer-selected language and caches it in
+ * transcript_translations, which only this function writes to. Takes { target, id, languageCode }
+ * and answers { translation }. Needs a signed-in user who can see the video, and is rate limited
+ * per user (TRANSLATION_LIMIT).
+ */
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const caller = await getCaller(req, supabase);
+  if (!hasRole(caller, 'viewer')) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in to translate transcripts' }),
+      {
+        status: 401,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+
+  try {
+    const { target = 'videos', id, languageCode } = await req.json();
+    const languageName = typeof languageCode === 'string' ? getLanguageName(languageCode) : null;
+    if (!TRANSLATION_TARGETS.includes(target) || !id || !languageName) {
+      return new Response(
+        JSON.stringify({ error: `Expected { target, id, languageCode } with target one of ${TRANSLATION_TARGETS.join(', ')}` }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        }
+      );
+    }
+
+    // Approved videos are visible to everyone, the rest only to their owner and moderators
+    const { data: row, error: rowError } = await supabase
+      .from(target)
+      .select('owner_id, moderation_status, transcription, transcript_utterances')
+      .eq('id', id)
+      .maybeSingle<TranscriptRow>();
+
+    if (rowError) throw rowError;
+
+    const canSee = !!row && (
+      row.moderation_status === 'approved' ||
+      (!!row.owner_id && row.owner_id === caller.userId) ||
+      hasRole(caller, 'moderator')
+    );
+    if (!row || !canSee || !row.transcription) {
+      return new Response(
+        JSON.stringify({ error: 'No transcript to translate' }),
+        {
+          status: 404,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        }
+      );
+    }
+
+    // Another viewer may have asked for the same language in the meantime
+    const { data: cached } = await supabase
+      .from('transcript_translations')
+      .select('language_code, text, segments')
+      .eq('target', target)
+      .eq('video_id', id)
+      .eq('language_code', languageCode)
+      .maybeSingle();
+
+    if (cached) {
+      return new Response(
+        JSON.stringify({
+          translation: { languageCode: cached.language_code, text: cached.text, segments: cached.segments || [] },
+        }),
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        }
+      );
+    }
+
+    if (!caller.isService && !(await hitRateLimit(supabase, `translate-transcript:${caller.userId}`, TRANSLATION_LIMIT))) {
+      return new Response(
+        JSON.stringify({ error: 'Too many translations - try again in a minute' }),
+        {
+          status: 429,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+            'Retry-After': String(TRANSLATION_LIMIT.windowSeconds),
+          },
+        }
+      );
+    }
+
+    console.log(`🌐 Translating transcript for ${id} into ${languageName}...`);
+    const translation = await translateTranscript(
+      row.transcription,
+      row.transcript_utterances || [],
+      languageCode,
+      languageName
+    );
+
+    const { error: insertError } = await supabase
+      .from('transcript_translations')
+      .upsert({
+        target,
+        video_id: id,
+        language_code: languageCode,
+        text: translation.text,
+        segments: translation.segments,
+      }, { onConflict: 'target,video_id,language_code', ignoreDuplicates: true });
+
+    if (insertError) {
+      console.error('Error caching transcript translation:', insertError.message);
+    }
+
+    return new Response(
+      JSON.stringify({ translation }),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Edge function error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,106 @@
+-- The schema as the app launched with it (created in the dashboard before migrations were kept).
+-- Later migrations build on these tables, so a fresh database (supabase start / db reset) ends
+-- up the same as the hosted project. On the hosted project this migration is already applied:
+--   supabase migration repair --status applied 20251213000000
+
+-- Video messages for Naia's feed
+create table if not exists public.videos (
+  id uuid primary key,
+  url text not null,
+  thumbnail text not null default '',
+  title text not null default '',
+  description text not null default '',
+  timestamp bigint not null, -- Milliseconds since the epoch, set by the uploader's browser
+  duration_string text not null default '00:00',
+  transcription text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.articles (
+  id uuid primary key,
+  link text not null,
+  title text not null default '',
+  description text not null default '',
+  timestamp bigint not null,
+  posted_by text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.images (
+  id uuid primary key,
+  url text not null,
+  title text not null default '',
+  description text not null default '',
+  timestamp bigint not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.events (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  description text,
+  date date not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.event_media (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events (id) on delete cascade,
+  media_type text not null check (media_type in ('video', 'image')),
+  media_url text not null,
+  thumbnail text,
+  title text,
+  description text,
+  uploaded_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists videos_timestamp_idx on public.videos (timestamp desc);
+create index if not exists articles_timestamp_idx on public.articles (timestamp desc);
+create index if not exists images_timestamp_idx on public.images (timestamp desc);
+create index if not exists events_date_idx on public.events (date desc);
+create index if not exists event_media_event_id_idx on public.event_media (event_id);
+
+-- Anyone with the link could read and add content (replaced by role-based policies later)
+do $$
+declare
+  content_table text;
+begin
+  foreach content_table in array array['videos', 'articles', 'images', 'events', 'event_media']
+  loop
+    execute format('alter table public.%I enable row level security', content_table);
+    execute format($policy$
+      create policy "Allow public access"
+        on public.%I for all
+        to anon, authenticated
+        using (true)
+        with check (true)
+    $policy$, content_table);
+  end loop;
+end;
+$$;
+
+-- Transcripts arrive in the background, so the feed listens for video updates
+alter publication supabase_realtime add table public.videos;
+
+-- Every upload lives in one public bucket: videos/, images/, events/ (and later thumbnails/, hls/)
+insert into storage.buckets (id, name, public)
+values ('videos', 'videos', true)
+on conflict (id) do nothing;
+
+create policy "Allow public reads from videos bucket"
+  on storage.objects for select
+  to anon, authenticated
+  using (bucket_id = 'videos');
+
+create policy "Allow public uploads to videos bucket"
+  on storage.objects for insert
+  to anon, authenticated
+  with check (bucket_id = 'videos');
+
+create policy "Allow public updates in videos bucket"
+  on storage.objects for update
+  to anon, authenticated
+  using (bucket_id = 'videos');
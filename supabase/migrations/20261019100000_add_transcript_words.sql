@@ -0,0 +1,7 @@
+-- Word-level timestamps from AssemblyAI, used to render synced captions.
+-- Stored as an array of { text, start, end, confidence } with times in milliseconds.
+alter table public.videos
+  add column if not exists transcript_words jsonb;
+
+comment on column public.videos.transcript_words is
+  'Word-level transcript timings: [{ text, start, end, confidence }], times in ms';
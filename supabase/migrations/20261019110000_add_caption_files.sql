@@ -0,0 +1,12 @@
+-- Caption files (WebVTT for <track>, SRT for download) generated by process-video
+-- and stored next to the upload in the videos bucket.
+alter table public.videos
+  add column if not exists captions_vtt_url text,
+  add column if not exists captions_srt_url text;
+
+-- Event videos go through the same transcription pipeline so they can carry captions too
+alter table public.event_media
+  add column if not exists transcription text,
+  add column if not exists transcript_words jsonb,
+  add column if not exists captions_vtt_url text,
+  add column if not exists captions_srt_url text;
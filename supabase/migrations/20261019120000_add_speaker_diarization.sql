@@ -0,0 +1,14 @@
+-- Speaker diarization: AssemblyAI labels speakers A, B, C... in order of first appearance.
+-- speaker_names maps those labels to the real names entered by the uploader, e.g. {"A": "Grandma", "B": "Uncle Joe"}.
+alter table public.videos
+  add column if not exists transcript_utterances jsonb,
+  add column if not exists speaker_names jsonb;
+
+alter table public.event_media
+  add column if not exists transcript_utterances jsonb,
+  add column if not exists speaker_names jsonb;
+
+comment on column public.videos.transcript_utterances is
+  'Speaker-attributed transcript: [{ speaker, text, start, end }], times in ms';
+comment on column public.videos.speaker_names is
+  'Maps diarization labels (A, B, ...) to real names';
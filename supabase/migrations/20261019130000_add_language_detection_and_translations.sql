@@ -0,0 +1,56 @@
+-- Language detected by AssemblyAI for each transcript (e.g. 'en', 'es')
+alter table public.videos
+  add column if not exists language_code text,
+  add column if not exists language_confidence real;
+
+alter table public.event_media
+  add column if not exists language_code text,
+  add column if not exists language_confidence real;
+
+-- Cached transcript translations into viewer-selected languages.
+-- segments holds the translated utterances with their original timings so captions stay in sync.
+create table if not exists public.transcript_translations (
+  id uuid primary key default gen_random_uuid(),
+  target text not null default 'videos' check (target in ('videos', 'event_media')),
+  video_id uuid not null,
+  language_code text not null,
+  text text not null,
+  segments jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  unique (video_id, language_code)
+);
+
+alter table public.transcript_translations enable row level security;
+
+create policy "Translations are readable by everyone"
+  on public.transcript_translations for select
+  to anon, authenticated
+  using (true);
+
+-- Translations are generated and stored by the translate-transcript Edge Function (service role),
+-- so there are no insert policies
+
+-- A new transcript makes its translations stale - drop them so they're generated again
+create or replace function public.clear_transcript_translations()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.transcription is distinct from old.transcription then
+    delete from public.transcript_translations where video_id = new.id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists videos_clear_transcript_translations on public.videos;
+create trigger videos_clear_transcript_translations
+  after update of transcription on public.videos
+  for each row execute function public.clear_transcript_translations();
+
+drop trigger if exists event_media_clear_transcript_translations on public.event_media;
+create trigger event_media_clear_transcript_translations
+  after update of transcription on public.event_media
+  for each row execute function public.clear_transcript_translations();
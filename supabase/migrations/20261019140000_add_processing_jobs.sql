@@ -0,0 +1,45 @@
+-- Durable queue for the transcription pipeline.
+-- One row per attempt-series: the process-video function claims queued jobs, and the
+-- retry-processing-jobs sweeper re-runs failed attempts with backoff and recovers jobs
+-- whose function invocation died mid-way (e.g. timed out while waiting on AssemblyAI).
+create table if not exists public.processing_jobs (
+  id uuid primary key default gen_random_uuid(),
+  target text not null default 'videos' check (target in ('videos', 'event_media')),
+  video_id uuid not null,
+  video_url text not null,
+  status text not null default 'queued' check (status in ('queued', 'processing', 'completed', 'failed')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  last_error text,
+  next_attempt_at timestamptz not null default now(),
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists processing_jobs_video_idx
+  on public.processing_jobs (video_id, created_at desc);
+
+create index if not exists processing_jobs_due_idx
+  on public.processing_jobs (status, next_attempt_at);
+
+-- Only one job per video can be waiting or running at a time
+create unique index if not exists processing_jobs_one_active_per_video
+  on public.processing_jobs (target, video_id)
+  where status in ('queued', 'processing');
+
+alter table public.processing_jobs enable row level security;
+
+create policy "Processing jobs are readable by everyone"
+  on public.processing_jobs for select
+  to anon, authenticated
+  using (true);
+
+create policy "Anyone can enqueue a processing job"
+  on public.processing_jobs for insert
+  to anon, authenticated
+  with check (status = 'queued' and attempts = 0);
+
+-- Status badges update live
+alter publication supabase_realtime add table public.processing_jobs;
@@ -0,0 +1,7 @@
+-- AssemblyAI transcript ID for the running attempt, so the completion webhook
+-- (and the retry sweeper, if a webhook is missed) can find the job it belongs to
+alter table public.processing_jobs
+  add column if not exists provider_job_id text;
+
+create index if not exists processing_jobs_provider_job_idx
+  on public.processing_jobs (provider_job_id);
@@ -0,0 +1,4 @@
+-- Which transcription provider handled a job's current attempt, so asynchronous results are
+-- fetched from the right provider even if TRANSCRIPTION_PROVIDER changes in the meantime
+alter table public.processing_jobs
+  add column if not exists provider text;
@@ -0,0 +1,18 @@
+-- processing_jobs now carries more than transcriptions: 'thumbnail' jobs are run by the
+-- ffmpeg worker (worker/), which picks a representative poster frame for the video
+alter table public.processing_jobs
+  add column if not exists job_type text not null default 'transcription'
+    check (job_type in ('transcription', 'thumbnail'));
+
+-- One active job per video *per job type*
+drop index if exists public.processing_jobs_one_active_per_video;
+create unique index if not exists processing_jobs_one_active_per_video
+  on public.processing_jobs (target, video_id, job_type)
+  where status in ('queued', 'processing');
+
+create index if not exists processing_jobs_worker_idx
+  on public.processing_jobs (job_type, status, next_attempt_at);
+
+-- The pipeline stamps updated_at on whichever row it writes to; event_media didn't have one
+alter table public.event_media
+  add column if not exists updated_at timestamptz not null default now();
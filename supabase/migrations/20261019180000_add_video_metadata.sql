@@ -0,0 +1,28 @@
+-- Real media details instead of the "00:00" duration placeholder. Filled in by the browser at
+-- upload (duration, size, resolution) and by the ffmpeg worker's 'metadata' jobs (everything)
+alter table public.videos
+  add column if not exists duration_seconds double precision,
+  add column if not exists width integer,
+  add column if not exists height integer,
+  add column if not exists video_codec text,
+  add column if not exists rotation smallint,
+  add column if not exists file_size bigint,
+  add column if not exists recorded_at timestamptz;
+
+alter table public.event_media
+  add column if not exists duration_seconds double precision,
+  add column if not exists width integer,
+  add column if not exists height integer,
+  add column if not exists video_codec text,
+  add column if not exists rotation smallint,
+  add column if not exists file_size bigint,
+  add column if not exists recorded_at timestamptz;
+
+-- Sorting the feed by length
+create index if not exists videos_duration_seconds_idx on public.videos (duration_seconds);
+
+alter table public.processing_jobs
+  drop constraint if exists processing_jobs_job_type_check;
+alter table public.processing_jobs
+  add constraint processing_jobs_job_type_check
+    check (job_type in ('transcription', 'thumbnail', 'metadata'));
@@ -0,0 +1,14 @@
+-- Adaptive streaming: the ffmpeg worker's 'hls' jobs transcode uploads into multi-bitrate
+-- HLS renditions under hls/<id>/ in the videos bucket and store the master playlist here.
+-- Null while transcoding is pending - players fall back to the original url.
+alter table public.videos
+  add column if not exists hls_url text;
+
+alter table public.event_media
+  add column if not exists hls_url text;
+
+alter table public.processing_jobs
+  drop constraint if exists processing_jobs_job_type_check;
+alter table public.processing_jobs
+  add constraint processing_jobs_job_type_check
+    check (job_type in ('transcription', 'thumbnail', 'metadata', 'hls'));
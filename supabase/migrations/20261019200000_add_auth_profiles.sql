@@ -0,0 +1,108 @@
+-- Accounts for contributors and Naia's family: Supabase Auth (magic link / email sign-in)
+-- with a public profile per user, and an owner on everything they upload.
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  display_name text not null default '',
+  avatar_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+-- Names are shown next to uploads, so anyone can read profiles; only the owner can change theirs
+create policy "Profiles are readable by everyone"
+  on public.profiles for select
+  to anon, authenticated
+  using (true);
+
+create policy "Users can update their own profile"
+  on public.profiles for update
+  to authenticated
+  using (auth.uid() = id)
+  with check (auth.uid() = id);
+
+create policy "Users can create their own profile"
+  on public.profiles for insert
+  to authenticated
+  with check (auth.uid() = id);
+
+-- Create the profile as soon as someone signs up. The sign-in form passes the name as
+-- user metadata; fall back to the part of the email before the @
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id, display_name)
+  values (
+    new.id,
+    coalesce(nullif(trim(new.raw_user_meta_data ->> 'display_name'), ''), split_part(new.email, '@', 1))
+  )
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Profiles for anyone who signed up before this migration
+insert into public.profiles (id, display_name)
+select id, coalesce(nullif(trim(raw_user_meta_data ->> 'display_name'), ''), split_part(email, '@', 1))
+from auth.users
+on conflict (id) do nothing;
+
+-- Owners are stamped by the database from the caller's JWT (the stamp_owner trigger below), so
+-- they can't be spoofed by the client. Existing rows (and anything uploaded signed out) have no owner.
+alter table public.videos
+  add column if not exists owner_id uuid references auth.users (id) on delete set null default auth.uid();
+alter table public.articles
+  add column if not exists owner_id uuid references auth.users (id) on delete set null default auth.uid();
+alter table public.images
+  add column if not exists owner_id uuid references auth.users (id) on delete set null default auth.uid();
+alter table public.event_media
+  add column if not exists owner_id uuid references auth.users (id) on delete set null default auth.uid();
+
+create index if not exists videos_owner_id_idx on public.videos (owner_id);
+create index if not exists articles_owner_id_idx on public.articles (owner_id);
+create index if not exists images_owner_id_idx on public.images (owner_id);
+create index if not exists event_media_owner_id_idx on public.event_media (owner_id);
+
+-- Client requests (anon and authenticated) always get the caller as owner, and can't hand a row
+-- to someone else later. The service role and the SQL editor can set owners (seeding, imports).
+create or replace function public.stamp_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.owner_id := auth.uid();
+  else
+    new.owner_id := old.owner_id;
+  end if;
+  return new;
+end;
+$$;
+
+do $$
+declare
+  content_table text;
+begin
+  foreach content_table in array array['videos', 'articles', 'images', 'event_media']
+  loop
+    execute format(
+      'create trigger stamp_owner before insert or update on public.%I for each row execute function public.stamp_owner()',
+      content_table
+    );
+  end loop;
+end;
+$$;
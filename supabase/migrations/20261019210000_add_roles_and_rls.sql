@@ -0,0 +1,187 @@
+-- Role model and row level security.
+--   viewer       signed in, can watch but not upload (default for new accounts - sign-up is open,
+--                so an admin promotes the people who should be able to upload)
+--   contributor  can upload, and edit/delete what they uploaded
+--   moderator    can also edit/delete anyone's content
+--   admin        can also re-run processing and change roles
+-- Signed-out visitors can only read. Enum order matters: has_app_role() compares with >=.
+
+create type public.app_role as enum ('viewer', 'contributor', 'moderator', 'admin');
+
+-- Accounts from before roles existed could already upload, so they start out as contributors
+alter table public.profiles
+  add column if not exists role public.app_role not null default 'contributor';
+alter table public.profiles
+  alter column role set default 'viewer';
+
+-- Role of the calling user ('viewer' for accounts without a profile, null when signed out)
+create or replace function public.current_app_role()
+returns public.app_role
+language sql
+stable
+security definer set search_path = public
+as $$
+  select case
+    when auth.uid() is null then null
+    else coalesce((select role from public.profiles where id = auth.uid()), 'viewer'::public.app_role)
+  end;
+$$;
+
+create or replace function public.has_app_role(minimum public.app_role)
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select coalesce(public.current_app_role() >= minimum, false);
+$$;
+
+-- Owners can change their own rows, moderators and admins can change anyone's
+create or replace function public.can_manage(owner uuid)
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select (owner is not null and owner = auth.uid()) or public.has_app_role('moderator');
+$$;
+
+-- Profiles are only created by the sign-up trigger. Users can rename themselves; only admins
+-- can change anyone's role (including their own). Requests without a user (service role, SQL
+-- editor) are trusted, which is how the first admin is made.
+drop policy if exists "Users can create their own profile" on public.profiles;
+
+create policy "Admins can update any profile"
+  on public.profiles for update
+  to authenticated
+  using (public.has_app_role('admin'))
+  with check (public.has_app_role('admin'));
+
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if new.role is distinct from old.role and not public.has_app_role('admin') then
+    raise exception 'Only admins can change roles';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger protect_profile_role
+  before update on public.profiles
+  for each row execute function public.protect_profile_role();
+
+-- Events get an owner like everything else
+alter table public.events
+  add column if not exists owner_id uuid references auth.users (id) on delete set null default auth.uid();
+create index if not exists events_owner_id_idx on public.events (owner_id);
+
+create trigger stamp_owner
+  before insert or update on public.events
+  for each row execute function public.stamp_owner();
+
+-- Replace the old wide-open anon policies on the content tables
+do $$
+declare
+  existing record;
+begin
+  for existing in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public'
+      and tablename in ('videos', 'articles', 'images', 'events', 'event_media')
+  loop
+    execute format('drop policy %I on public.%I', existing.policyname, existing.tablename);
+  end loop;
+end;
+$$;
+
+do $$
+declare
+  content_table text;
+begin
+  foreach content_table in array array['videos', 'articles', 'images', 'events', 'event_media']
+  loop
+    execute format('alter table public.%I enable row level security', content_table);
+
+    execute format($policy$
+      create policy "Content is readable by everyone"
+        on public.%I for select
+        to anon, authenticated
+        using (true)
+    $policy$, content_table);
+
+    execute format($policy$
+      create policy "Contributors can add content"
+        on public.%I for insert
+        to authenticated
+        with check (public.has_app_role('contributor') and owner_id = auth.uid())
+    $policy$, content_table);
+
+    execute format($policy$
+      create policy "Owners and moderators can edit content"
+        on public.%I for update
+        to authenticated
+        using (public.can_manage(owner_id))
+        with check (public.can_manage(owner_id))
+    $policy$, content_table);
+
+    execute format($policy$
+      create policy "Owners and moderators can delete content"
+        on public.%I for delete
+        to authenticated
+        using (public.can_manage(owner_id))
+    $policy$, content_table);
+  end loop;
+end;
+$$;
+
+-- Processing jobs are queued by contributors after uploading (and by admins to re-transcribe)
+drop policy if exists "Anyone can enqueue a processing job" on public.processing_jobs;
+create policy "Contributors can enqueue processing jobs"
+  on public.processing_jobs for insert
+  to authenticated
+  with check (public.has_app_role('contributor'));
+
+-- Uploaded files all live in the videos bucket (images under images/). Drop the old anon
+-- policies for it; storage.objects.owner is set from the uploader's session by Supabase Storage.
+do $$
+declare
+  existing record;
+begin
+  for existing in
+    select policyname from pg_policies
+    where schemaname = 'storage'
+      and tablename = 'objects'
+      and (coalesce(qual, '') || coalesce(with_check, '')) like '%''videos''%'
+  loop
+    execute format('drop policy %I on storage.objects', existing.policyname);
+  end loop;
+end;
+$$;
+
+create policy "Media is readable by everyone"
+  on storage.objects for select
+  to anon, authenticated
+  using (bucket_id = 'videos');
+
+create policy "Contributors can upload media"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'videos' and public.has_app_role('contributor'));
+
+create policy "Owners and moderators can replace media"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'videos' and public.can_manage(owner));
+
+create policy "Owners and moderators can delete media"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'videos' and public.can_manage(owner));
@@ -0,0 +1,106 @@
+-- Moderation queue: new videos, articles, images, events and event photos/videos wait in
+-- 'pending' until a moderator approves them, so nothing reaches Naia's feed unreviewed.
+
+create type public.moderation_status as enum ('pending', 'approved', 'rejected', 'changes_requested');
+
+-- Everything already in the feed stays approved; new rows default to pending
+do $$
+declare
+  content_table text;
+begin
+  foreach content_table in array array['videos', 'articles', 'images', 'events', 'event_media']
+  loop
+    execute format($sql$
+      alter table public.%1$I
+        add column if not exists moderation_status public.moderation_status not null default 'approved',
+        add column if not exists moderation_reason text,
+        add column if not exists moderated_by uuid references auth.users (id) on delete set null,
+        add column if not exists moderated_at timestamptz;
+      alter table public.%1$I alter column moderation_status set default 'pending';
+      create index if not exists %2$I on public.%1$I (moderation_status);
+    $sql$, content_table, content_table || '_moderation_status_idx');
+  end loop;
+end;
+$$;
+
+-- Only moderators decide. Uploads by anyone else always start out pending, and they can't
+-- change the decision afterwards. Requests without a user (service role, SQL editor) are trusted.
+create or replace function public.protect_moderation_status()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if not public.has_app_role('moderator') then
+      new.moderation_status := 'pending';
+      new.moderation_reason := null;
+    end if;
+    new.moderated_by := null;
+    new.moderated_at := null;
+    return new;
+  end if;
+
+  if new.moderation_status is distinct from old.moderation_status
+    or new.moderation_reason is distinct from old.moderation_reason then
+    if not public.has_app_role('moderator') then
+      raise exception 'Only moderators can review submissions';
+    end if;
+    new.moderated_by := auth.uid();
+    new.moderated_at := now();
+  else
+    new.moderated_by := old.moderated_by;
+    new.moderated_at := old.moderated_at;
+
+    -- An uploader editing approved content (or fixing what a moderator asked for) sends it back
+    -- for review, so nothing can be swapped in after approval
+    if old.moderation_status in ('approved', 'changes_requested')
+      and not public.has_app_role('moderator')
+      and (to_jsonb(new) - array['updated_at', 'moderation_status', 'moderation_reason', 'moderated_by', 'moderated_at'])
+        is distinct from (to_jsonb(old) - array['updated_at', 'moderation_status', 'moderation_reason', 'moderated_by', 'moderated_at']) then
+      new.moderation_status := 'pending';
+      new.moderation_reason := null;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger protect_moderation_status
+  before insert or update on public.videos
+  for each row execute function public.protect_moderation_status();
+create trigger protect_moderation_status
+  before insert or update on public.articles
+  for each row execute function public.protect_moderation_status();
+create trigger protect_moderation_status
+  before insert or update on public.images
+  for each row execute function public.protect_moderation_status();
+create trigger protect_moderation_status
+  before insert or update on public.events
+  for each row execute function public.protect_moderation_status();
+create trigger protect_moderation_status
+  before insert or update on public.event_media
+  for each row execute function public.protect_moderation_status();
+
+-- Unreviewed content is only visible to its uploader and the moderators
+do $$
+declare
+  content_table text;
+begin
+  foreach content_table in array array['videos', 'articles', 'images', 'events', 'event_media']
+  loop
+    execute format('drop policy if exists "Content is readable by everyone" on public.%I', content_table);
+
+    execute format($policy$
+      create policy "Approved content is readable by everyone"
+        on public.%I for select
+        to anon, authenticated
+        using (moderation_status = 'approved' or public.can_manage(owner_id))
+    $policy$, content_table);
+  end loop;
+end;
+$$;
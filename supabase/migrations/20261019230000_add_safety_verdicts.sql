@@ -0,0 +1,32 @@
+-- Automated safety screening: every classifier verdict on a submission is kept for audit.
+-- Clean submissions are approved by the screening code; flagged ones stay pending for a moderator.
+-- Videos are screened by the ffmpeg worker's 'screening' job, which samples frames so the
+-- pictures are checked as well as the transcript.
+
+alter table public.processing_jobs
+  drop constraint if exists processing_jobs_job_type_check;
+alter table public.processing_jobs
+  add constraint processing_jobs_job_type_check
+    check (job_type in ('transcription', 'thumbnail', 'metadata', 'hls', 'screening'));
+
+create table if not exists public.safety_verdicts (
+  id uuid primary key default gen_random_uuid(),
+  target text not null check (target in ('videos', 'articles', 'images')),
+  item_id uuid not null,
+  classifier text not null check (classifier in ('gemini', 'keywords')),
+  flagged boolean not null,
+  categories text[] not null default '{}',
+  scores jsonb not null default '{}'::jsonb, -- { profanity, distressing, personal_data }, each 0-1
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists safety_verdicts_item_idx on public.safety_verdicts (target, item_id, created_at desc);
+
+alter table public.safety_verdicts enable row level security;
+
+-- Written by the Edge Functions with the service role; only moderators can read them
+create policy "Moderators can read safety verdicts"
+  on public.safety_verdicts for select
+  to authenticated
+  using (public.has_app_role('moderator'));
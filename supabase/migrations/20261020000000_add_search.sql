@@ -0,0 +1,241 @@
+-- Search across messages (title, description, transcript), articles, images and events.
+-- Full-text search uses expression indexes rather than stored tsvector columns, so the feed's
+-- select('*') queries and realtime payloads stay the same size. Semantic search compares Gemini
+-- embeddings (pgvector) kept in their own table, filled in by the retry-processing-jobs sweeper
+-- when GEMINI_API_KEY is set.
+
+create extension if not exists vector with schema extensions;
+
+-- The text each row is searched by, weighted title > description > the rest
+create or replace function public.search_document(title text, description text, body text default null)
+returns tsvector
+language sql
+immutable
+as $$
+  select
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(body, '')), 'C');
+$$;
+
+create index if not exists videos_search_idx
+  on public.videos using gin (public.search_document(title, description, transcription));
+create index if not exists articles_search_idx
+  on public.articles using gin (public.search_document(title, description, posted_by));
+create index if not exists images_search_idx
+  on public.images using gin (public.search_document(title, description));
+create index if not exists events_search_idx
+  on public.events using gin (public.search_document(title, description));
+
+-- One embedding per searchable row
+create table if not exists public.search_embeddings (
+  result_type text not null check (result_type in ('videos', 'articles', 'images', 'events')),
+  item_id uuid not null,
+  embedding extensions.vector(768) not null,
+  created_at timestamptz not null default now(),
+  primary key (result_type, item_id)
+);
+
+create index if not exists search_embeddings_embedding_idx
+  on public.search_embeddings using hnsw (embedding extensions.vector_cosine_ops);
+
+-- Only the service role (sweeper and semantic-search function) touches embeddings
+alter table public.search_embeddings enable row level security;
+
+-- Embeddings go stale when the text changes (e.g. a transcript arrives) or the row is deleted -
+-- drop them so the sweeper embeds the new text
+create or replace function public.reset_search_embedding()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' or
+    (to_jsonb(new) ->> 'title', to_jsonb(new) ->> 'description', to_jsonb(new) ->> 'transcription')
+      is distinct from
+      (to_jsonb(old) ->> 'title', to_jsonb(old) ->> 'description', to_jsonb(old) ->> 'transcription') then
+    delete from public.search_embeddings
+    where result_type = tg_table_name and item_id = old.id;
+  end if;
+  return null;
+end;
+$$;
+
+do $$
+declare
+  content_table text;
+begin
+  foreach content_table in array array['videos', 'articles', 'images', 'events']
+  loop
+    execute format(
+      'create trigger reset_search_embedding after update or delete on public.%I
+        for each row execute function public.reset_search_embedding()',
+      content_table
+    );
+  end loop;
+end;
+$$;
+
+-- Full-text search over approved content. Snippets mark matches with [[ ]].
+create or replace function public.search_content(search_query text, match_count integer default 20)
+returns table (result_type text, id uuid, title text, snippet text, rank real)
+language sql
+stable
+set search_path = public
+as $$
+  with query as (
+    select
+      websearch_to_tsquery('english', search_query) as q,
+      'StartSel=[[, StopSel=]], MaxFragments=1, MaxWords=24, MinWords=8' as headline
+  )
+  (
+    select 'videos', v.id, v.title,
+      ts_headline('english', concat_ws(' · ', nullif(v.description, ''), v.transcription), query.q, query.headline),
+      ts_rank(search_document(v.title, v.description, v.transcription), query.q)
+    from public.videos v, query
+    where search_document(v.title, v.description, v.transcription) @@ query.q
+      and v.moderation_status = 'approved'
+    order by 5 desc
+    limit match_count
+  )
+  union all
+  (
+    select 'articles', a.id, a.title,
+      ts_headline('english', concat_ws(' · ', nullif(a.description, ''), a.posted_by), query.q, query.headline),
+      ts_rank(search_document(a.title, a.description, a.posted_by), query.q)
+    from public.articles a, query
+    where search_document(a.title, a.description, a.posted_by) @@ query.q
+      and a.moderation_status = 'approved'
+    order by 5 desc
+    limit match_count
+  )
+  union all
+  (
+    select 'images', i.id, i.title,
+      ts_headline('english', i.description, query.q, query.headline),
+      ts_rank(search_document(i.title, i.description), query.q)
+    from public.images i, query
+    where search_document(i.title, i.description) @@ query.q
+      and i.moderation_status = 'approved'
+    order by 5 desc
+    limit match_count
+  )
+  union all
+  (
+    select 'events', e.id, e.title,
+      ts_headline('english', coalesce(e.description, ''), query.q, query.headline),
+      ts_rank(search_document(e.title, e.description), query.q)
+    from public.events e, query
+    where search_document(e.title, e.description) @@ query.q
+      and e.moderation_status = 'approved'
+    order by 5 desc
+    limit match_count
+  );
+$$;
+
+-- Rows the sweeper still has to embed, with the text to embed
+create or replace function public.content_missing_embeddings(batch_size integer default 20)
+returns table (result_type text, id uuid, content text)
+language sql
+stable
+set search_path = public
+as $$
+  select * from (
+    select 'videos', v.id, concat_ws(E'\n\n', v.title, v.description, v.transcription)
+    from public.videos v
+    where v.moderation_status = 'approved'
+      and not exists (select 1 from public.search_embeddings s where s.result_type = 'videos' and s.item_id = v.id)
+    union all
+    select 'articles', a.id, concat_ws(E'\n\n', a.title, a.description, a.posted_by)
+    from public.articles a
+    where a.moderation_status = 'approved'
+      and not exists (select 1 from public.search_embeddings s where s.result_type = 'articles' and s.item_id = a.id)
+    union all
+    select 'images', i.id, concat_ws(E'\n\n', i.title, i.description)
+    from public.images i
+    where i.moderation_status = 'approved'
+      and not exists (select 1 from public.search_embeddings s where s.result_type = 'images' and s.item_id = i.id)
+    union all
+    select 'events', e.id, concat_ws(E'\n\n', e.title, e.description)
+    from public.events e
+    where e.moderation_status = 'approved'
+      and not exists (select 1 from public.search_embeddings s where s.result_type = 'events' and s.item_id = e.id)
+  ) missing
+  limit batch_size;
+$$;
+
+-- Semantic search: approved content nearest to the query embedding by cosine similarity
+create or replace function public.match_content(
+  query_embedding extensions.vector(768),
+  match_count integer default 20,
+  min_similarity real default 0.5
+)
+returns table (result_type text, id uuid, title text, snippet text, rank real)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  with matches as (
+    select s.result_type, s.item_id, (1 - (s.embedding <=> query_embedding))::real as similarity
+    from public.search_embeddings s
+    order by s.embedding <=> query_embedding
+    limit match_count * 2
+  )
+  select m.result_type, m.item_id, content.title, left(content.snippet, 200), m.similarity
+  from matches m
+  cross join lateral (
+    select v.title, coalesce(v.transcription, v.description) as snippet
+    from public.videos v
+    where m.result_type = 'videos' and v.id = m.item_id and v.moderation_status = 'approved'
+    union all
+    select a.title, a.description
+    from public.articles a
+    where m.result_type = 'articles' and a.id = m.item_id and a.moderation_status = 'approved'
+    union all
+    select i.title, i.description
+    from public.images i
+    where m.result_type = 'images' and i.id = m.item_id and i.moderation_status = 'approved'
+    union all
+    select e.title, coalesce(e.description, '')
+    from public.events e
+    where m.result_type = 'events' and e.id = m.item_id and e.moderation_status = 'approved'
+  ) content
+  where m.similarity >= min_similarity
+  order by m.similarity desc
+  limit match_count;
+$$;
+
+-- Per-caller request counts for edge functions that call paid APIs (semantic-search embeds every
+-- query). Fixed windows: one row per key and window, old rows are cleared as new ones come in.
+create table if not exists public.rate_limits (
+  key text not null,
+  window_start timestamptz not null,
+  hits integer not null default 0,
+  primary key (key, window_start)
+);
+
+-- Only the service role (edge functions) counts requests
+alter table public.rate_limits enable row level security;
+
+-- Counts a request against bucket and says whether it's still within max_hits for the current window
+create or replace function public.hit_rate_limit(bucket text, max_hits integer, window_seconds integer)
+returns boolean
+language plpgsql
+set search_path = public
+as $$
+declare
+  current_window timestamptz := to_timestamp(floor(extract(epoch from now()) / window_seconds) * window_seconds);
+  total integer;
+begin
+  delete from public.rate_limits r
+  where r.key = bucket and r.window_start < current_window;
+
+  insert into public.rate_limits as r (key, window_start, hits)
+  values (bucket, current_window, 1)
+  on conflict on constraint rate_limits_pkey do update set hits = r.hits + 1
+  returning r.hits into total;
+
+  return total <= max_hits;
+end;
+$$;
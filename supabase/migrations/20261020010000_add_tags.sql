@@ -0,0 +1,190 @@
+-- Tags for the people, places and themes in a memory, so feeds can be filtered
+-- ("all messages featuring Aunt Maya"). Each tag exists once per kind (matched case-insensitively)
+-- and is linked to videos, articles, images and event media through one join table per content type.
+
+create type public.tag_kind as enum ('person', 'place', 'theme');
+
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  kind public.tag_kind not null,
+  name text not null check (btrim(name) <> ''),
+  slug text generated always as (lower(btrim(name))) stored,
+  created_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  unique (kind, slug)
+);
+
+-- suggested: added by the description backfill rather than by a person - cleared once the
+-- uploader (or a moderator) saves the item's tags
+create table if not exists public.video_tags (
+  video_id uuid not null references public.videos (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  suggested boolean not null default false,
+  created_at timestamptz not null default now(),
+  primary key (video_id, tag_id)
+);
+
+create table if not exists public.article_tags (
+  article_id uuid not null references public.articles (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  suggested boolean not null default false,
+  created_at timestamptz not null default now(),
+  primary key (article_id, tag_id)
+);
+
+create table if not exists public.image_tags (
+  image_id uuid not null references public.images (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  suggested boolean not null default false,
+  created_at timestamptz not null default now(),
+  primary key (image_id, tag_id)
+);
+
+create table if not exists public.event_media_tags (
+  event_media_id uuid not null references public.event_media (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  suggested boolean not null default false,
+  created_at timestamptz not null default now(),
+  primary key (event_media_id, tag_id)
+);
+
+-- For "everything tagged X"
+create index if not exists video_tags_tag_id_idx on public.video_tags (tag_id);
+create index if not exists article_tags_tag_id_idx on public.article_tags (tag_id);
+create index if not exists image_tags_tag_id_idx on public.image_tags (tag_id);
+create index if not exists event_media_tags_tag_id_idx on public.event_media_tags (tag_id);
+
+-- Everyone can read tags; changes go through set_content_tags(), which checks ownership.
+-- Moderators can tidy up the tag list itself (rename, merge by deleting).
+do $$
+declare
+  tag_table text;
+begin
+  foreach tag_table in array array['tags', 'video_tags', 'article_tags', 'image_tags', 'event_media_tags']
+  loop
+    execute format('alter table public.%I enable row level security', tag_table);
+    execute format($policy$
+      create policy "Tags are readable by everyone"
+        on public.%I for select
+        to anon, authenticated
+        using (true)
+    $policy$, tag_table);
+  end loop;
+end;
+$$;
+
+create policy "Moderators can edit tags"
+  on public.tags for update
+  to authenticated
+  using (public.has_app_role('moderator'))
+  with check (public.has_app_role('moderator'));
+
+create policy "Moderators can delete tags"
+  on public.tags for delete
+  to authenticated
+  using (public.has_app_role('moderator'));
+
+-- Replaces an item's tags with new_tags ([{ "kind": "person", "name": "Aunt Maya" }, ...]), creating
+-- any tags that don't exist yet. Only the item's owner (a contributor) or a moderator may tag it.
+create or replace function public.set_content_tags(target text, item_id uuid, new_tags jsonb)
+returns setof public.tags
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  link_table text;
+  item_column text;
+  item_owner uuid;
+  item_found boolean;
+begin
+  case target
+    when 'videos' then link_table := 'video_tags'; item_column := 'video_id';
+    when 'articles' then link_table := 'article_tags'; item_column := 'article_id';
+    when 'images' then link_table := 'image_tags'; item_column := 'image_id';
+    when 'event_media' then link_table := 'event_media_tags'; item_column := 'event_media_id';
+    else raise exception 'Unknown tag target %', target;
+  end case;
+
+  execute format('select owner_id, true from public.%I where id = $1', target)
+    into item_owner, item_found
+    using item_id;
+
+  if item_found is null then
+    raise exception 'No % row with id %', target, item_id;
+  end if;
+  if not (public.has_app_role('contributor') and public.can_manage(item_owner)) then
+    raise exception 'You can only tag your own uploads' using errcode = '42501';
+  end if;
+
+  insert into public.tags (kind, name)
+  select distinct on (entry.kind, lower(btrim(entry.name))) entry.kind, btrim(entry.name)
+  from jsonb_to_recordset(coalesce(new_tags, '[]'::jsonb)) as entry(kind public.tag_kind, name text)
+  where btrim(coalesce(entry.name, '')) <> ''
+  on conflict (kind, slug) do nothing;
+
+  execute format('delete from public.%I where %I = $1', link_table, item_column) using item_id;
+  execute format(
+    'insert into public.%I (%I, tag_id)
+      select $1, tags.id
+      from public.tags
+      join jsonb_to_recordset(coalesce($2, ''[]''::jsonb)) as entry(kind public.tag_kind, name text)
+        on tags.kind = entry.kind and tags.slug = lower(btrim(entry.name))
+      on conflict do nothing',
+    link_table, item_column
+  ) using item_id, new_tags;
+
+  return query execute format(
+    'select tags.* from public.tags join public.%I link on link.tag_id = tags.id
+      where link.%I = $1 order by tags.kind, tags.name',
+    link_table, item_column
+  ) using item_id;
+end;
+$$;
+
+-- One-time backfill: video descriptions have been "Who's in the video: Grandma, Uncle Joe and me".
+-- Capitalised names become suggested person tags; "me", "my family" and the like are skipped.
+create or replace function public.description_person_names()
+returns table (video_id uuid, name text)
+language sql
+stable
+set search_path = public
+as $$
+  select names.video_id, names.name
+  from (
+    select videos.id as video_id, btrim(part, ' .!') as name
+    from public.videos,
+      regexp_split_to_table(
+        substring(videos.description from '^Who''s in the video:\s*(.*)$'),
+        '\s*(,|&|\+|/|;|\mand\M|\mwith\M)\s*',
+        'i'
+      ) as part
+  ) names
+  where names.name ~ '^[[:upper:]]'
+    and lower(names.name) not in ('me', 'i', 'myself', 'us', 'we', 'just me', 'my family', 'family', 'everyone', 'all of us');
+$$;
+
+create or replace function public.suggest_tags_from_descriptions()
+returns integer
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  suggested_count integer;
+begin
+  insert into public.tags (kind, name, created_by)
+  select distinct on (lower(name)) 'person', name, null
+  from public.description_person_names()
+  on conflict (kind, slug) do nothing;
+
+  insert into public.video_tags (video_id, tag_id, suggested)
+  select distinct person_names.video_id, tags.id, true
+  from public.description_person_names() as person_names
+  join public.tags on tags.kind = 'person' and tags.slug = lower(person_names.name)
+  on conflict do nothing;
+
+  get diagnostics suggested_count = row_count;
+  return suggested_count;
+end;
+$$;
+
+select public.suggest_tags_from_descriptions();
@@ -0,0 +1,50 @@
+-- AI enrichment: once a message is transcribed, the ffmpeg worker's 'enrichment' job looks at the
+-- transcript and a few sampled frames and proposes a title, a one-line summary, the people and
+-- themes in it and a content warning. Proposals wait in video_suggestions until the uploader
+-- accepts (possibly edited) or dismisses them.
+
+alter table public.videos
+  add column if not exists summary text,
+  add column if not exists content_warning text;
+
+alter table public.processing_jobs
+  drop constraint if exists processing_jobs_job_type_check;
+alter table public.processing_jobs
+  add constraint processing_jobs_job_type_check
+    check (job_type in ('transcription', 'thumbnail', 'metadata', 'hls', 'screening', 'enrichment'));
+
+create table if not exists public.video_suggestions (
+  video_id uuid primary key references public.videos (id) on delete cascade,
+  title text,
+  summary text,
+  content_warning text, -- Null when nothing needs a warning
+  people text[] not null default '{}',
+  themes text[] not null default '{}',
+  model text not null, -- Which enrichment model proposed it, e.g. 'gemini', 'mock'
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'dismissed')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.video_suggestions enable row level security;
+
+-- Written by the worker with the service role; the uploader (or a moderator) reviews them
+create policy "Owners and moderators can read suggestions"
+  on public.video_suggestions for select
+  to authenticated
+  using (exists (
+    select 1 from public.videos
+    where videos.id = video_suggestions.video_id and public.can_manage(videos.owner_id)
+  ));
+
+create policy "Owners and moderators can review suggestions"
+  on public.video_suggestions for update
+  to authenticated
+  using (exists (
+    select 1 from public.videos
+    where videos.id = video_suggestions.video_id and public.can_manage(videos.owner_id)
+  ))
+  with check (exists (
+    select 1 from public.videos
+    where videos.id = video_suggestions.video_id and public.can_manage(videos.owner_id)
+  ));
@@ -0,0 +1,81 @@
+-- Voice messages: audio-only notes recorded in the browser. They're transcribed by the same
+-- process-video pipeline as videos (target 'voice_messages'), screened once the transcript is in,
+-- and go through the moderation queue like everything else before reaching Naia's feed.
+
+create table if not exists public.voice_messages (
+  id uuid primary key,
+  url text not null, -- Audio file in the videos bucket, under voice/
+  title text not null default '',
+  description text not null default '',
+  person_name text not null default '', -- Who's speaking, as they typed it
+  speaker_photo_url text, -- Their profile photo when they recorded it
+  timestamp bigint not null, -- Milliseconds since the epoch, set by the uploader's browser
+  duration_seconds double precision,
+  waveform jsonb, -- Peak levels (0-1) for drawing the waveform without decoding the audio
+  transcription text,
+  transcript_words jsonb,
+  transcript_utterances jsonb,
+  speaker_names jsonb,
+  language_code text,
+  language_confidence double precision,
+  captions_vtt_url text,
+  captions_srt_url text,
+  owner_id uuid references auth.users (id) on delete set null default auth.uid(),
+  moderation_status public.moderation_status not null default 'pending',
+  moderation_reason text,
+  moderated_by uuid references auth.users (id) on delete set null,
+  moderated_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists voice_messages_timestamp_idx on public.voice_messages (timestamp desc);
+create index if not exists voice_messages_owner_id_idx on public.voice_messages (owner_id);
+create index if not exists voice_messages_moderation_status_idx on public.voice_messages (moderation_status);
+
+create trigger stamp_owner
+  before insert or update on public.voice_messages
+  for each row execute function public.stamp_owner();
+
+create trigger protect_moderation_status
+  before insert or update on public.voice_messages
+  for each row execute function public.protect_moderation_status();
+
+alter table public.voice_messages enable row level security;
+
+create policy "Approved content is readable by everyone"
+  on public.voice_messages for select
+  to anon, authenticated
+  using (moderation_status = 'approved' or public.can_manage(owner_id));
+
+create policy "Contributors can add content"
+  on public.voice_messages for insert
+  to authenticated
+  with check (public.has_app_role('contributor') and owner_id = auth.uid());
+
+create policy "Owners and moderators can edit content"
+  on public.voice_messages for update
+  to authenticated
+  using (public.can_manage(owner_id))
+  with check (public.can_manage(owner_id));
+
+create policy "Owners and moderators can delete content"
+  on public.voice_messages for delete
+  to authenticated
+  using (public.can_manage(owner_id));
+
+-- Transcription jobs and safety verdicts can point at voice messages too
+alter table public.processing_jobs
+  drop constraint if exists processing_jobs_target_check;
+alter table public.processing_jobs
+  add constraint processing_jobs_target_check
+    check (target in ('videos', 'event_media', 'voice_messages'));
+
+alter table public.safety_verdicts
+  drop constraint if exists safety_verdicts_target_check;
+alter table public.safety_verdicts
+  add constraint safety_verdicts_target_check
+    check (target in ('videos', 'articles', 'images', 'voice_messages'));
+
+-- Live feed updates, like the other content tables
+alter publication supabase_realtime add table public.voice_messages;
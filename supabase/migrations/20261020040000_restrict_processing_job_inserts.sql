@@ -0,0 +1,11 @@
+-- Signed-out clients can't queue processing jobs, and a contributor's job has to start out queued
+-- with no attempts, so nobody can mark their own job running or done. The anonymous insert policy
+-- from the processing jobs migration was already replaced by the roles migration; dropping it
+-- again keeps this safe to run on a database that skipped that step.
+drop policy if exists "Anyone can enqueue a processing job" on public.processing_jobs;
+
+drop policy if exists "Contributors can enqueue processing jobs" on public.processing_jobs;
+create policy "Contributors can enqueue processing jobs"
+  on public.processing_jobs for insert
+  to authenticated
+  with check (public.has_app_role('contributor') and status = 'queued' and attempts = 0);
@@ -0,0 +1,178 @@
+-- Tags follow the moderation queue: they're only readable where the item they're on is, an
+-- uploader retagging an approved item sends it back for review, and the one-time description
+-- backfill can't be run again through the API.
+
+-- Sending something back for review is the one status change uploaders may make themselves
+-- (set_content_tags does this when an approved item is retagged)
+create or replace function public.protect_moderation_status()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if not public.has_app_role('moderator') then
+      new.moderation_status := 'pending';
+      new.moderation_reason := null;
+    end if;
+    new.moderated_by := null;
+    new.moderated_at := null;
+    return new;
+  end if;
+
+  if new.moderation_status is distinct from old.moderation_status
+    or new.moderation_reason is distinct from old.moderation_reason then
+    if new.moderation_status = 'pending' and new.moderation_reason is null
+      and old.moderation_status in ('approved', 'changes_requested') then
+      new.moderated_by := null;
+      new.moderated_at := null;
+      return new;
+    end if;
+    if not public.has_app_role('moderator') then
+      raise exception 'Only moderators can review submissions';
+    end if;
+    new.moderated_by := auth.uid();
+    new.moderated_at := now();
+  else
+    new.moderated_by := old.moderated_by;
+    new.moderated_at := old.moderated_at;
+
+    -- An uploader editing approved content (or fixing what a moderator asked for) sends it back
+    -- for review, so nothing can be swapped in after approval
+    if old.moderation_status in ('approved', 'changes_requested')
+      and not public.has_app_role('moderator')
+      and (to_jsonb(new) - array['updated_at', 'moderation_status', 'moderation_reason', 'moderated_by', 'moderated_at'])
+        is distinct from (to_jsonb(old) - array['updated_at', 'moderation_status', 'moderation_reason', 'moderated_by', 'moderated_at']) then
+      new.moderation_status := 'pending';
+      new.moderation_reason := null;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+-- The link tables check the item's own read policy, so the tags on pending or rejected items stay
+-- with their uploader and the moderators. A tag itself is readable once it's on something the
+-- caller can see (or they created it).
+drop policy if exists "Tags are readable by everyone" on public.tags;
+drop policy if exists "Tags are readable by everyone" on public.video_tags;
+drop policy if exists "Tags are readable by everyone" on public.article_tags;
+drop policy if exists "Tags are readable by everyone" on public.image_tags;
+drop policy if exists "Tags are readable by everyone" on public.event_media_tags;
+
+create policy "Tags are readable with their items"
+  on public.video_tags for select
+  to anon, authenticated
+  using (exists (select 1 from public.videos where videos.id = video_tags.video_id));
+
+create policy "Tags are readable with their items"
+  on public.article_tags for select
+  to anon, authenticated
+  using (exists (select 1 from public.articles where articles.id = article_tags.article_id));
+
+create policy "Tags are readable with their items"
+  on public.image_tags for select
+  to anon, authenticated
+  using (exists (select 1 from public.images where images.id = image_tags.image_id));
+
+create policy "Tags are readable with their items"
+  on public.event_media_tags for select
+  to anon, authenticated
+  using (exists (select 1 from public.event_media where event_media.id = event_media_tags.event_media_id));
+
+create policy "Tags on visible items are readable"
+  on public.tags for select
+  to anon, authenticated
+  using (
+    created_by = auth.uid()
+    or public.has_app_role('moderator')
+    or exists (select 1 from public.video_tags link where link.tag_id = tags.id)
+    or exists (select 1 from public.article_tags link where link.tag_id = tags.id)
+    or exists (select 1 from public.image_tags link where link.tag_id = tags.id)
+    or exists (select 1 from public.event_media_tags link where link.tag_id = tags.id)
+  );
+
+-- Replaces an item's tags with new_tags ([{ "kind": "person", "name": "Aunt Maya" }, ...]), creating
+-- any tags that don't exist yet. Only the item's owner (a contributor) or a moderator may tag it.
+-- Like any other edit, an uploader retagging an approved item sends it back for review.
+create or replace function public.set_content_tags(target text, item_id uuid, new_tags jsonb)
+returns setof public.tags
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  link_table text;
+  item_column text;
+  item_owner uuid;
+  item_found boolean;
+  old_tag_ids uuid[];
+  new_tag_ids uuid[];
+begin
+  case target
+    when 'videos' then link_table := 'video_tags'; item_column := 'video_id';
+    when 'articles' then link_table := 'article_tags'; item_column := 'article_id';
+    when 'images' then link_table := 'image_tags'; item_column := 'image_id';
+    when 'event_media' then link_table := 'event_media_tags'; item_column := 'event_media_id';
+    else raise exception 'Unknown tag target %', target;
+  end case;
+
+  execute format('select owner_id, true from public.%I where id = $1', target)
+    into item_owner, item_found
+    using item_id;
+
+  if item_found is null then
+    raise exception 'No % row with id %', target, item_id;
+  end if;
+  if not (public.has_app_role('contributor') and public.can_manage(item_owner)) then
+    raise exception 'You can only tag your own uploads' using errcode = '42501';
+  end if;
+
+  insert into public.tags (kind, name)
+  select distinct on (entry.kind, lower(btrim(entry.name))) entry.kind, btrim(entry.name)
+  from jsonb_to_recordset(coalesce(new_tags, '[]'::jsonb)) as entry(kind public.tag_kind, name text)
+  where btrim(coalesce(entry.name, '')) <> ''
+  on conflict (kind, slug) do nothing;
+
+  execute format('select array_agg(tag_id order by tag_id) from public.%I where %I = $1', link_table, item_column)
+    into old_tag_ids
+    using item_id;
+
+  execute format('delete from public.%I where %I = $1', link_table, item_column) using item_id;
+  execute format(
+    'insert into public.%I (%I, tag_id)
+      select $1, tags.id
+      from public.tags
+      join jsonb_to_recordset(coalesce($2, ''[]''::jsonb)) as entry(kind public.tag_kind, name text)
+        on tags.kind = entry.kind and tags.slug = lower(btrim(entry.name))
+      on conflict do nothing',
+    link_table, item_column
+  ) using item_id, new_tags;
+
+  execute format('select array_agg(tag_id order by tag_id) from public.%I where %I = $1', link_table, item_column)
+    into new_tag_ids
+    using item_id;
+
+  if old_tag_ids is distinct from new_tag_ids and not public.has_app_role('moderator') then
+    execute format(
+      'update public.%I set moderation_status = ''pending'', moderation_reason = null
+        where id = $1 and moderation_status in (''approved'', ''changes_requested'')',
+      target
+    ) using item_id;
+  end if;
+
+  return query execute format(
+    'select tags.* from public.tags join public.%I link on link.tag_id = tags.id
+      where link.%I = $1 order by tags.kind, tags.name',
+    link_table, item_column
+  ) using item_id;
+end;
+$$;
+
+-- The description backfill runs as the table owner and would put back suggested tags uploaders
+-- have since removed - keep it to the SQL editor
+revoke execute on function public.suggest_tags_from_descriptions() from public, anon, authenticated;
+revoke execute on function public.description_person_names() from public, anon, authenticated;
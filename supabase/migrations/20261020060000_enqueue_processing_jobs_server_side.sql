@@ -0,0 +1,17 @@
+-- Processing jobs are queued by the process-video edge function, which checks the caller can
+-- manage the row and takes the file URL from the row itself. A client-written job could point
+-- at someone else's video (overwriting their transcript, thumbnail and HLS stream) or at any
+-- URL, and a screening job could approve a video nobody looked at - so clients can't insert
+-- jobs at all anymore. They can still read them to follow progress.
+drop policy if exists "Anyone can enqueue a processing job" on public.processing_jobs;
+drop policy if exists "Contributors can enqueue processing jobs" on public.processing_jobs;
+
+-- Replacing a file in place would swap the media behind an approved item without it going back
+-- through moderation. Uploads never overwrite (each one gets a new path), so only moderators
+-- can replace files; owners can still delete theirs.
+drop policy if exists "Owners and moderators can replace media" on storage.objects;
+drop policy if exists "Moderators can replace media" on storage.objects;
+create policy "Moderators can replace media"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'videos' and public.has_app_role('moderator'));
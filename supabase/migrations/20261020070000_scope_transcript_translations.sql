@@ -0,0 +1,56 @@
+-- Transcript translations follow the item they translate: readable only while its row is
+-- visible (so pending and rejected messages don't leak through their translations), keyed by
+-- target as well as id, and available for voice messages too.
+
+alter table public.transcript_translations
+  drop constraint if exists transcript_translations_target_check;
+alter table public.transcript_translations
+  add constraint transcript_translations_target_check
+  check (target in ('videos', 'event_media', 'voice_messages'));
+
+alter table public.transcript_translations
+  drop constraint if exists transcript_translations_video_id_language_code_key;
+alter table public.transcript_translations
+  drop constraint if exists transcript_translations_target_video_id_language_code_key;
+alter table public.transcript_translations
+  add constraint transcript_translations_target_video_id_language_code_key
+  unique (target, video_id, language_code);
+
+drop policy if exists "Translations are readable by everyone" on public.transcript_translations;
+drop policy if exists "Translations are readable with their items" on public.transcript_translations;
+
+create policy "Translations are readable with their items"
+  on public.transcript_translations for select
+  to anon, authenticated
+  using (
+    (target = 'videos' and exists (
+      select 1 from public.videos where videos.id = transcript_translations.video_id
+    ))
+    or (target = 'event_media' and exists (
+      select 1 from public.event_media where event_media.id = transcript_translations.video_id
+    ))
+    or (target = 'voice_messages' and exists (
+      select 1 from public.voice_messages where voice_messages.id = transcript_translations.video_id
+    ))
+  );
+
+-- Only clear the translations of the row whose transcript changed
+create or replace function public.clear_transcript_translations()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.transcription is distinct from old.transcription then
+    delete from public.transcript_translations
+    where target = tg_table_name and video_id = new.id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists voice_messages_clear_transcript_translations on public.voice_messages;
+create trigger voice_messages_clear_transcript_translations
+  after update of transcription on public.voice_messages
+  for each row execute function public.clear_transcript_translations();
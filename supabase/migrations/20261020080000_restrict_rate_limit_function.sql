@@ -0,0 +1,4 @@
+-- hit_rate_limit is only meant for edge functions, which call it with the service role key.
+-- Through the API anyone could otherwise burn through (or probe) another user's rate limit.
+revoke execute on function public.hit_rate_limit(text, integer, integer) from public, anon, authenticated;
+grant execute on function public.hit_rate_limit(text, integer, integer) to service_role;
@@ -0,0 +1,153 @@
+/**
+ * Local mock of the AssemblyAI v2 transcript API, for testing the upload → transcription → webhook
+ * flow offline. Implements just what our edge functions use:
+ *   POST /v2/upload          - accepts a file and returns an upload_url for it
+ *   POST /v2/transcript      - queues a transcript and calls its webhook_url when "done"
+ *   GET  /v2/transcript/:id  - returns the transcript
+ *
+ * Run:  deno run --allow-net --allow-env supabase/mock/assemblyai.ts
+ * Then point the edge functions at it (supabase/functions/.env):
+ *   ASSEMBLYAI_API_URL=http://host.docker.internal:8787/v2/transcript
+ *   ASSEMBLYAI_API_KEY=mock
+ *   ASSEMBLYAI_WEBHOOK_SECRET=local-secret
+ *   ASSEMBLYAI_WEBHOOK_URL=http://127.0.0.1:54321/functions/v1/assemblyai-webhook
+ *
+ * Env: MOCK_PORT (default 8787), MOCK_DELAY_MS (default 3000) - how long a transcript "takes".
+ * Audio URLs containing "fail" finish with status 'error', to exercise retries.
+ */
+
+const PORT = Number(Deno.env.get('MOCK_PORT') || 8787);
+const DELAY_MS = Number(Deno.env.get('MOCK_DELAY_MS') || 3000);
+
+const SAMPLE_UTTERANCES = [
+  { speaker: 'A', text: 'Hi Naia, we love you so much and we are thinking of you every day.' },
+  { speaker: 'B', text: 'Happy birthday sweetheart, we cannot wait to see you again soon.' },
+];
+
+interface MockTranscript {
+  id: string;
+  status: 'queued' | 'processing' | 'completed' | 'error';
+  audio_url: string;
+  text: string | null;
+  words: any[] | null;
+  utterances: any[] | null;
+  language_code: string | null;
+  language_confidence: number | null;
+  confidence?: number;
+  error?: string;
+}
+
+const transcripts = new Map<string, MockTranscript>();
+
+/**
+ * Builds word and utterance timings (ms) from the sample script, ~400ms per word
+ */
+function buildSampleTranscript(speakersExpected: number) {
+  const utterances = SAMPLE_UTTERANCES.slice(0, Math.max(1, Math.min(speakersExpected || 1, SAMPLE_UTTERANCES.length)));
+  const words: any[] = [];
+  let time = 500;
+
+  const timedUtterances = utterances.map(utterance => {
+    const start = time;
+    utterance.text.split(' ').forEach(text => {
+      words.push({ text, start: time, end: time + 350, confidence: 0.95, speaker: utterance.speaker });
+      time += 400;
+    });
+    const end = time - 50;
+    time += 800; // Pause between speakers
+    return { ...utterance, start, end, confidence: 0.95 };
+  });
+
+  return {
+    text: utterances.map(utterance => utterance.text).join(' '),
+    words,
+    utterances: timedUtterances,
+  };
+}
+
+async function sendWebhook(transcript: MockTranscript, webhookUrl: string, headerName?: string, headerValue?: string) {
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(headerName && headerValue ? { [headerName]: headerValue } : {}),
+      },
+      body: JSON.stringify({ transcript_id: transcript.id, status: transcript.status }),
+    });
+    console.log(`📬 Webhook for ${transcript.id} (${transcript.status}) -> ${response.status}`);
+  } catch (error) {
+    console.error(`❌ Webhook for ${transcript.id} failed:`, error);
+  }
+}
+
+function json(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve({ port: PORT }, async (req: Request) => {
+  const url = new URL(req.url);
+
+  if (!req.headers.get('authorization')) {
+    return json({ error: 'Authentication error, API token missing/invalid' }, 401);
+  }
+
+  if (req.method === 'POST' && url.pathname === '/v2/upload') {
+    // The file itself isn't needed - transcripts are canned
+    await req.arrayBuffer();
+    return json({ upload_url: `http://localhost:${PORT}/uploads/${crypto.randomUUID()}` });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/v2/transcript') {
+    const body = await req.json();
+    if (!body.audio_url) {
+      return json({ error: 'audio_url is required' }, 400);
+    }
+
+    const transcript: MockTranscript = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      audio_url: body.audio_url,
+      text: null,
+      words: null,
+      utterances: null,
+      language_code: null,
+      language_confidence: null,
+    };
+    transcripts.set(transcript.id, transcript);
+    console.log(`🎤 Queued ${transcript.id} for ${body.audio_url}`);
+
+    setTimeout(() => { transcript.status = 'processing'; }, DELAY_MS / 3);
+    setTimeout(() => {
+      if (body.audio_url.includes('fail')) {
+        transcript.status = 'error';
+        transcript.error = 'Mock failure: audio could not be decoded';
+      } else {
+        Object.assign(transcript, buildSampleTranscript(body.speakers_expected), {
+          status: 'completed',
+          language_code: 'en',
+          language_confidence: 0.98,
+          confidence: 0.95,
+        });
+      }
+      if (body.webhook_url) {
+        sendWebhook(transcript, body.webhook_url, body.webhook_auth_header_name, body.webhook_auth_header_value);
+      }
+    }, DELAY_MS);
+
+    return json(transcript);
+  }
+
+  const match = url.pathname.match(/^\/v2\/transcript\/([^/]+)$/);
+  if (req.method === 'GET' && match) {
+    const transcript = transcripts.get(match[1]);
+    return transcript ? json(transcript) : json({ error: 'Transcript not found' }, 404);
+  }
+
+  return json({ error: 'Not found' }, 404);
+});
+
+console.log(`🧪 Mock AssemblyAI listening on http://localhost:${PORT}/v2/transcript`);
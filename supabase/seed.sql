@@ -0,0 +1,92 @@
+-- Sample content for a local stack (supabase start / supabase db reset). Media points at public
+-- sample files, since the local storage bucket starts out empty.
+
+insert into public.videos (id, url, thumbnail, title, description, timestamp, duration_string, duration_seconds, transcription, moderation_status)
+values
+  (
+    '00000000-0000-4000-8000-000000000001',
+    'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerJoyrides.mp4',
+    'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/ForBiggerJoyrides.jpg',
+    'Grandma''s Message',
+    'Who''s in the video: Grandma',
+    (extract(epoch from now()) * 1000)::bigint - 3 * 86400000,
+    '00:15',
+    15,
+    'Naia, we are so proud of you. Congratulations on your graduation!',
+    'approved'
+  ),
+  (
+    '00000000-0000-4000-8000-000000000002',
+    'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4',
+    'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/ForBiggerBlazes.jpg',
+    'Uncle Joe''s Message',
+    'Who''s in the video: Uncle Joe, Aunt May',
+    (extract(epoch from now()) * 1000)::bigint - 2 * 86400000,
+    '00:15',
+    15,
+    null,
+    'approved'
+  ),
+  (
+    '00000000-0000-4000-8000-000000000003',
+    'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerEscapes.mp4',
+    'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/ForBiggerEscapes.jpg',
+    'Coach Lee''s Message',
+    'Who''s in the video: Coach Lee',
+    (extract(epoch from now()) * 1000)::bigint - 86400000,
+    '00:15',
+    15,
+    null,
+    'pending'
+  )
+on conflict (id) do nothing;
+
+insert into public.articles (id, link, title, description, timestamp, posted_by, moderation_status)
+values
+  (
+    '00000000-0000-4000-8000-000000000101',
+    'https://en.wikipedia.org/wiki/Graduation',
+    'Graduation',
+    'A little history of the big day',
+    (extract(epoch from now()) * 1000)::bigint - 86400000,
+    'Grandma',
+    'approved'
+  )
+on conflict (id) do nothing;
+
+insert into public.images (id, url, title, description, timestamp, moderation_status)
+values
+  (
+    '00000000-0000-4000-8000-000000000201',
+    'https://picsum.photos/id/1025/800/600',
+    'Grandma''s Photo',
+    'Our first walk together',
+    (extract(epoch from now()) * 1000)::bigint - 2 * 86400000,
+    'approved'
+  ),
+  (
+    '00000000-0000-4000-8000-000000000202',
+    'https://picsum.photos/id/1062/800/1000',
+    'Uncle Joe''s Photo',
+    'Road trip, summer 2019',
+    (extract(epoch from now()) * 1000)::bigint - 86400000,
+    'approved'
+  )
+on conflict (id) do nothing;
+
+insert into public.events (id, title, description, date)
+values
+  ('00000000-0000-4000-8000-000000000301', 'Graduation Dinner', 'Celebrating Naia''s graduation', current_date + 7)
+on conflict (id) do nothing;
+
+insert into public.event_media (id, event_id, media_type, media_url, title, uploaded_by)
+values
+  (
+    '00000000-0000-4000-8000-000000000401',
+    '00000000-0000-4000-8000-000000000301',
+    'image',
+    'https://picsum.photos/id/1080/800/600',
+    'The cake',
+    'Grandma'
+  )
+on conflict (id) do nothing;
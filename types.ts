@@ -1,3 +1,18 @@
+export interface TranscriptWord {
+  text: string;
+  start: number; // Milliseconds from the start of the video
+  end: number; // Milliseconds from the start of the video
+  confidence?: number;
+  speaker?: string; // Diarization label (A, B, ...)
+}
+
+export interface TranscriptUtterance {
+  speaker: string; // Diarization label (A, B, ...)
+  text: string;
+  start: number; // Milliseconds
+  end: number; // Milliseconds
+}
+
 export interface VideoEntry {
   id: string;
   url: string; // Blob URL for local preview
@@ -7,6 +22,71 @@ export interface VideoEntry {
   timestamp: number;
   durationString: string;
   transcription?: string; // Transcribed text from the video
+  transcriptWords?: TranscriptWord[]; // Word-level timings for synced captions
+  transcriptUtterances?: TranscriptUtterance[]; // Speaker-attributed transcript
+  speakerNames?: Record<string, string>; // Maps speaker labels (A, B, ...) to real names
+  languageCode?: string; // Detected spoken language, e.g. 'en', 'es'
+  captionsVttUrl?: string; // WebVTT file for <track kind="captions">
+  captionsSrtUrl?: string; // SRT file for download
+  durationSeconds?: number;
+  width?: number; // Display size, i.e. after rotation is applied
+  height?: number;
+  videoCodec?: string; // e.g. 'h264', 'hevc', 'vp9'
+  rotation?: number; // Degrees the recording device rotated the picture (0, 90, 180, 270)
+  fileSize?: number; // Bytes
+  recordedAt?: string; // ISO date the video was recorded, from the file's own metadata
+  hlsUrl?: string; // Adaptive stream master playlist, once the worker has transcoded it
+  ownerId?: string; // Account that uploaded it (none for uploads from before sign-in existed)
+  moderationStatus?: ModerationStatus;
+  moderationReason?: string; // Why a moderator rejected it or asked for changes
+  tags?: Tag[]; // People, places and themes in the video
+  summary?: string; // One line on what the message is about
+  contentWarning?: string; // Shown before playing, e.g. "Talks about Grandpa's illness"
+}
+
+// Media details probed from a video file (in the browser on upload, or by the ffmpeg worker)
+export type VideoMetadata = Pick<VideoEntry, 'durationSeconds' | 'width' | 'height' | 'videoCodec' | 'rotation' | 'fileSize' | 'recordedAt'>;
+
+// Presets for re-encoding a video in the browser before upload (utils/videoOptimizer.ts)
+export type VideoOptimizeQuality = 'high' | 'balanced' | 'small';
+
+// Tables whose rows can be sent through the process-video pipeline
+export type ProcessingTarget = 'videos' | 'event_media' | 'voice_messages';
+
+export type ProcessingJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+// 'transcription' runs in the process-video edge function, the rest in the ffmpeg worker
+export type ProcessingJobType = 'transcription' | 'thumbnail' | 'metadata' | 'hls' | 'enrichment' | 'screening';
+
+// A row in the processing_jobs queue - the latest one per video drives its status badge
+export interface ProcessingJob {
+  id: string;
+  target: ProcessingTarget;
+  jobType: ProcessingJobType;
+  videoId: string;
+  status: ProcessingJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  nextAttemptAt: string; // When a queued job will be (re)tried
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Unified result returned by every transcription provider
+export interface TranscriptionResult {
+  text: string;
+  words: TranscriptWord[];
+  utterances: TranscriptUtterance[];
+  languageCode: string | null;
+  languageConfidence: number | null;
+  confidence: number | null; // Overall transcript confidence, 0-1
+}
+
+export interface TranscriptTranslation {
+  languageCode: string; // Language the transcript was translated into
+  text: string;
+  segments: TranscriptUtterance[]; // Translated utterances, keeping the original timings
 }
 
 export interface ArticleEntry {
@@ -16,6 +96,10 @@ export interface ArticleEntry {
   description: string;
   timestamp: number;
   posted_by?: string;
+  owner_id?: string;
+  moderation_status?: ModerationStatus;
+  moderation_reason?: string;
+  tags?: Tag[];
 }
 
 export interface ImageEntry {
@@ -24,11 +108,74 @@ export interface ImageEntry {
   title: string;
   description: string;
   timestamp: number;
+  owner_id?: string;
+  moderation_status?: ModerationStatus;
+  moderation_reason?: string;
+  tags?: Tag[];
 }
 
-export interface VideoAnalysisResult {
+// An audio-only message, recorded in the browser and transcribed like a video
+export interface VoiceEntry {
+  id: string;
+  url: string;
   title: string;
   description: string;
+  personName: string; // Who's speaking
+  speakerPhotoUrl?: string; // Their profile photo when they recorded it
+  timestamp: number;
+  durationSeconds?: number;
+  waveform: number[]; // Peak levels (0-1), computed when it was recorded
+  transcription?: string;
+  transcriptWords?: TranscriptWord[]; // Word-level timings for live captions
+  speakerNames?: Record<string, string>;
+  languageCode?: string;
+  captionsVttUrl?: string;
+  ownerId?: string;
+  moderationStatus?: ModerationStatus;
+  moderationReason?: string;
+}
+
+// New submissions wait in 'pending' until a moderator reviews them; only 'approved' reaches the feed
+export type ModerationStatus = 'pending' | 'approved' | 'rejected' | 'changes_requested';
+
+export type ModerationDecision = Exclude<ModerationStatus, 'pending'>;
+
+// Tables that go through the moderation queue
+export type ModerationTarget = 'videos' | 'articles' | 'images' | 'voice_messages' | 'events' | 'event_media';
+
+export type SafetyCategory = 'profanity' | 'distressing' | 'personal_data';
+
+// Result of the automated safety screening (row in safety_verdicts)
+export interface SafetyVerdict {
+  classifier: 'gemini' | 'keywords';
+  flagged: boolean;
+  categories: SafetyCategory[];
+  scores: Record<SafetyCategory, number>; // 0-1
+  reason?: string;
+  createdAt: string;
+}
+
+// A submission waiting in the moderation queue
+export type ModerationItem = (
+  | { target: 'videos'; entry: VideoEntry }
+  | { target: 'articles'; entry: ArticleEntry }
+  | { target: 'images'; entry: ImageEntry }
+  | { target: 'voice_messages'; entry: VoiceEntry }
+  | { target: 'events'; entry: EventEntry }
+  | { target: 'event_media'; entry: EventMediaEntry }
+) & {
+  verdict?: SafetyVerdict; // Latest screening result - explains why it wasn't approved automatically
+};
+
+// viewer < contributor < moderator < admin (app_role enum in the database)
+export type UserRole = 'viewer' | 'contributor' | 'moderator' | 'admin';
+
+// Public profile of a signed-in contributor (row in profiles, one per auth user)
+export interface Profile {
+  id: string; // Same as the auth user ID
+  displayName: string;
+  avatarUrl?: string;
+  role: UserRole;
 }
 
 export interface EventMediaEntry {
@@ -40,6 +187,22 @@ export interface EventMediaEntry {
   title?: string;
   description?: string;
   uploaded_by?: string;
+  transcription?: string;
+  language_code?: string;
+  captions_vtt_url?: string;
+  captions_srt_url?: string;
+  duration_seconds?: number;
+  width?: number;
+  height?: number;
+  video_codec?: string;
+  rotation?: number;
+  file_size?: number;
+  recorded_at?: string;
+  hls_url?: string;
+  owner_id?: string;
+  moderation_status?: ModerationStatus;
+  moderation_reason?: string;
+  tags?: Tag[];
   created_at: string;
 }
 
@@ -50,5 +213,108 @@ export interface EventEntry {
   date: string; // ISO date string
   created_at: string;
   updated_at: string;
+  owner_id?: string;
+  moderation_status?: ModerationStatus;
+  moderation_reason?: string;
   media?: EventMediaEntry[]; // Optional array of media items
 }
+
+export type TagKind = 'person' | 'place' | 'theme';
+
+// A person, place or theme linked to memories - the same tag is shared by everything it's on
+export interface Tag {
+  id: string;
+  kind: TagKind;
+  name: string;
+  suggested?: boolean; // Guessed from the description by the backfill and not confirmed yet
+}
+
+// A tag picked in a form, which may not exist in the database yet
+export type TagDraft = Pick<Tag, 'kind' | 'name'>;
+
+// Tables whose rows can be tagged
+export type TagTarget = 'videos' | 'articles' | 'images' | 'event_media';
+
+export type VideoSuggestionStatus = 'pending' | 'accepted' | 'dismissed';
+
+// What the enrichment job proposed for a video from its transcript and frames, awaiting the uploader
+export interface VideoSuggestion {
+  videoId: string;
+  title?: string;
+  summary?: string;
+  contentWarning?: string;
+  people: string[];
+  themes: string[];
+  model: string; // e.g. 'gemini', 'mock'
+  status: VideoSuggestionStatus;
+}
+
+// The feed as last loaded, kept in IndexedDB so Naia's View opens without a connection
+export interface OfflineFeed {
+  videos: VideoEntry[];
+  images: ImageEntry[];
+  events: EventEntry[];
+  savedAt: number; // Unix ms
+}
+
+// Why a storage upload failed, so the UI can say what to do about it
+export type UploadErrorKind = 'size_limit' | 'auth' | 'network' | 'cancelled' | 'unknown';
+
+// Outcome of uploading a file to storage
+export type StorageUploadResult =
+  | { url: string }
+  | { error: UploadErrorKind; message: string };
+
+export type UploadKind = 'video' | 'image' | 'voice';
+
+// uploading -> saving (database row, tags, screening) -> processing (videos and voice messages) is the happy path
+export type UploadStatus = 'queued' | 'uploading' | 'saving' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+// What the uploader filled in before the upload started
+export interface UploadDetails {
+  personName: string;
+  title?: string; // Defaults to "<personName>'s Message"
+  description: string;
+  speakers: string[]; // Names in speaking order, videos only
+  tags: TagDraft[];
+  waveform?: number[]; // Voice messages only, drawn from the recording
+  durationSeconds?: number; // Voice messages only - browser recordings don't always say how long they are
+  speakerPhotoUrl?: string; // Voice messages only
+}
+
+// A file in the upload queue, kept in IndexedDB until it's saved so it survives reloads
+export interface UploadTask {
+  id: string; // Also the ID of the video, image or voice message it becomes
+  kind: UploadKind;
+  batchId?: string; // Shared by files picked together, for the end-of-batch summary
+  file: File;
+  details: UploadDetails;
+  status: UploadStatus;
+  progress: number; // 0-100, of the bytes sent to storage
+  storageUrl?: string; // Set once the file is in storage, so a resumed task skips the upload
+  moderationStatus?: ModerationStatus; // Once saved: 'approved' if screening passed it straight into the feed
+  error?: string; // Shown in the tray
+  errorKind?: UploadErrorKind; // Set when the upload to storage failed
+  createdAt: number; // Unix ms
+  updatedAt: number; // Unix ms
+}
+
+// What a finished upload became, so the feed and processing badges can pick it up
+export type SavedUpload =
+  | { kind: 'video'; entry: VideoEntry; job: ProcessingJob | null }
+  | { kind: 'image'; entry: ImageEntry }
+  | { kind: 'voice'; entry: VoiceEntry; job: ProcessingJob | null };
+
+// What a search result links to - table names, like ModerationTarget
+export type SearchResultType = 'videos' | 'articles' | 'images' | 'events';
+
+export type SearchMode = 'text' | 'semantic';
+
+// A row from search_content (full-text) or the semantic-search function
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  snippet: string; // Full-text matches are wrapped in [[ ]]
+  rank: number; // Text rank or cosine similarity - only comparable within one search
+}
@@ -128,7 +128,36 @@ export async function extractAudioAsBase64(videoFile: File): Promise<string> {
   });
 }
 
-
-
-
-
+/**
+ * Peak levels of an audio recording, for drawing its waveform. Each bar is the loudest sample in
+ * its slice of the recording, scaled so the loudest bar is 1.
+ * @param bars - How many levels to return
+ * @returns Levels from 0 to 1, or an empty list if the audio couldn't be decoded
+ */
+export async function computeWaveform(audio: Blob, bars: number = 64): Promise<number[]> {
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const buffer = await audioContext.decodeAudioData(await audio.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const sliceSize = Math.max(1, Math.floor(samples.length / bars));
+
+    const peaks: number[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+      let peak = 0;
+      const end = Math.min(samples.length, (bar + 1) * sliceSize);
+      for (let i = bar * sliceSize; i < end; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      peaks.push(peak);
+    }
+
+    const loudest = Math.max(...peaks);
+    // Two decimals is plenty for drawing and keeps the stored row small
+    return peaks.map(peak => (loudest > 0 ? Math.round((peak / loudest) * 100) / 100 : 0));
+  } catch (error) {
+    console.error('Error computing waveform:', error);
+    return [];
+  } finally {
+    audioContext.close();
+  }
+}
@@ -0,0 +1,82 @@
+import { TranscriptWord } from '../types';
+
+export interface CaptionCue {
+  start: number; // Milliseconds
+  end: number; // Milliseconds
+  speaker?: string; // Diarization label (A, B, ...)
+  words: TranscriptWord[];
+}
+
+/**
+ * Diarization labels are assigned in order of first appearance: A, B, C...
+ */
+export const speakerLabelForIndex = (index: number): string => String.fromCharCode(65 + index);
+
+/**
+ * Builds the speaker label -> name map from names listed in speaking order
+ */
+export const buildSpeakerNames = (names: string[]): Record<string, string> => {
+  const speakerNames: Record<string, string> = {};
+  names
+    .map(name => name.trim())
+    .filter(Boolean)
+    .forEach((name, index) => {
+      speakerNames[speakerLabelForIndex(index)] = name;
+    });
+  return speakerNames;
+};
+
+export const getSpeakerName = (speaker: string, speakerNames?: Record<string, string>): string =>
+  speakerNames?.[speaker] || `Speaker ${speaker}`;
+
+/**
+ * Groups word-level timings into short caption cues that fit on one or two lines.
+ * A new cue starts when the speaker changes, the current one gets too long,
+ * it runs past the max duration, or when there is a noticeable pause between words.
+ */
+export const buildCaptionCues = (
+  words: TranscriptWord[],
+  maxChars: number = 42,
+  maxDurationMs: number = 4000,
+  maxGapMs: number = 1200
+): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  let current: CaptionCue | null = null;
+  let currentChars = 0;
+
+  for (const word of words) {
+    const startsNewCue =
+      !current ||
+      current.speaker !== word.speaker ||
+      currentChars + word.text.length + 1 > maxChars ||
+      word.end - current.start > maxDurationMs ||
+      word.start - current.end > maxGapMs;
+
+    if (startsNewCue) {
+      current = { start: word.start, end: word.end, speaker: word.speaker, words: [word] };
+      currentChars = word.text.length;
+      cues.push(current);
+    } else if (current) {
+      current.words.push(word);
+      current.end = word.end;
+      currentChars += word.text.length + 1;
+    }
+  }
+
+  return cues;
+};
+
+/**
+ * Finds the cue that should be on screen at the given playback time (in milliseconds).
+ * Cues linger briefly after their last word so short pauses don't cause flicker.
+ */
+export const findActiveCue = (cues: CaptionCue[], timeMs: number, lingerMs: number = 600): CaptionCue | null => {
+  for (let i = 0; i < cues.length; i++) {
+    const cue = cues[i];
+    const nextStart = i + 1 < cues.length ? cues[i + 1].start : Infinity;
+    if (timeMs >= cue.start && timeMs < Math.min(cue.end + lingerMs, nextStart)) {
+      return cue;
+    }
+  }
+  return null;
+};
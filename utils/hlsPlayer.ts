@@ -0,0 +1,56 @@
+import Hls from 'hls.js';
+
+// hls.js instances by the <video> they're attached to, so they can be torn down later
+const players = new WeakMap<HTMLVideoElement, Hls>();
+
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl';
+
+/**
+ * Points a <video> at the adaptive HLS stream when there is one, otherwise at the original file.
+ * Safari (and iOS) play HLS natively; elsewhere hls.js feeds it through Media Source Extensions.
+ * If the stream fails to load, playback falls back to the original URL.
+ * @param hlsUrl - Master playlist from the transcoding worker (undefined while it's pending)
+ */
+export const setVideoSource = (videoElement: HTMLVideoElement, originalUrl: string, hlsUrl?: string): void => {
+  releaseVideoSource(videoElement);
+
+  if (!hlsUrl) {
+    videoElement.src = originalUrl;
+    return;
+  }
+
+  if (videoElement.canPlayType(HLS_MIME_TYPE)) {
+    videoElement.src = hlsUrl;
+    return;
+  }
+
+  if (!Hls.isSupported()) {
+    videoElement.src = originalUrl;
+    return;
+  }
+
+  const hls = new Hls({
+    capLevelToPlayerSize: true, // Don't fetch 1080p for a phone-sized player
+    maxBufferLength: 20, // Seconds - keeps preloaded feed items from hogging bandwidth
+  });
+  hls.on(Hls.Events.ERROR, (_event, data) => {
+    if (!data.fatal) return;
+    console.warn('HLS playback failed, falling back to the original video:', data.details);
+    releaseVideoSource(videoElement);
+    videoElement.src = originalUrl;
+  });
+  hls.loadSource(hlsUrl);
+  hls.attachMedia(videoElement);
+  players.set(videoElement, hls);
+};
+
+/**
+ * Stops any hls.js instance attached to the element (call before it unmounts)
+ */
+export const releaseVideoSource = (videoElement: HTMLVideoElement): void => {
+  const hls = players.get(videoElement);
+  if (hls) {
+    hls.destroy();
+    players.delete(videoElement);
+  }
+};
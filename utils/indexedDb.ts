@@ -0,0 +1,38 @@
+export type IdbRequest = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+) => Promise<T>;
+
+/**
+ * Sets up an IndexedDB database, opened on first use and kept open for the page
+ * @param upgrade - Creates the object stores when the database is new or its version goes up
+ * @returns A function that runs one request in its own transaction
+ */
+export function createIdbDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void): IdbRequest {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  return async (storeName, mode, makeRequest) => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+}
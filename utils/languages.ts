@@ -0,0 +1,43 @@
+export interface LanguageOption {
+  code: string;
+  name: string;
+}
+
+// Languages offered in the transcript language switcher
+export const TRANSCRIPT_LANGUAGES: LanguageOption[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'tl', name: 'Tagalog' },
+  { code: 'vi', name: 'Vietnamese' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'ru', name: 'Russian' },
+];
+
+/**
+ * Normalizes provider language codes (e.g. 'en_us', 'pt-BR') to their base language ('en', 'pt')
+ */
+export const baseLanguageCode = (code: string): string => code.split(/[-_]/)[0].toLowerCase();
+
+/**
+ * Returns a human readable name for a language code, e.g. 'es' -> 'Spanish'
+ */
+export const getLanguageName = (code: string): string => {
+  const base = baseLanguageCode(code);
+  const known = TRANSCRIPT_LANGUAGES.find(language => language.code === base);
+  if (known) return known.name;
+
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(base) || code;
+  } catch {
+    return code;
+  }
+};
@@ -0,0 +1,19 @@
+import { Profile, UserRole } from '../types';
+
+// Same order as the app_role enum in the database - later roles include the earlier ones
+const ROLE_ORDER: UserRole[] = ['viewer', 'contributor', 'moderator', 'admin'];
+
+/**
+ * Whether the user has at least the given role (signed-out visitors have none)
+ */
+export const hasRole = (profile: Profile | null, minimum: UserRole): boolean =>
+  !!profile && ROLE_ORDER.indexOf(profile.role) >= ROLE_ORDER.indexOf(minimum);
+
+export const canContribute = (profile: Profile | null): boolean => hasRole(profile, 'contributor');
+
+/**
+ * Whether the user may edit or delete a row - their own uploads, or anything for moderators.
+ * Mirrors the can_manage() RLS check, so hidden controls match what the database allows.
+ */
+export const canManage = (profile: Profile | null, ownerId?: string): boolean =>
+  !!profile && ((!!ownerId && ownerId === profile.id) || hasRole(profile, 'moderator'));
@@ -0,0 +1,71 @@
+// Recordings longer than this stop by themselves - long enough for a message, short enough to upload
+export const MAX_VIDEO_RECORDING_SECONDS = 5 * 60;
+
+// Voice notes are meant to be short
+export const MAX_VOICE_RECORDING_SECONDS = 3 * 60;
+
+export const RECORDING_COUNTDOWN_SECONDS = 3;
+
+// Safari only records MP4; Chrome and Firefox record WebM. First one the browser supports wins.
+const VIDEO_RECORDING_TYPES = [
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+// Opus in WebM keeps voice notes small; Safari falls back to MP4 (AAC)
+const AUDIO_RECORDING_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/mp4',
+  'audio/ogg;codecs=opus',
+];
+
+const pickRecordingType = (candidates: string[]): string | undefined => {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return candidates.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+/**
+ * The best container/codec this browser's MediaRecorder can write, or undefined to let it choose
+ */
+export const pickVideoRecordingType = (): string | undefined => pickRecordingType(VIDEO_RECORDING_TYPES);
+
+export const pickAudioRecordingType = (): string | undefined => pickRecordingType(AUDIO_RECORDING_TYPES);
+
+/**
+ * Turns recorded chunks into a File that uploads like a picked one, e.g.
+ * "Recorded message 2026-10-19 14.05.webm"
+ */
+export const recordingToFile = (chunks: Blob[], mimeType: string, label: string): File => {
+  const type = mimeType.split(';')[0];
+  const extension = type.split('/')[1] || 'webm';
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ${pad(now.getHours())}.${pad(now.getMinutes())}`;
+  return new File(chunks, `${label} ${stamp}.${extension}`, { type, lastModified: now.getTime() });
+};
+
+/**
+ * What to tell someone when the browser won't hand over the camera or microphone
+ */
+export const describeMediaAccessError = (error: unknown): string => {
+  const name = error instanceof DOMException ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'Access was blocked. Allow the camera and microphone for this site in your browser settings, then try again.';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'No camera or microphone was found on this device.';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'The camera or microphone is being used by another app. Close it and try again.';
+    default:
+      return typeof navigator !== 'undefined' && !navigator.mediaDevices?.getUserMedia
+        ? 'Recording needs a secure (https) connection and a browser that supports it.'
+        : 'Could not start recording on this device.';
+  }
+};
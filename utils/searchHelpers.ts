@@ -0,0 +1,51 @@
+import { TranscriptWord } from '../types';
+
+export interface SnippetPart {
+  text: string;
+  isMatch: boolean;
+}
+
+const MATCH_MARKER = /\[\[(.*?)\]\]/g;
+
+/**
+ * Splits a search snippet into plain and matched parts, so matches can be highlighted without
+ * rendering the snippet as HTML
+ */
+export const parseSnippet = (snippet: string): SnippetPart[] => {
+  const parts: SnippetPart[] = [];
+  let lastIndex = 0;
+  for (const match of snippet.matchAll(MATCH_MARKER)) {
+    if (match.index > lastIndex) {
+      parts.push({ text: snippet.slice(lastIndex, match.index), isMatch: false });
+    }
+    parts.push({ text: match[1], isMatch: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < snippet.length) {
+    parts.push({ text: snippet.slice(lastIndex), isMatch: false });
+  }
+  return parts;
+};
+
+// Lowercase letters and digits only, so "Proud," matches "proud"
+const normalizeWord = (word: string): string => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Finds where a search hit is spoken in a video. The snippet's marked words are the exact words
+ * Postgres matched (after stemming), so they're looked up in the word-level transcript.
+ * @returns Seconds into the video of the first matched word, or null if the hit isn't in the transcript
+ */
+export const findTranscriptMatchTime = (words: TranscriptWord[] | undefined, snippet: string): number | null => {
+  if (!words?.length) return null;
+
+  const matchedWords = new Set(
+    parseSnippet(snippet)
+      .filter(part => part.isMatch)
+      .map(part => normalizeWord(part.text))
+      .filter(Boolean)
+  );
+  if (matchedWords.size === 0) return null;
+
+  const word = words.find(transcriptWord => matchedWords.has(normalizeWord(transcriptWord.text)));
+  return word ? word.start / 1000 : null;
+};
@@ -0,0 +1,13 @@
+/**
+ * Registers public/sw.js, which keeps the app shell and saved media available offline.
+ * Skipped in development so Vite's module reloading isn't served from a cache.
+ */
+export const registerServiceWorker = (): void => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+};
@@ -0,0 +1,44 @@
+import { UserRound, MapPin, Hash } from 'lucide-react';
+import { EventEntry, Tag, TagDraft, TagKind } from '../types';
+
+export const TAG_KINDS: { kind: TagKind; label: string; pluralLabel: string; icon: typeof UserRound }[] = [
+  { kind: 'person', label: 'Person', pluralLabel: 'People', icon: UserRound },
+  { kind: 'place', label: 'Place', pluralLabel: 'Places', icon: MapPin },
+  { kind: 'theme', label: 'Theme', pluralLabel: 'Themes', icon: Hash },
+];
+
+export const getTagIcon = (kind: TagKind) => TAG_KINDS.find(option => option.kind === kind)!.icon;
+
+/**
+ * Tags match case-insensitively within a kind, like the tags table's unique (kind, slug)
+ */
+export const isSameTag = (a: TagDraft, b: TagDraft): boolean =>
+  a.kind === b.kind && a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+
+const byKindThenName = (a: Tag, b: Tag): number =>
+  TAG_KINDS.findIndex(option => option.kind === a.kind) - TAG_KINDS.findIndex(option => option.kind === b.kind) ||
+  a.name.localeCompare(b.name);
+
+/**
+ * Every tag used by the given items, once each - people first, then places and themes
+ */
+export const collectTags = (items: { tags?: Tag[] }[]): Tag[] => {
+  const tagsById = new Map<string, Tag>();
+  items.forEach(item => item.tags?.forEach(tag => {
+    if (!tagsById.has(tag.id)) tagsById.set(tag.id, { ...tag, suggested: undefined });
+  }));
+  return [...tagsById.values()].sort(byKindThenName);
+};
+
+export const hasTag = (item: { tags?: Tag[] }, tagId: string | null): boolean =>
+  !tagId || !!item.tags?.some(tag => tag.id === tagId);
+
+/**
+ * Narrows events to the media carrying a tag, dropping events left with none
+ */
+export const filterEventsByTag = (events: EventEntry[], tagId: string | null): EventEntry[] => {
+  if (!tagId) return events;
+  return events
+    .map(event => ({ ...event, media: event.media?.filter(media => hasTag(media, tagId)) }))
+    .filter(event => event.media && event.media.length > 0);
+};
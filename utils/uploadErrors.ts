@@ -0,0 +1,19 @@
+import { UploadErrorKind } from '../types';
+
+/**
+ * What to tell the uploader when a file couldn't be uploaded
+ */
+export const describeUploadError = (kind: UploadErrorKind, message?: string): string => {
+  switch (kind) {
+    case 'size_limit':
+      return 'Too large for storage - an admin can raise the global file size limit in the Supabase dashboard (Storage → Settings)';
+    case 'auth':
+      return 'Not signed in, or the session expired - sign in again and retry';
+    case 'network':
+      return 'The connection dropped - try again once you are back online';
+    case 'cancelled':
+      return 'Cancelled';
+    default:
+      return message ? `Upload failed: ${message}` : 'Upload failed';
+  }
+};
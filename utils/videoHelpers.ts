@@ -1,3 +1,5 @@
+import { VideoEntry, VideoMetadata } from '../types';
+
 /**
  * Extracts a frame from a video file at a specific time (default 1s).
  * Returns the frame as a Data URL (base64).
@@ -72,171 +74,79 @@ export const formatDuration = (seconds: number): string => {
 };
 
 /**
- * Fast video compression - aggressively reduces size for quick uploads
- * Uses lower resolution, bitrate, and frame rate for speed
+ * Reads duration and display size from a video file's metadata, without decoding any frames.
+ * Codec, rotation and the real recording date aren't exposed to the browser - the ffmpeg
+ * worker fills those in after upload. Resolves with whatever could be read (never rejects).
  */
-export const compressVideo = async (
-  videoFile: File,
-  maxSizeMB: number = 45,
-  onProgress?: (progress: number) => void
-): Promise<File> => {
-  return new Promise((resolve, reject) => {
-    const fileSizeMB = videoFile.size / (1024 * 1024);
-    
-    // If file is already small enough, return as-is
-    if (fileSizeMB <= maxSizeMB) {
-      onProgress?.(100);
-      resolve(videoFile);
-      return;
-    }
-
+export const probeVideoMetadata = async (videoFile: File): Promise<VideoMetadata> => {
+  const metadata: VideoMetadata = {
+    fileSize: videoFile.size,
+    // Phones usually keep the capture time as the file's modified time; the worker replaces it
+    // with the container's creation_time when there is one
+    recordedAt: videoFile.lastModified ? new Date(videoFile.lastModified).toISOString() : undefined,
+  };
+
+  return new Promise((resolve) => {
     const video = document.createElement('video');
-    video.preload = 'auto';
+    video.preload = 'metadata';
     video.muted = true;
-    video.playsInline = true;
-    video.playsInline = true;
-    
-    const fileURL = URL.createObjectURL(videoFile);
-    video.src = fileURL;
 
-    video.onloadedmetadata = () => {
-      onProgress?.(5);
-      
-      const duration = video.duration;
-      const targetSizeBytes = maxSizeMB * 1024 * 1024;
-      
-      // Ultra-aggressive compression for maximum speed
-      // Lower resolution significantly
-      let width = video.videoWidth;
-      let height = video.videoHeight;
-      const maxDimension = 640; // Very low resolution for fastest compression
-      
-      if (width > maxDimension || height > maxDimension) {
-        const scale = maxDimension / Math.max(width, height);
-        width = Math.floor(width * scale);
-        height = Math.floor(height * scale);
-      }
+    const fileURL = URL.createObjectURL(videoFile);
 
-      // Calculate ultra-aggressive bitrate (lower = faster, smaller)
-      const targetBitrate = Math.max((targetSizeBytes * 8) / duration, 200000); // Min 200kbps (very low)
-      const maxBitrate = 1000000; // Max 1 Mbps (very low for speed)
-
-      const canvas = document.createElement('canvas');
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d', { willReadFrequently: false });
-      
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        URL.revokeObjectURL(fileURL);
-        return;
-      }
+    const finish = () => {
+      clearTimeout(timeout);
+      URL.revokeObjectURL(fileURL);
+      video.remove();
+      resolve(metadata);
+    };
+    const timeout = setTimeout(finish, 10000);
 
-      // Use fastest available codec (usually VP8 is faster than VP9)
-      const codecs = [
-        'video/webm;codecs=vp8', // VP8 is faster than VP9
-        'video/webm',
-        'video/webm;codecs=vp9',
-      ];
-
-      let selectedMimeType = '';
-      for (const codec of codecs) {
-        if (MediaRecorder.isTypeSupported(codec)) {
-          selectedMimeType = codec;
-          break;
-        }
+    video.onloadedmetadata = () => {
+      if (Number.isFinite(video.duration)) {
+        metadata.durationSeconds = video.duration;
       }
-
-      if (!selectedMimeType) {
-        reject(new Error('No supported video codec found'));
-        URL.revokeObjectURL(fileURL);
-        return;
+      // Browsers apply the rotation flag, so these are the upright dimensions
+      if (video.videoWidth && video.videoHeight) {
+        metadata.width = video.videoWidth;
+        metadata.height = video.videoHeight;
       }
+      finish();
+    };
+    video.onerror = finish;
+    video.src = fileURL;
+  });
+};
 
-      // Lower frame rate for fastest processing (20fps for speed)
-      const frameRate = 20;
-      const stream = canvas.captureStream(frameRate);
-      
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: selectedMimeType,
-        videoBitsPerSecond: Math.min(targetBitrate, maxBitrate),
-      });
-
-      const chunks: Blob[] = [];
-      let frameCount = 0;
-      const totalFrames = Math.ceil(duration * frameRate);
-      
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          chunks.push(event.data);
-          frameCount += 1;
-          const progress = 10 + (frameCount / totalFrames) * 85;
-          onProgress?.(Math.min(progress, 95));
-        }
-      };
-
-      mediaRecorder.onstop = () => {
-        const compressedBlob = new Blob(chunks, { type: selectedMimeType });
-        const compressedFile = new File(
-          [compressedBlob],
-          videoFile.name.replace(/\.[^/.]+$/, '.webm'),
-          { type: selectedMimeType }
-        );
-        
-        const compressedSizeMB = compressedFile.size / (1024 * 1024);
-        console.log(`Fast compression: ${fileSizeMB.toFixed(2)} MB → ${compressedSizeMB.toFixed(2)} MB`);
-        
-        URL.revokeObjectURL(fileURL);
-        video.remove();
-        canvas.remove();
-        onProgress?.(100);
-        resolve(compressedFile);
-      };
-
-      mediaRecorder.onerror = () => {
-        reject(new Error('MediaRecorder error'));
-        URL.revokeObjectURL(fileURL);
-        video.remove();
-        canvas.remove();
-      };
-
-      // Start recording immediately
-      video.currentTime = 0;
-      mediaRecorder.start();
-      video.play();
-      onProgress?.(10);
-
-      // Faster frame drawing - skip frames if needed for speed
-      let lastFrameTime = 0;
-      const frameInterval = 1000 / frameRate; // ms per frame
-      
-      const drawFrame = (timestamp: number) => {
-        if (video.ended || video.paused) {
-          mediaRecorder.stop();
-          return;
-        }
-
-        // Only draw if enough time has passed (respect frame rate)
-        if (timestamp - lastFrameTime >= frameInterval) {
-          ctx.drawImage(video, 0, 0, width, height);
-          lastFrameTime = timestamp;
-        }
-
-        requestAnimationFrame(drawFrame);
-      };
-
-      video.onplay = () => {
-        requestAnimationFrame(drawFrame);
-      };
+/**
+ * Human readable file size, e.g. "48.2 MB"
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size.toFixed(size < 10 ? 1 : 0)} ${units[unit]}`;
+};
 
-      video.onended = () => {
-        mediaRecorder.stop();
-      };
-    };
+/**
+ * Short resolution label: "1080p" for common sizes, "1280×720" otherwise
+ */
+export const formatResolution = (width: number, height: number): string => {
+  const shortSide = Math.min(width, height);
+  if ([480, 720, 1080, 1440, 2160].includes(shortSide)) {
+    return shortSide === 2160 ? '4K' : `${shortSide}p`;
+  }
+  return `${width}×${height}`;
+};
 
-    video.onerror = () => {
-      reject(new Error('Error loading video'));
-      URL.revokeObjectURL(fileURL);
-    };
-  });
+/**
+ * Duration label for a video - the probed length when known, otherwise the stored string
+ */
+export const getDurationLabel = (video: VideoEntry): string => {
+  if (video.durationSeconds !== undefined) return formatDuration(video.durationSeconds);
+  return video.durationString && video.durationString !== '00:00' ? video.durationString : '';
 };
@@ -0,0 +1,111 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+import { VideoOptimizeQuality } from '../types';
+
+// The ffmpeg core (~30 MB of WebAssembly) ships with the app and is only downloaded the first
+// time someone optimizes a video. Set VITE_FFMPEG_CORE_URL to load it from a CDN instead.
+const FFMPEG_CORE_URL: string | undefined = import.meta.env.VITE_FFMPEG_CORE_URL;
+
+// ffmpeg.wasm works in memory, which browsers cap at a couple of GB for the input and output together
+export const MAX_OPTIMIZE_BYTES = 1024 * 1024 * 1024;
+
+export const DEFAULT_OPTIMIZE_QUALITY: VideoOptimizeQuality = 'balanced';
+
+interface QualityPreset {
+  label: string;
+  shortSide: number; // Pixels - the long side follows the aspect ratio
+  crf: number; // x264 constant rate factor: lower is better quality and bigger
+  audioBitrate: string;
+}
+
+export const OPTIMIZE_PRESETS: Record<VideoOptimizeQuality, QualityPreset> = {
+  high: { label: 'High (1080p)', shortSide: 1080, crf: 23, audioBitrate: '128k' },
+  balanced: { label: 'Balanced (720p)', shortSide: 720, crf: 26, audioBitrate: '128k' },
+  small: { label: 'Small (480p)', shortSide: 480, crf: 30, audioBitrate: '96k' },
+};
+
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+
+function loadFfmpeg(): Promise<FFmpeg> {
+  if (!ffmpegPromise) {
+    ffmpegPromise = (async () => {
+      const ffmpeg = new FFmpeg();
+      // Blob URLs get around a CDN core being on another origin
+      await ffmpeg.load(FFMPEG_CORE_URL
+        ? {
+          coreURL: await toBlobURL(`${FFMPEG_CORE_URL}/ffmpeg-core.js`, 'text/javascript'),
+          wasmURL: await toBlobURL(`${FFMPEG_CORE_URL}/ffmpeg-core.wasm`, 'application/wasm'),
+        }
+        : { coreURL, wasmURL });
+      return ffmpeg;
+    })();
+    ffmpegPromise.catch(() => {
+      ffmpegPromise = null;
+    });
+  }
+  return ffmpegPromise;
+}
+
+/**
+ * Re-encodes a video to H.264/AAC MP4 at the given quality before upload. The picture keeps its
+ * aspect ratio and is never scaled up; ffmpeg applies the rotation flag while decoding, so
+ * portrait phone videos stay upright. Audio is kept, and so are the file's date and the
+ * container metadata (recording time) that the upload reads.
+ * @param onProgress - 0-100
+ * @param signal - Stops the encode; the optimizer is reloaded the next time it's needed
+ * @returns The optimized file, named like the original with an .mp4 extension
+ */
+export const optimizeVideo = async (
+  videoFile: File,
+  quality: VideoOptimizeQuality = DEFAULT_OPTIMIZE_QUALITY,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<File> => {
+  const { shortSide, crf, audioBitrate } = OPTIMIZE_PRESETS[quality];
+  const ffmpeg = await loadFfmpeg();
+
+  const inputName = `input.${videoFile.name.split('.').pop() || 'mp4'}`;
+  const outputName = 'output.mp4';
+  const handleProgress = ({ progress }: { progress: number }) => {
+    onProgress?.(Math.max(0, Math.min(100, progress * 100)));
+  };
+  const handleAbort = () => {
+    // Killing the worker is the only way to stop an encode
+    ffmpeg.terminate();
+    ffmpegPromise = null;
+  };
+
+  ffmpeg.on('progress', handleProgress);
+  signal?.addEventListener('abort', handleAbort);
+  try {
+    await ffmpeg.writeFile(inputName, await fetchFile(videoFile));
+    const exitCode = await ffmpeg.exec([
+      '-i', inputName,
+      // Limit the short side, landscape or portrait, and keep both sides even as x264 needs
+      '-vf', `scale='if(gt(iw,ih),-2,trunc(min(iw,${shortSide})/2)*2)':'if(gt(iw,ih),trunc(min(ih,${shortSide})/2)*2,-2)'`,
+      '-c:v', 'libx264', '-preset', 'veryfast', '-crf', String(crf), '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac', '-b:a', audioBitrate,
+      '-map_metadata', '0',
+      // Playback can start before the whole file has downloaded
+      '-movflags', '+faststart',
+      outputName,
+    ]);
+    if (exitCode !== 0) throw new Error(`ffmpeg exited with code ${exitCode}`);
+
+    const data = await ffmpeg.readFile(outputName);
+    if (typeof data === 'string') throw new Error('Unexpected ffmpeg output');
+    onProgress?.(100);
+
+    const baseName = videoFile.name.replace(/\.[^.]+$/, '');
+    return new File([data.slice()], `${baseName}.mp4`, { type: 'video/mp4', lastModified: videoFile.lastModified });
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+    if (!signal?.aborted) {
+      ffmpeg.off('progress', handleProgress);
+      await ffmpeg.deleteFile(inputName).catch(() => {});
+      await ffmpeg.deleteFile(outputName).catch(() => {});
+    }
+  }
+};
@@ -0,0 +1,49 @@
+import { VideoEntry } from '../types';
+
+export type VideoSortOrder = 'newest' | 'oldest' | 'longest' | 'shortest';
+
+export type DurationFilter = 'all' | 'short' | 'medium' | 'long';
+
+export const VIDEO_SORT_OPTIONS: { value: VideoSortOrder; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'longest', label: 'Longest' },
+  { value: 'shortest', label: 'Shortest' },
+];
+
+export const DURATION_FILTER_OPTIONS: { value: DurationFilter; label: string }[] = [
+  { value: 'all', label: 'Any length' },
+  { value: 'short', label: 'Under 1 min' },
+  { value: 'medium', label: '1-5 min' },
+  { value: 'long', label: 'Over 5 min' },
+];
+
+/**
+ * Whether a video's duration falls in the filter's range.
+ * Videos that haven't been probed yet only show under 'all'.
+ */
+const matchesDuration = (video: VideoEntry, filter: DurationFilter): boolean => {
+  if (filter === 'all') return true;
+  if (video.durationSeconds === undefined) return false;
+  if (filter === 'short') return video.durationSeconds < 60;
+  if (filter === 'medium') return video.durationSeconds >= 60 && video.durationSeconds <= 300;
+  return video.durationSeconds > 300;
+};
+
+/**
+ * Filters videos by length and sorts them. Unknown durations sort last for longest/shortest.
+ */
+export const sortAndFilterVideos = (videos: VideoEntry[], order: VideoSortOrder, filter: DurationFilter): VideoEntry[] => {
+  const filtered = videos.filter(video => matchesDuration(video, filter));
+
+  return filtered.sort((a, b) => {
+    if (order === 'newest') return b.timestamp - a.timestamp;
+    if (order === 'oldest') return a.timestamp - b.timestamp;
+
+    if (a.durationSeconds === undefined) return b.durationSeconds === undefined ? 0 : 1;
+    if (b.durationSeconds === undefined) return -1;
+    return order === 'longest'
+      ? b.durationSeconds - a.durationSeconds
+      : a.durationSeconds - b.durationSeconds;
+  });
+};
@@ -0,0 +1,41 @@
+/**
+ * Enrichment: once a message has a transcript, samples a few frames and asks the configured
+ * enrichment model (ENRICHMENT_MODEL) for a title, summary, people, themes and content warning.
+ * The result is stored in video_suggestions for the uploader to review - the video itself is untouched.
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { ProcessingJob } from '../supabase/functions/_shared/processingJobs.ts';
+import { getEnrichmentModel, saveVideoSuggestion } from '../supabase/functions/_shared/enrichment/index.ts';
+import { sampleJpegFrames } from './ffmpeg.ts';
+
+// Where to sample stills, as fractions of the duration - enough to see who's in it
+const FRAME_POSITIONS = [0.15, 0.5, 0.85];
+const FRAME_WIDTH = 512;
+
+/**
+ * Enrichment job handler (videos only - queued by settleJob once the transcript is saved)
+ */
+export async function enrichVideo(supabase: SupabaseClient, job: ProcessingJob): Promise<void> {
+  const { data: video, error } = await supabase
+    .from(job.target)
+    .select('title, description, transcription')
+    .eq('id', job.video_id)
+    .single();
+
+  if (error || !video) {
+    throw new Error(`Failed to load ${job.target} ${job.video_id}: ${error?.message}`);
+  }
+
+  const model = getEnrichmentModel();
+  // The transcript alone still gives useful suggestions if no frame decodes
+  const frames = await sampleJpegFrames(job.video_url, FRAME_POSITIONS, FRAME_WIDTH);
+  const result = await model.enrich({
+    title: video.title || '',
+    description: video.description || '',
+    transcript: video.transcription || '',
+    frames,
+  });
+
+  await saveVideoSuggestion(supabase, job.video_id, model.name, result);
+  console.log(`✨ ${model.name} suggestions saved for ${job.video_id} from ${frames.length} frame(s): "${result.title}"`);
+}
@@ -0,0 +1,159 @@
+/**
+ * Thin wrappers around the ffmpeg/ffprobe binaries (must be on PATH, see worker/Dockerfile).
+ * Inputs are URLs - ffmpeg streams and seeks over HTTP, so whole videos are never downloaded.
+ */
+
+const FFMPEG = Deno.env.get('FFMPEG_PATH') || 'ffmpeg';
+const FFPROBE = Deno.env.get('FFPROBE_PATH') || 'ffprobe';
+
+async function run(command: string, args: string[]): Promise<Uint8Array> {
+  const { code, stdout, stderr } = await new Deno.Command(command, {
+    args,
+    stdout: 'piped',
+    stderr: 'piped',
+  }).output();
+
+  if (code !== 0) {
+    const message = new TextDecoder().decode(stderr).trim().split('\n').slice(-3).join(' ');
+    throw new Error(`${command} exited with ${code}: ${message}`);
+  }
+  return stdout;
+}
+
+/**
+ * Duration of a video in seconds (0 if the container doesn't say)
+ */
+export async function probeDuration(url: string): Promise<number> {
+  const output = await run(FFPROBE, [
+    '-v', 'error',
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    url,
+  ]);
+  const duration = parseFloat(new TextDecoder().decode(output).trim());
+  return Number.isFinite(duration) ? duration : 0;
+}
+
+export interface ProbeStream {
+  codec_type: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  tags?: Record<string, string>;
+  side_data_list?: { side_data_type?: string; rotation?: number }[];
+}
+
+export interface ProbeResult {
+  streams: ProbeStream[];
+  format: {
+    duration?: string;
+    size?: string;
+    tags?: Record<string, string>;
+  };
+}
+
+/**
+ * Container and stream details as reported by `ffprobe -show_format -show_streams`
+ */
+export async function probeMedia(url: string): Promise<ProbeResult> {
+  const output = await run(FFPROBE, [
+    '-v', 'error',
+    '-show_format',
+    '-show_streams',
+    '-of', 'json',
+    url,
+  ]);
+  const result = JSON.parse(new TextDecoder().decode(output));
+  return { streams: result.streams || [], format: result.format || {} };
+}
+
+/**
+ * Decodes one frame as raw 8-bit grayscale pixels, scaled to width x height.
+ * Rotation metadata is applied by ffmpeg, so portrait phone videos come out upright.
+ */
+export async function extractGrayFrame(url: string, seconds: number, width: number, height: number): Promise<Uint8Array> {
+  return await run(FFMPEG, [
+    '-v', 'error',
+    '-ss', seconds.toFixed(2),
+    '-i', url,
+    '-frames:v', '1',
+    '-vf', `scale=${width}:${height},format=gray`,
+    '-f', 'rawvideo',
+    'pipe:1',
+  ]);
+}
+
+/**
+ * Encodes one frame as a JPEG no wider than maxWidth, keeping the aspect ratio
+ */
+export async function extractJpegFrame(url: string, seconds: number, maxWidth: number = 1280): Promise<Uint8Array> {
+  return await run(FFMPEG, [
+    '-v', 'error',
+    '-ss', seconds.toFixed(2),
+    '-i', url,
+    '-frames:v', '1',
+    '-vf', `scale='min(${maxWidth},iw)':-2`,
+    '-q:v', '3',
+    '-f', 'image2',
+    '-c:v', 'mjpeg',
+    'pipe:1',
+  ]);
+}
+
+/**
+ * Grabs JPEG stills across the video, at fractions of its duration (just the first second if the
+ * duration can't be read). A frame that won't decode is skipped rather than failing the caller.
+ */
+export async function sampleJpegFrames(
+  url: string,
+  positions: number[],
+  maxWidth: number
+): Promise<{ data: Uint8Array; mimeType: string }[]> {
+  const duration = await probeDuration(url).catch(() => 0);
+  const times = duration > 0 ? positions.map(position => duration * position) : [1];
+
+  const frames: { data: Uint8Array; mimeType: string }[] = [];
+  for (const seconds of times) {
+    try {
+      frames.push({ data: await extractJpegFrame(url, seconds, maxWidth), mimeType: 'image/jpeg' });
+    } catch (error) {
+      console.warn(`⚠️ Could not sample frame at ${seconds.toFixed(1)}s:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return frames;
+}
+
+export interface HlsRenditionOptions {
+  scale: string; // ffmpeg scale filter arguments, e.g. '-2:720'
+  videoBitrate: number; // bits per second
+  audioBitrate: number; // bits per second, ignored when the video has no audio
+  hasAudio: boolean;
+  segmentSeconds: number;
+}
+
+/**
+ * Transcodes one HLS rendition (H.264/AAC, fixed-length segments) into outDir as
+ * index.m3u8 + segment_000.ts, segment_001.ts, ...
+ */
+export async function transcodeHlsRendition(url: string, outDir: string, options: HlsRenditionOptions): Promise<void> {
+  const { scale, videoBitrate, audioBitrate, hasAudio, segmentSeconds } = options;
+  await run(FFMPEG, [
+    '-v', 'error',
+    '-i', url,
+    '-vf', `scale=${scale}`,
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-profile:v', 'main',
+    '-b:v', String(videoBitrate),
+    '-maxrate', String(Math.round(videoBitrate * 1.07)),
+    '-bufsize', String(videoBitrate * 2),
+    // Keyframe at every segment boundary so renditions can be switched between cleanly
+    '-force_key_frames', `expr:gte(t,n_forced*${segmentSeconds})`,
+    ...(hasAudio ? ['-c:a', 'aac', '-b:a', String(audioBitrate), '-ac', '2'] : ['-an']),
+    '-f', 'hls',
+    '-hls_time', String(segmentSeconds),
+    '-hls_playlist_type', 'vod',
+    '-hls_segment_filename', `${outDir}/segment_%03d.ts`,
+    `${outDir}/index.m3u8`,
+  ]);
+}
@@ -0,0 +1,140 @@
+/**
+ * Adaptive streaming: transcodes a video into a ladder of H.264 HLS renditions, uploads them to
+ * the videos bucket under hls/<videoId>/ and saves the master playlist URL on the video row.
+ * The feeds play the master playlist and let the player pick a rendition for the connection.
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { ProcessingJob } from '../supabase/functions/_shared/processingJobs.ts';
+import { probeMedia, transcodeHlsRendition } from './ffmpeg.ts';
+import { toMediaMetadata } from './metadata.ts';
+
+interface Rendition {
+  name: string;
+  shortSide: number; // Height for landscape videos, width for portrait ones
+  videoBitrate: number;
+  audioBitrate: number;
+}
+
+// Lowest first - the 240p rung keeps playback going on 2G/3G phones
+const RENDITIONS: Rendition[] = [
+  { name: '240p', shortSide: 240, videoBitrate: 400_000, audioBitrate: 64_000 },
+  { name: '360p', shortSide: 360, videoBitrate: 800_000, audioBitrate: 96_000 },
+  { name: '720p', shortSide: 720, videoBitrate: 2_500_000, audioBitrate: 128_000 },
+  { name: '1080p', shortSide: 1080, videoBitrate: 5_000_000, audioBitrate: 128_000 },
+];
+
+const SEGMENT_SECONDS = 4;
+
+const CONTENT_TYPES: Record<string, string> = {
+  m3u8: 'application/vnd.apple.mpegurl',
+  ts: 'video/mp2t',
+};
+
+const even = (value: number) => Math.round(value / 2) * 2;
+
+/**
+ * Renditions worth making for a source: never upscale. A source smaller than the lowest rung
+ * still gets one rendition, at its own size with the lowest rung's bitrates.
+ */
+function pickRenditions(sourceShortSide: number): Rendition[] {
+  const fitting = RENDITIONS.filter(rendition => rendition.shortSide <= sourceShortSide);
+  if (fitting.length > 0) return fitting;
+
+  // Rounded down - x264 needs even dimensions, and rounding up would be upscaling
+  const shortSide = Math.max(2, Math.floor(sourceShortSide / 2) * 2);
+  return [{ ...RENDITIONS[0], name: `${shortSide}p`, shortSide }];
+}
+
+/**
+ * Uploads every file in a local directory to the bucket under storagePrefix
+ */
+async function uploadDirectory(supabase: SupabaseClient, localDir: string, storagePrefix: string): Promise<void> {
+  for await (const entry of Deno.readDir(localDir)) {
+    if (!entry.isFile) continue;
+    const extension = entry.name.split('.').pop() || '';
+    const contents = await Deno.readFile(`${localDir}/${entry.name}`);
+
+    const { error } = await supabase.storage
+      .from('videos')
+      .upload(`${storagePrefix}/${entry.name}`, new Blob([contents]), {
+        cacheControl: '31536000', // Segments never change once written
+        upsert: true,
+        contentType: CONTENT_TYPES[extension] || 'application/octet-stream',
+      });
+
+    if (error) {
+      throw new Error(`Failed to upload ${storagePrefix}/${entry.name}: ${error.message}`);
+    }
+  }
+}
+
+export async function transcodeToHls(supabase: SupabaseClient, job: ProcessingJob): Promise<void> {
+  const probe = await probeMedia(job.video_url);
+  // Upright size - ffmpeg applies the rotation flag before scaling
+  const { width, height } = toMediaMetadata(probe);
+  if (!width || !height) {
+    throw new Error('No video stream found');
+  }
+
+  const isPortrait = height > width;
+  const hasAudio = probe.streams.some(stream => stream.codec_type === 'audio');
+  const renditions = pickRenditions(Math.min(width, height));
+  const storagePrefix = `hls/${job.video_id}`;
+  const workDir = await Deno.makeTempDir({ prefix: 'hls-' });
+
+  try {
+    const playlistEntries: string[] = [];
+
+    for (const rendition of renditions) {
+      const outDir = `${workDir}/${rendition.name}`;
+      await Deno.mkdir(outDir);
+
+      console.log(`🎞️ Transcoding ${rendition.name} for ${job.target} ${job.video_id}...`);
+      await transcodeHlsRendition(job.video_url, outDir, {
+        scale: isPortrait ? `${rendition.shortSide}:-2` : `-2:${rendition.shortSide}`,
+        videoBitrate: rendition.videoBitrate,
+        audioBitrate: rendition.audioBitrate,
+        hasAudio,
+        segmentSeconds: SEGMENT_SECONDS,
+      });
+      await uploadDirectory(supabase, outDir, `${storagePrefix}/${rendition.name}`);
+
+      const longSide = even(rendition.shortSide * Math.max(width, height) / Math.min(width, height));
+      const resolution = isPortrait ? `${rendition.shortSide}x${longSide}` : `${longSide}x${rendition.shortSide}`;
+      const bandwidth = rendition.videoBitrate + (hasAudio ? rendition.audioBitrate : 0);
+      playlistEntries.push(
+        `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${resolution}`,
+        `${rendition.name}/index.m3u8`,
+      );
+    }
+
+    // Master playlist goes up last, so players never see a rendition that isn't there yet
+    const masterPlaylist = ['#EXTM3U', '#EXT-X-VERSION:3', ...playlistEntries, ''].join('\n');
+    const { error: uploadError } = await supabase.storage
+      .from('videos')
+      .upload(`${storagePrefix}/master.m3u8`, new Blob([masterPlaylist]), {
+        cacheControl: '60',
+        upsert: true,
+        contentType: CONTENT_TYPES.m3u8,
+      });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload master playlist: ${uploadError.message}`);
+    }
+  } finally {
+    await Deno.remove(workDir, { recursive: true });
+  }
+
+  const { data: urlData } = supabase.storage.from('videos').getPublicUrl(`${storagePrefix}/master.m3u8`);
+
+  const { error: updateError } = await supabase
+    .from(job.target)
+    .update({ hls_url: urlData.publicUrl, updated_at: new Date().toISOString() })
+    .eq('id', job.video_id);
+
+  if (updateError) {
+    throw new Error(`Failed to save HLS URL: ${updateError.message}`);
+  }
+
+  console.log(`✅ HLS ready for ${job.target} ${job.video_id}: ${renditions.map(rendition => rendition.name).join(', ')}`);
+}
@@ -0,0 +1,129 @@
+/**
+ * ffmpeg worker for the processing_jobs queue. Edge functions can't run ffmpeg, so media jobs
+ * (job types other than 'transcription') are claimed and run here instead.
+ *
+ * Run locally:   deno run --allow-net --allow-env --allow-run --allow-read --allow-write worker/main.ts
+ * Or in Docker:  docker build -t dear-naia-worker -f worker/Dockerfile . && docker run --env-file .env.worker dear-naia-worker
+ *
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, WORKER_POLL_INTERVAL_MS (default 5000),
+ *      GEMINI_API_KEY or ENRICHMENT_MODEL for 'enrichment' jobs,
+ *      GEMINI_API_KEY or SAFETY_CLASSIFIER for 'screening' jobs
+ * Flags:
+ *   --once                  process every due job, then exit
+ *   --backfill-thumbnails   queue thumbnail jobs for videos still showing the placeholder, then exit
+ *   --backfill-metadata     queue metadata jobs for videos that were never probed, then exit
+ *   --backfill-hls          queue HLS jobs for videos that only have the original file, then exit
+ */
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import {
+  ProcessingJob,
+  ProcessingJobType,
+  claimNextJob,
+  completeJob,
+  failJob,
+  findOrEnqueueJob,
+} from '../supabase/functions/_shared/processingJobs.ts';
+import { generateThumbnail } from './thumbnail.ts';
+import { extractMetadata } from './metadata.ts';
+import { transcodeToHls } from './hls.ts';
+import { enrichVideo } from './enrichment.ts';
+import { screenVideo } from './screening.ts';
+
+type JobHandler = (supabase: SupabaseClient, job: ProcessingJob) => Promise<void>;
+
+// Checked in this order on every pass, so quick jobs aren't stuck behind long transcodes
+const HANDLERS: Partial<Record<ProcessingJobType, JobHandler>> = {
+  thumbnail: generateThumbnail,
+  metadata: extractMetadata,
+  screening: screenVideo,
+  enrichment: enrichVideo,
+  hls: transcodeToHls,
+};
+
+const POLL_INTERVAL_MS = Number(Deno.env.get('WORKER_POLL_INTERVAL_MS') || 5000);
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('❌ SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  Deno.exit(1);
+}
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+let stopping = false;
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  Deno.addSignalListener(signal, () => {
+    console.log(`👋 ${signal} received, finishing the current job...`);
+    stopping = true;
+  });
+}
+
+/**
+ * Claims and runs one due job
+ * @returns Whether there was a job to run
+ */
+async function runNextJob(): Promise<boolean> {
+  for (const [jobType, handler] of Object.entries(HANDLERS) as [ProcessingJobType, JobHandler][]) {
+    const job = await claimNextJob(supabase, jobType);
+    if (!job) continue;
+
+    console.log(`🧾 ${job.job_type} job ${job.id} for ${job.target} ${job.video_id} (attempt ${job.attempts}/${job.max_attempts})`);
+    try {
+      await handler(supabase, job);
+      await completeJob(supabase, job);
+    } catch (error) {
+      await failJob(supabase, job, error instanceof Error ? error.message : String(error));
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Queues jobs for videos uploaded before the worker existed
+ * @param needsJob - Whether a row (id, url column, thumbnail, duration_seconds, hls_url) is missing this job's output
+ */
+async function backfill(jobType: ProcessingJobType, needsJob: (row: any) => boolean): Promise<void> {
+  for (const [target, urlColumn] of [['videos', 'url'], ['event_media', 'media_url']] as const) {
+    let query = supabase.from(target).select(`id, ${urlColumn}, thumbnail, duration_seconds, hls_url`);
+    if (target === 'event_media') query = query.eq('media_type', 'video');
+
+    const { data, error } = await query;
+    if (error) {
+      console.error(`❌ Failed to list ${target}:`, error);
+      continue;
+    }
+
+    const missing = (data || []).filter(needsJob);
+    for (const row of missing as any[]) {
+      await findOrEnqueueJob(supabase, target, row.id, row[urlColumn], jobType);
+    }
+    console.log(`📥 Queued ${missing.length} ${jobType} job(s) for ${target}`);
+  }
+}
+
+const backfillFlags = ['--backfill-thumbnails', '--backfill-metadata', '--backfill-hls'];
+if (backfillFlags.some(flag => Deno.args.includes(flag))) {
+  if (Deno.args.includes('--backfill-thumbnails')) {
+    // Old rows still have the inline placeholder SVG rather than a storage URL
+    await backfill('thumbnail', row => !row.thumbnail || row.thumbnail.startsWith('data:'));
+  }
+  if (Deno.args.includes('--backfill-metadata')) {
+    await backfill('metadata', row => row.duration_seconds === null);
+  }
+  if (Deno.args.includes('--backfill-hls')) {
+    await backfill('hls', row => !row.hls_url);
+  }
+  Deno.exit(0);
+}
+
+const runOnce = Deno.args.includes('--once');
+console.log(`🛠️ Worker started (${Object.keys(HANDLERS).join(', ')})${runOnce ? ' - single pass' : ''}`);
+
+while (!stopping) {
+  const didWork = await runNextJob();
+  if (!didWork) {
+    if (runOnce) break;
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Media metadata extraction: duration, display resolution, codec, rotation, size and the
+ * recording date, read with ffprobe and stored in structured columns on the video row.
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { ProcessingJob } from '../supabase/functions/_shared/processingJobs.ts';
+import { ProbeResult, probeMedia } from './ffmpeg.ts';
+
+export interface MediaMetadata {
+  duration_seconds: number | null;
+  width: number | null;
+  height: number | null;
+  video_codec: string | null;
+  rotation: number | null;
+  file_size: number | null;
+  recorded_at: string | null;
+}
+
+/**
+ * Same format as formatDuration in utils/videoHelpers.ts (m:ss)
+ */
+function formatDuration(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s < 10 ? '0' : ''}${s}`;
+}
+
+/**
+ * Rotation in degrees (0, 90, 180, 270). Newer ffmpeg reports it as display matrix side data
+ * (counter-clockwise, so negated), older builds and phones as a "rotate" stream tag.
+ */
+function readRotation(stream: ProbeResult['streams'][number]): number {
+  const displayMatrix = stream.side_data_list?.find(data => typeof data.rotation === 'number');
+  const degrees = displayMatrix ? -displayMatrix.rotation! : Number(stream.tags?.rotate || 0);
+  return ((Math.round(degrees) % 360) + 360) % 360;
+}
+
+/**
+ * Maps ffprobe output to the video row's metadata columns
+ */
+export function toMediaMetadata(probe: ProbeResult): MediaMetadata {
+  const videoStream = probe.streams.find(stream => stream.codec_type === 'video');
+  const rotation = videoStream ? readRotation(videoStream) : null;
+
+  // Store the upright size, which is what viewers see (and what the browser probe reports)
+  let width = videoStream?.width ?? null;
+  let height = videoStream?.height ?? null;
+  if (rotation === 90 || rotation === 270) {
+    [width, height] = [height, width];
+  }
+
+  const duration = parseFloat(probe.format.duration || '');
+  const size = parseInt(probe.format.size || '', 10);
+  const creationTime = probe.format.tags?.creation_time || videoStream?.tags?.creation_time;
+  const recordedAt = creationTime ? new Date(creationTime) : null;
+
+  return {
+    duration_seconds: Number.isFinite(duration) ? duration : null,
+    width,
+    height,
+    video_codec: videoStream?.codec_name ?? null,
+    rotation,
+    file_size: Number.isFinite(size) ? size : null,
+    // Cameras without a clock write 1970/1904 epochs - treat those as unknown
+    recorded_at: recordedAt && recordedAt.getFullYear() > 1990 ? recordedAt.toISOString() : null,
+  };
+}
+
+/**
+ * Probes the job's video and saves its metadata. Values the probe couldn't read are left as
+ * they are, so the browser's numbers from upload time aren't wiped out.
+ */
+export async function extractMetadata(supabase: SupabaseClient, job: ProcessingJob): Promise<void> {
+  const metadata = toMediaMetadata(await probeMedia(job.video_url));
+
+  const update: Record<string, unknown> = Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== null)
+  );
+  if (metadata.duration_seconds !== null && job.target === 'videos') {
+    update.duration_string = formatDuration(metadata.duration_seconds);
+  }
+  update.updated_at = new Date().toISOString();
+
+  const { error } = await supabase
+    .from(job.target)
+    .update(update)
+    .eq('id', job.video_id);
+
+  if (error) {
+    throw new Error(`Failed to save metadata: ${error.message}`);
+  }
+
+  console.log(`✅ Metadata saved for ${job.target} ${job.video_id}: ${metadata.width}x${metadata.height} ${metadata.video_codec}, ${metadata.duration_seconds?.toFixed(1)}s`);
+}
@@ -0,0 +1,27 @@
+/**
+ * Safety screening for videos: samples stills across the video so the classifier sees what's in
+ * the picture, not just what's said, then screens it like every other submission. Queued by
+ * settleJob once the transcript is saved, so both are checked together.
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { ProcessingJob } from '../supabase/functions/_shared/processingJobs.ts';
+import { screenSubmission } from '../supabase/functions/_shared/safety/index.ts';
+import { sampleJpegFrames } from './ffmpeg.ts';
+
+// Spread across the whole video - anything only visible for a moment between these is left to chance
+const FRAME_POSITIONS = [0.05, 0.25, 0.5, 0.75, 0.95];
+const FRAME_WIDTH = 512;
+
+/**
+ * Screening job handler (videos only). With no frames to look at, the video is flagged for a
+ * moderator rather than approved on its transcript alone.
+ */
+export async function screenVideo(supabase: SupabaseClient, job: ProcessingJob): Promise<void> {
+  if (job.target !== 'videos') {
+    throw new Error(`Screening jobs are only for videos, not ${job.target}`);
+  }
+
+  const frames = await sampleJpegFrames(job.video_url, FRAME_POSITIONS, FRAME_WIDTH);
+  const { status } = await screenSubmission(supabase, 'videos', job.video_id, frames);
+  console.log(`🛡️ Video ${job.video_id} screened from ${frames.length} frame(s): ${status}`);
+}
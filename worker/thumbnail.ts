@@ -0,0 +1,129 @@
+/**
+ * Poster-frame selection: samples frames across the video and keeps the sharpest one that
+ * isn't black, washed out or a flat fade, then uploads it where uploadThumbnailToStorage does.
+ */
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { ProcessingJob } from '../supabase/functions/_shared/processingJobs.ts';
+import { extractGrayFrame, extractJpegFrame, probeDuration } from './ffmpeg.ts';
+
+// Where in the video to look, as fractions of its duration (skips intros and end fades)
+const SAMPLE_POSITIONS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7];
+const SAMPLE_WIDTH = 160;
+const SAMPLE_HEIGHT = 90;
+
+const MIN_BRIGHTNESS = 25; // Mean luma (0-255) below this is a black frame
+const MAX_BRIGHTNESS = 235; // Above this is blown out / a white flash
+const MIN_CONTRAST = 12; // Luma standard deviation below this is a flat fade or title card
+const MIN_SHARPNESS = 40; // Laplacian variance below this is too blurry to use
+
+interface FrameScore {
+  seconds: number;
+  brightness: number;
+  contrast: number;
+  sharpness: number;
+  usable: boolean;
+}
+
+/**
+ * Scores a grayscale frame: mean brightness, contrast (std dev) and sharpness
+ * (variance of the Laplacian - blurry frames have few strong edges)
+ */
+export function scoreFrame(pixels: Uint8Array, width: number, height: number, seconds: number = 0): FrameScore {
+  let sum = 0;
+  for (let i = 0; i < pixels.length; i++) sum += pixels[i];
+  const brightness = sum / pixels.length;
+
+  let variance = 0;
+  for (let i = 0; i < pixels.length; i++) variance += (pixels[i] - brightness) ** 2;
+  const contrast = Math.sqrt(variance / pixels.length);
+
+  const laplacians: number[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      laplacians.push(pixels[i - width] + pixels[i + width] + pixels[i - 1] + pixels[i + 1] - 4 * pixels[i]);
+    }
+  }
+  const laplacianMean = laplacians.reduce((total, value) => total + value, 0) / (laplacians.length || 1);
+  const sharpness = laplacians.reduce((total, value) => total + (value - laplacianMean) ** 2, 0) / (laplacians.length || 1);
+
+  const usable = brightness >= MIN_BRIGHTNESS &&
+    brightness <= MAX_BRIGHTNESS &&
+    contrast >= MIN_CONTRAST &&
+    sharpness >= MIN_SHARPNESS;
+
+  return { seconds, brightness, contrast, sharpness, usable };
+}
+
+/**
+ * Picks the timestamp (in seconds) of the best poster frame
+ */
+export async function pickPosterFrame(videoUrl: string): Promise<number> {
+  const duration = await probeDuration(videoUrl);
+  // Without a duration, the first second is the best guess
+  if (duration <= 0) return 1;
+
+  const scores: FrameScore[] = [];
+  for (const position of SAMPLE_POSITIONS) {
+    const seconds = duration * position;
+    try {
+      const pixels = await extractGrayFrame(videoUrl, seconds, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      if (pixels.length === SAMPLE_WIDTH * SAMPLE_HEIGHT) {
+        scores.push(scoreFrame(pixels, SAMPLE_WIDTH, SAMPLE_HEIGHT, seconds));
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not sample frame at ${seconds.toFixed(1)}s:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (scores.length === 0) {
+    throw new Error('Could not decode any frames from the video');
+  }
+
+  // Prefer usable frames; if every frame fails the checks, the sharpest reasonably lit one still beats a placeholder
+  const candidates = scores.some(score => score.usable) ? scores.filter(score => score.usable) : scores;
+  const best = candidates.reduce((a, b) =>
+    (b.sharpness * Math.min(b.brightness, 128)) > (a.sharpness * Math.min(a.brightness, 128)) ? b : a
+  );
+
+  console.log(`🖼️ Picked frame at ${best.seconds.toFixed(1)}s (brightness ${best.brightness.toFixed(0)}, sharpness ${best.sharpness.toFixed(0)}${best.usable ? '' : ', best of unusable frames'})`);
+  return best.seconds;
+}
+
+/**
+ * Thumbnail job handler: extracts the poster frame, uploads it next to the other thumbnails
+ * and updates the video row (realtime then pushes the new thumbnail to open clients)
+ */
+export async function generateThumbnail(supabase: SupabaseClient, job: ProcessingJob): Promise<void> {
+  const seconds = await pickPosterFrame(job.video_url);
+  const jpeg = await extractJpegFrame(job.video_url, seconds);
+
+  // Same bucket and naming as uploadThumbnailToStorage in services/supabaseService.ts
+  const filePath = `thumbnails/${job.video_id}_thumb.jpg`;
+  const { error: uploadError } = await supabase.storage
+    .from('videos')
+    .upload(filePath, new Blob([jpeg], { type: 'image/jpeg' }), {
+      cacheControl: '3600',
+      upsert: true,
+      contentType: 'image/jpeg',
+    });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload thumbnail: ${uploadError.message}`);
+  }
+
+  // Cache-bust so clients don't keep showing an earlier thumbnail at the same path
+  const { data: urlData } = supabase.storage.from('videos').getPublicUrl(filePath);
+  const thumbnailUrl = `${urlData.publicUrl}?v=${Date.now()}`;
+
+  const { error: updateError } = await supabase
+    .from(job.target)
+    .update({ thumbnail: thumbnailUrl, updated_at: new Date().toISOString() })
+    .eq('id', job.video_id);
+
+  if (updateError) {
+    throw new Error(`Failed to save thumbnail: ${updateError.message}`);
+  }
+
+  console.log(`✅ Thumbnail saved for ${job.target} ${job.video_id}`);
+}